@@ -0,0 +1,266 @@
+/**
+ * Audio-Reactive Height Module
+ *
+ * Measures the level of an audio signal through a Web Audio AnalyserNode and turns it
+ * into ball height, smoothed with separate attack and release times.
+ */
+
+import { browserClock } from './clock';
+import type { AudioAnalyser, AudioMetric, Clock, HeightSource } from '../types';
+
+/**
+ * Configuration options for AudioHeightSource
+ */
+export interface AudioHeightSourceConfig {
+  /**
+   * Audio to analyse. Ignored when an analyser is provided.
+   */
+  source?: AudioNode | HTMLMediaElement;
+
+  /**
+   * Existing analyser to read from instead of creating one.
+   */
+  analyser?: AudioAnalyser;
+
+  /**
+   * Level measurement.
+   * @default 'rms'
+   */
+  metric?: AudioMetric;
+
+  /**
+   * Frequency range in Hz for the 'band' metric.
+   * @default [20, 250]
+   */
+  band?: [number, number];
+
+  /**
+   * Rise time constant in milliseconds.
+   * @default 10
+   */
+  attackMs?: number;
+
+  /**
+   * Fall time constant in milliseconds.
+   * @default 250
+   */
+  releaseMs?: number;
+
+  /**
+   * Level multiplier applied before clamping.
+   * @default 1
+   */
+  gain?: number;
+
+  /**
+   * Time source for attack and release smoothing.
+   * @default browser clock
+   */
+  clock?: Clock;
+}
+
+/**
+ * Web Audio source node of each media element routed so far. An element can only be
+ * routed once, and from then on it only plays through its context, so the node and
+ * context are kept for the element's lifetime and shared by every height source.
+ */
+const mediaSources = new WeakMap<
+  HTMLMediaElement,
+  MediaElementAudioSourceNode
+>();
+
+/**
+ * Route a media element through Web Audio, or reuse its existing routing.
+ * The element stays audible through the context's destination.
+ */
+function getMediaSource(media: HTMLMediaElement): MediaElementAudioSourceNode {
+  let node = mediaSources.get(media);
+  if (!node) {
+    const context = new AudioContext();
+    node = context.createMediaElementSource(media);
+    node.connect(context.destination);
+    mediaSources.set(media, node);
+  }
+  return node;
+}
+
+/**
+ * Height source that follows the level of an audio signal.
+ *
+ * Each call to getHeight() reads the analyser once, so the renderer samples the
+ * audio exactly once per frame. The measured level is scaled by gain, clamped to
+ * [0,1] and passed through an envelope follower: rising levels approach the target
+ * with the attack time constant, falling levels with the release time constant.
+ *
+ * @example
+ * ```typescript
+ * const audio = document.querySelector('audio');
+ * const height = new AudioHeightSource({ source: audio, metric: 'band', band: [40, 120] });
+ *
+ * // In render loop
+ * const z = height.getHeight(); // follows the kick drum
+ * ```
+ */
+export class AudioHeightSource implements HeightSource {
+  private analyser: AudioAnalyser;
+  private clock: Clock;
+  private metric: AudioMetric;
+  private band: [number, number];
+  private attackMs: number;
+  private releaseMs: number;
+  private gain: number;
+  private level: number = 0;
+  private lastSampleTime: number | null = null;
+  private waveform: Float32Array | null = null;
+  private spectrum: Uint8Array | null = null;
+
+  /** Node the analyser is connected to, disconnected on destroy */
+  private tappedNode: AudioNode | null = null;
+
+  /** Media element whose shared context is resumed when it starts playing */
+  private media: HTMLMediaElement | null = null;
+
+  /** Default frequency range for the 'band' metric (bass) */
+  static readonly DEFAULT_BAND: [number, number] = [20, 250];
+
+  constructor(config: AudioHeightSourceConfig) {
+    this.metric = config.metric ?? 'rms';
+    this.band = config.band ?? AudioHeightSource.DEFAULT_BAND;
+    this.attackMs = config.attackMs ?? 10;
+    this.releaseMs = config.releaseMs ?? 250;
+    this.gain = config.gain ?? 1;
+    this.clock = config.clock ?? browserClock;
+
+    if (config.analyser) {
+      this.analyser = config.analyser;
+    } else if (config.source) {
+      this.analyser = this.createAnalyser(config.source);
+    } else {
+      throw new Error('AudioHeightSource requires a source or an analyser');
+    }
+  }
+
+  /**
+   * Sample the analyser and get the smoothed height for this frame.
+   */
+  getHeight(): number {
+    const now = this.clock.now();
+    const dt = this.lastSampleTime === null ? 0 : now - this.lastSampleTime;
+    this.lastSampleTime = now;
+
+    const target = Math.max(0, Math.min(1, this.measure() * this.gain));
+    const timeConstant = target > this.level ? this.attackMs : this.releaseMs;
+
+    // Exponential envelope; a zero time constant follows the level immediately
+    const alpha = timeConstant <= 0 ? 1 : 1 - Math.exp(-dt / timeConstant);
+    this.level += (target - this.level) * alpha;
+
+    return this.level;
+  }
+
+  /**
+   * Disconnect the analyser from the audio graph.
+   * A media element's context stays open, since the element now plays through it.
+   */
+  destroy(): void {
+    if (this.tappedNode) {
+      try {
+        this.tappedNode.disconnect(this.analyser as AnalyserNode);
+      } catch {
+        // Already disconnected
+      }
+      this.tappedNode = null;
+    }
+
+    if (this.media) {
+      this.media.removeEventListener('play', this.resumeContext);
+      this.media = null;
+    }
+
+    this.level = 0;
+    this.lastSampleTime = null;
+  }
+
+  /**
+   * Insert an AnalyserNode after the source.
+   * Media elements share one routing per element (see getMediaSource()).
+   */
+  private createAnalyser(source: AudioNode | HTMLMediaElement): AnalyserNode {
+    if (source instanceof HTMLMediaElement) {
+      const node = getMediaSource(source);
+      const analyser = node.context.createAnalyser();
+      node.connect(analyser);
+      this.tappedNode = node;
+
+      // A context created before any user gesture starts suspended and reads
+      // silence; playback usually follows a gesture, so retry when it starts
+      this.media = source;
+      this.resumeContext();
+      source.addEventListener('play', this.resumeContext);
+      return analyser;
+    }
+
+    const analyser = source.context.createAnalyser();
+    source.connect(analyser);
+    this.tappedNode = source;
+    return analyser;
+  }
+
+  /**
+   * Resume the media element's context if the browser suspended it.
+   */
+  private resumeContext = (): void => {
+    const context = this.tappedNode?.context as AudioContext | undefined;
+    if (context?.state === 'suspended') {
+      // Rejected without a user gesture; the next play event tries again
+      context.resume().catch(() => undefined);
+    }
+  };
+
+  /**
+   * Measure the raw level in [0,1] using the configured metric.
+   */
+  private measure(): number {
+    return this.metric === 'band' ? this.measureBand() : this.measureRms();
+  }
+
+  /**
+   * Root-mean-square amplitude of the current waveform.
+   */
+  private measureRms(): number {
+    if (!this.waveform || this.waveform.length !== this.analyser.fftSize) {
+      this.waveform = new Float32Array(this.analyser.fftSize);
+    }
+    this.analyser.getFloatTimeDomainData(this.waveform);
+
+    let sumOfSquares = 0;
+    for (const sample of this.waveform) {
+      sumOfSquares += sample * sample;
+    }
+
+    return Math.sqrt(sumOfSquares / this.waveform.length);
+  }
+
+  /**
+   * Average magnitude of the frequency bins covering the configured band.
+   */
+  private measureBand(): number {
+    const binCount = this.analyser.frequencyBinCount;
+    if (!this.spectrum || this.spectrum.length !== binCount) {
+      this.spectrum = new Uint8Array(binCount);
+    }
+    this.analyser.getByteFrequencyData(this.spectrum);
+
+    // Each bin spans sampleRate / fftSize Hz
+    const hzPerBin = this.analyser.context.sampleRate / this.analyser.fftSize;
+    const first = Math.max(0, Math.min(binCount - 1, Math.floor(this.band[0] / hzPerBin)));
+    const last = Math.max(first, Math.min(binCount - 1, Math.ceil(this.band[1] / hzPerBin)));
+
+    let sum = 0;
+    for (let i = first; i <= last; i++) {
+      sum += this.spectrum[i] ?? 0;
+    }
+
+    return sum / (last - first + 1) / 255;
+  }
+}
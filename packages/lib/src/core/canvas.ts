@@ -18,6 +18,8 @@ export interface CanvasOptions {
   height?: number;
   /** How the canvas should fit within its container */
   fitMode?: FitMode;
+  /** Called after every resize with the new logical size in CSS pixels */
+  onResize?: (width: number, height: number) => void;
 }
 
 /**
@@ -40,7 +42,10 @@ export interface CanvasOptions {
  * ```
  */
 export function createCanvasManager(options: CanvasOptions): CanvasManager {
-  const { container, fitMode = 'contain' } = options;
+  const { container } = options;
+  let fitMode = options.fitMode ?? 'contain';
+  let configuredWidth = options.width;
+  let configuredHeight = options.height;
   
   // Create canvas element
   const canvas = document.createElement('canvas');
@@ -59,8 +64,8 @@ export function createCanvasManager(options: CanvasOptions): CanvasManager {
   
   // Calculate initial dimensions
   const containerRect = container.getBoundingClientRect();
-  const initialWidth = options.width ?? (containerRect.width || 800);
-  const initialHeight = options.height ?? (containerRect.height || 600);
+  const initialWidth = configuredWidth ?? (containerRect.width || 800);
+  const initialHeight = configuredHeight ?? (containerRect.height || 600);
   
   // State
   let logicalWidth = initialWidth;
@@ -148,8 +153,8 @@ export function createCanvasManager(options: CanvasOptions): CanvasManager {
     const containerRect = container.getBoundingClientRect();
     
     // Use provided dimensions or fall back to container size
-    const targetWidth = width ?? options.width ?? (containerRect.width || logicalWidth);
-    const targetHeight = height ?? options.height ?? (containerRect.height || logicalHeight);
+    const targetWidth = width ?? configuredWidth ?? (containerRect.width || logicalWidth);
+    const targetHeight = height ?? configuredHeight ?? (containerRect.height || logicalHeight);
     
     // Calculate fit dimensions
     const fitDimensions = calculateFitDimensions(
@@ -165,6 +170,18 @@ export function createCanvasManager(options: CanvasOptions): CanvasManager {
     
     // Apply DPR scaling
     applyDPRScaling(logicalWidth, logicalHeight);
+    
+    options.onResize?.(logicalWidth, logicalHeight);
+  }
+  
+  /**
+   * Replace the configured size and fit mode, then resize
+   */
+  function setLayout(layout: { width?: number; height?: number; fitMode?: FitMode }): void {
+    configuredWidth = layout.width;
+    configuredHeight = layout.height;
+    fitMode = layout.fitMode ?? 'contain';
+    resize();
   }
   
   /**
@@ -244,6 +261,7 @@ export function createCanvasManager(options: CanvasOptions): CanvasManager {
     },
     dpr,
     resize,
+    setLayout,
     toWorldCoords,
     toCSSCoords,
     destroy
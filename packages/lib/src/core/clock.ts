@@ -0,0 +1,123 @@
+/**
+ * Clock Module - Time Source and Frame Scheduling
+ *
+ * Drivers, the renderer and height sources read time and schedule frames through a
+ * Clock instead of calling performance.now() and requestAnimationFrame directly.
+ * The browser clock is the default; the manual clock makes animations deterministic
+ * for tests, screenshots and offline frame export.
+ */
+
+import type { Clock } from '../types';
+
+/**
+ * Default clock backed by performance.now() and requestAnimationFrame.
+ * Globals are looked up on every call so that they can be replaced or spied on.
+ */
+export const browserClock: Clock = {
+  now: () => performance.now(),
+  requestFrame: (callback) => requestAnimationFrame(callback),
+  cancelFrame: (handle) => cancelAnimationFrame(handle),
+};
+
+/**
+ * Options for ManualClock
+ */
+export interface ManualClockOptions {
+  /**
+   * Initial value returned by now(), in milliseconds.
+   * @default 0
+   */
+  startTime?: number;
+
+  /**
+   * Frame interval used by advance() and frame(), in milliseconds.
+   * @default 1000 / 60
+   */
+  frameMs?: number;
+}
+
+/**
+ * Clock that only moves when told to.
+ *
+ * Time stands still until advance() or frame() is called. Like requestAnimationFrame,
+ * callbacks requested during a frame run in the next frame, and every callback in a
+ * frame receives the same timestamp.
+ *
+ * @example
+ * ```typescript
+ * const clock = new ManualClock();
+ * const animation = createBallAnimation({ ...config, clock });
+ * animation.play();
+ *
+ * clock.advance(500); // runs 30 frames at 60fps
+ * ```
+ */
+export class ManualClock implements Clock {
+  private time: number;
+  private frameMs: number;
+  private callbacks = new Map<number, (timestamp: number) => void>();
+  private nextHandle: number = 1;
+
+  constructor(options: ManualClockOptions = {}) {
+    this.time = options.startTime ?? 0;
+    this.frameMs = options.frameMs ?? 1000 / 60;
+  }
+
+  /**
+   * Get the current virtual time in milliseconds.
+   */
+  now(): number {
+    return this.time;
+  }
+
+  /**
+   * Queue a callback for the next frame.
+   */
+  requestFrame(callback: (timestamp: number) => void): number {
+    const handle = this.nextHandle++;
+    this.callbacks.set(handle, callback);
+    return handle;
+  }
+
+  /**
+   * Remove a queued callback.
+   */
+  cancelFrame(handle: number): void {
+    this.callbacks.delete(handle);
+  }
+
+  /**
+   * Move time forward in frame-sized steps, running queued callbacks after each step.
+   * A remainder shorter than a frame moves time without running a frame.
+   * @param ms - Milliseconds to advance
+   */
+  advance(ms: number): void {
+    let remaining = ms;
+    while (remaining >= this.frameMs) {
+      this.frame();
+      remaining -= this.frameMs;
+    }
+    this.time += Math.max(0, remaining);
+  }
+
+  /**
+   * Move time forward by one frame interval and run the queued callbacks.
+   */
+  frame(): void {
+    this.time += this.frameMs;
+
+    // Callbacks requested while flushing belong to the next frame
+    const callbacks = [...this.callbacks.values()];
+    this.callbacks.clear();
+    for (const callback of callbacks) {
+      callback(this.time);
+    }
+  }
+
+  /**
+   * Number of callbacks waiting for the next frame.
+   */
+  get pendingFrames(): number {
+    return this.callbacks.size;
+  }
+}
@@ -0,0 +1,426 @@
+/**
+ * Color Parsing and Interpolation
+ *
+ * Parses CSS hex, rgb(), hsl() and named colors and mixes them in sRGB or OKLab,
+ * for transitions between ball styles.
+ */
+
+import type { ColorSpace } from '../types';
+
+/**
+ * Color with channels in [0,255] and alpha in [0,1]
+ */
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * Keywords that draw nothing. Mixing with one fades the other color in or out.
+ */
+const INVISIBLE_COLORS = ['none', 'transparent'];
+
+/**
+ * CSS named colors as 0xRRGGBB
+ */
+const NAMED_COLORS: Record<string, number> = {
+  aliceblue: 0xf0f8ff,
+  antiquewhite: 0xfaebd7,
+  aqua: 0x00ffff,
+  aquamarine: 0x7fffd4,
+  azure: 0xf0ffff,
+  beige: 0xf5f5dc,
+  bisque: 0xffe4c4,
+  black: 0x000000,
+  blanchedalmond: 0xffebcd,
+  blue: 0x0000ff,
+  blueviolet: 0x8a2be2,
+  brown: 0xa52a2a,
+  burlywood: 0xdeb887,
+  cadetblue: 0x5f9ea0,
+  chartreuse: 0x7fff00,
+  chocolate: 0xd2691e,
+  coral: 0xff7f50,
+  cornflowerblue: 0x6495ed,
+  cornsilk: 0xfff8dc,
+  crimson: 0xdc143c,
+  cyan: 0x00ffff,
+  darkblue: 0x00008b,
+  darkcyan: 0x008b8b,
+  darkgoldenrod: 0xb8860b,
+  darkgray: 0xa9a9a9,
+  darkgreen: 0x006400,
+  darkgrey: 0xa9a9a9,
+  darkkhaki: 0xbdb76b,
+  darkmagenta: 0x8b008b,
+  darkolivegreen: 0x556b2f,
+  darkorange: 0xff8c00,
+  darkorchid: 0x9932cc,
+  darkred: 0x8b0000,
+  darksalmon: 0xe9967a,
+  darkseagreen: 0x8fbc8f,
+  darkslateblue: 0x483d8b,
+  darkslategray: 0x2f4f4f,
+  darkslategrey: 0x2f4f4f,
+  darkturquoise: 0x00ced1,
+  darkviolet: 0x9400d3,
+  deeppink: 0xff1493,
+  deepskyblue: 0x00bfff,
+  dimgray: 0x696969,
+  dimgrey: 0x696969,
+  dodgerblue: 0x1e90ff,
+  firebrick: 0xb22222,
+  floralwhite: 0xfffaf0,
+  forestgreen: 0x228b22,
+  fuchsia: 0xff00ff,
+  gainsboro: 0xdcdcdc,
+  ghostwhite: 0xf8f8ff,
+  gold: 0xffd700,
+  goldenrod: 0xdaa520,
+  gray: 0x808080,
+  green: 0x008000,
+  greenyellow: 0xadff2f,
+  grey: 0x808080,
+  honeydew: 0xf0fff0,
+  hotpink: 0xff69b4,
+  indianred: 0xcd5c5c,
+  indigo: 0x4b0082,
+  ivory: 0xfffff0,
+  khaki: 0xf0e68c,
+  lavender: 0xe6e6fa,
+  lavenderblush: 0xfff0f5,
+  lawngreen: 0x7cfc00,
+  lemonchiffon: 0xfffacd,
+  lightblue: 0xadd8e6,
+  lightcoral: 0xf08080,
+  lightcyan: 0xe0ffff,
+  lightgoldenrodyellow: 0xfafad2,
+  lightgray: 0xd3d3d3,
+  lightgreen: 0x90ee90,
+  lightgrey: 0xd3d3d3,
+  lightpink: 0xffb6c1,
+  lightsalmon: 0xffa07a,
+  lightseagreen: 0x20b2aa,
+  lightskyblue: 0x87cefa,
+  lightslategray: 0x778899,
+  lightslategrey: 0x778899,
+  lightsteelblue: 0xb0c4de,
+  lightyellow: 0xffffe0,
+  lime: 0x00ff00,
+  limegreen: 0x32cd32,
+  linen: 0xfaf0e6,
+  magenta: 0xff00ff,
+  maroon: 0x800000,
+  mediumaquamarine: 0x66cdaa,
+  mediumblue: 0x0000cd,
+  mediumorchid: 0xba55d3,
+  mediumpurple: 0x9370db,
+  mediumseagreen: 0x3cb371,
+  mediumslateblue: 0x7b68ee,
+  mediumspringgreen: 0x00fa9a,
+  mediumturquoise: 0x48d1cc,
+  mediumvioletred: 0xc71585,
+  midnightblue: 0x191970,
+  mintcream: 0xf5fffa,
+  mistyrose: 0xffe4e1,
+  moccasin: 0xffe4b5,
+  navajowhite: 0xffdead,
+  navy: 0x000080,
+  oldlace: 0xfdf5e6,
+  olive: 0x808000,
+  olivedrab: 0x6b8e23,
+  orange: 0xffa500,
+  orangered: 0xff4500,
+  orchid: 0xda70d6,
+  palegoldenrod: 0xeee8aa,
+  palegreen: 0x98fb98,
+  paleturquoise: 0xafeeee,
+  palevioletred: 0xdb7093,
+  papayawhip: 0xffefd5,
+  peachpuff: 0xffdab9,
+  peru: 0xcd853f,
+  pink: 0xffc0cb,
+  plum: 0xdda0dd,
+  powderblue: 0xb0e0e6,
+  purple: 0x800080,
+  rebeccapurple: 0x663399,
+  red: 0xff0000,
+  rosybrown: 0xbc8f8f,
+  royalblue: 0x4169e1,
+  saddlebrown: 0x8b4513,
+  salmon: 0xfa8072,
+  sandybrown: 0xf4a460,
+  seagreen: 0x2e8b57,
+  seashell: 0xfff5ee,
+  sienna: 0xa0522d,
+  silver: 0xc0c0c0,
+  skyblue: 0x87ceeb,
+  slateblue: 0x6a5acd,
+  slategray: 0x708090,
+  slategrey: 0x708090,
+  snow: 0xfffafa,
+  springgreen: 0x00ff7f,
+  steelblue: 0x4682b4,
+  tan: 0xd2b48c,
+  teal: 0x008080,
+  thistle: 0xd8bfd8,
+  tomato: 0xff6347,
+  turquoise: 0x40e0d0,
+  violet: 0xee82ee,
+  wheat: 0xf5deb3,
+  white: 0xffffff,
+  whitesmoke: 0xf5f5f5,
+  yellow: 0xffff00,
+  yellowgreen: 0x9acd32,
+};
+
+/**
+ * Parse a CSS color in hex (#rgb, #rgba, #rrggbb, #rrggbbaa), rgb()/rgba() or
+ * hsl()/hsla() notation, with comma or space separated channels, or a named color.
+ *
+ * @param color - CSS color string
+ * @returns Parsed color, or null for other notations such as currentColor or oklch()
+ *
+ * @example
+ * ```typescript
+ * parseColor('#3b82f6');              // { r: 59, g: 130, b: 246, a: 1 }
+ * parseColor('rgb(255 0 0 / 50%)');   // { r: 255, g: 0, b: 0, a: 0.5 }
+ * parseColor('hsl(120deg 100% 25%)'); // { r: 0, g: 127.5, b: 0, a: 1 }
+ * parseColor('rebeccapurple');        // { r: 102, g: 51, b: 153, a: 1 }
+ * ```
+ */
+export function parseColor(color: string): RGBA | null {
+  const value = color.trim().toLowerCase();
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(value)?.[1];
+  if (hex) {
+    // Expand the short forms to one byte per channel
+    const full = hex.length <= 4 ? [...hex].map((digit) => digit + digit).join('') : hex;
+    const channel = (index: number): number => parseInt(full.slice(index * 2, index * 2 + 2), 16);
+    return {
+      r: channel(0),
+      g: channel(1),
+      b: channel(2),
+      a: full.length === 8 ? channel(3) / 255 : 1,
+    };
+  }
+
+  if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, value)) {
+    const rgb = NAMED_COLORS[value] as number;
+    return { r: (rgb >> 16) & 0xff, g: (rgb >> 8) & 0xff, b: rgb & 0xff, a: 1 };
+  }
+
+  const match = /^(rgba?|hsla?)\(([^)]*)\)$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const parts = (match[2] as string)
+    .split(/\s*[,/]\s*|\s+/)
+    .filter((part) => part.length > 0);
+  if (parts.length !== 3 && parts.length !== 4) {
+    return null;
+  }
+
+  const parsePart = (part: string, scale: number): number => {
+    const number = parseFloat(part);
+    return part.endsWith('%') ? (number / 100) * scale : number;
+  };
+
+  const [r, g, b] = (match[1] as string).startsWith('hsl')
+    ? hslToRgb(
+        parseHue(parts[0] as string),
+        // Saturation and lightness may be written without the % in space-separated syntax
+        parsePart(parts[1] as string, 100) / 100,
+        parsePart(parts[2] as string, 100) / 100
+      )
+    : parts.slice(0, 3).map((part) => parsePart(part, 255));
+  const a = parts[3] === undefined ? 1 : parsePart(parts[3], 1);
+  if ([r, g, b, a].some((channel) => channel === undefined || isNaN(channel))) {
+    return null;
+  }
+
+  return {
+    r: clamp(r as number, 0, 255),
+    g: clamp(g as number, 0, 255),
+    b: clamp(b as number, 0, 255),
+    a: clamp(a, 0, 1),
+  };
+}
+
+/**
+ * Format a color as a CSS rgb() or rgba() string with rounded channels.
+ */
+export function formatColor(color: RGBA): string {
+  const r = Math.round(clamp(color.r, 0, 255));
+  const g = Math.round(clamp(color.g, 0, 255));
+  const b = Math.round(clamp(color.b, 0, 255));
+  const a = Math.round(clamp(color.a, 0, 1) * 1000) / 1000;
+
+  return a === 1 ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${a})`;
+}
+
+/**
+ * Mix two CSS colors.
+ *
+ * Colors parseColor() understands are interpolated in the given color space.
+ * 'none' and 'transparent' act as the other color at zero alpha, so a stroke can
+ * fade in. Colors that cannot be parsed switch from one to the other halfway.
+ * The exact input strings are returned at t <= 0 and t >= 1.
+ *
+ * @param from - Color at t = 0
+ * @param to - Color at t = 1
+ * @param t - Mix amount [0,1]
+ * @param space - Color space to interpolate in
+ * @returns CSS color string
+ *
+ * @example
+ * ```typescript
+ * mixColors('#000000', '#ffffff', 0.5, 'srgb');  // 'rgb(128, 128, 128)'
+ * mixColors('#000000', '#ffffff', 0.5, 'oklab'); // 'rgb(99, 99, 99)'
+ * ```
+ */
+export function mixColors(from: string, to: string, t: number, space: ColorSpace): string {
+  if (t <= 0) {
+    return from;
+  }
+  if (t >= 1 || from === to) {
+    return to;
+  }
+
+  const fromInvisible = INVISIBLE_COLORS.includes(from.trim().toLowerCase());
+  const toInvisible = INVISIBLE_COLORS.includes(to.trim().toLowerCase());
+  let start = fromInvisible ? null : parseColor(from);
+  let end = toInvisible ? null : parseColor(to);
+
+  if (fromInvisible && end) {
+    start = { ...end, a: 0 };
+  }
+  if (toInvisible && start) {
+    end = { ...start, a: 0 };
+  }
+
+  if (!start || !end) {
+    return t < 0.5 ? from : to;
+  }
+
+  const a = lerp(start.a, end.a, t);
+  if (space === 'srgb') {
+    return formatColor({
+      r: lerp(start.r, end.r, t),
+      g: lerp(start.g, end.g, t),
+      b: lerp(start.b, end.b, t),
+      a,
+    });
+  }
+
+  const startLab = rgbToOklab(start);
+  const endLab = rgbToOklab(end);
+  return formatColor({
+    ...oklabToRgb([
+      lerp(startLab[0], endLab[0], t),
+      lerp(startLab[1], endLab[1], t),
+      lerp(startLab[2], endLab[2], t),
+    ]),
+    a,
+  });
+}
+
+function lerp(from: number, to: number, t: number): number {
+  return from + (to - from) * t;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Parse a CSS hue in degrees, or with a deg, rad, grad or turn unit, to degrees.
+ */
+function parseHue(hue: string): number {
+  const match = /^(-?[\d.]+(?:e-?\d+)?)(deg|rad|grad|turn)?$/.exec(hue);
+  if (!match) {
+    return NaN;
+  }
+  const value = parseFloat(match[1] as string);
+  switch (match[2]) {
+    case 'rad':
+      return (value * 180) / Math.PI;
+    case 'grad':
+      return value * 0.9;
+    case 'turn':
+      return value * 360;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Hue in degrees and saturation and lightness in [0,1] to sRGB channels [0,255]
+ */
+function hslToRgb(
+  hue: number,
+  saturation: number,
+  lightness: number
+): number[] {
+  const s = clamp(saturation, 0, 1);
+  const l = clamp(lightness, 0, 1);
+  const chroma = s * Math.min(l, 1 - l);
+  const channel = (n: number): number => {
+    const k = (((n + hue / 30) % 12) + 12) % 12;
+    return (l - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * sRGB channel [0,255] to linear light [0,1]
+ */
+function toLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Linear light [0,1] to sRGB channel [0,255]
+ */
+function fromLinear(value: number): number {
+  const c = value <= 0.0031308 ? 12.92 * value : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return c * 255;
+}
+
+/**
+ * Convert to OKLab (Björn Ottosson, 2020) as [L, a, b].
+ */
+function rgbToOklab(color: RGBA): [number, number, number] {
+  const r = toLinear(color.r);
+  const g = toLinear(color.g);
+  const b = toLinear(color.b);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+/**
+ * Convert OKLab [L, a, b] back to sRGB channels.
+ */
+function oklabToRgb([L, A, B]: [number, number, number]): Omit<RGBA, 'a'> {
+  const l = Math.pow(L + 0.3963377774 * A + 0.2158037573 * B, 3);
+  const m = Math.pow(L - 0.1055613458 * A - 0.0638541728 * B, 3);
+  const s = Math.pow(L - 0.0894841775 * A - 1.291485548 * B, 3);
+
+  return {
+    r: fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+  };
+}
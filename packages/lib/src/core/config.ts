@@ -5,7 +5,23 @@
  * sensible defaults for optional fields.
  */
 
-import type { AnimationConfig, ShadowOptions, BallStyle } from '../types';
+import type {
+  AnimationConfig,
+  AnimationState,
+  ShadowOptions,
+  BallStyle,
+  ScrollOffset,
+  ScrollSmoothing,
+  CurveSampling,
+  NoiseModifiers,
+  ProgressMarker,
+  TimelineSegment,
+  ViewOffset,
+  ParametricCurvePreset,
+} from '../types';
+import { CURVE_PRESETS } from './curves';
+import { getCssEasingError, isCssEasing } from './easing';
+import { getExpressionError } from './expression';
 
 /**
  * Validation error thrown when configuration is invalid.
@@ -23,8 +39,16 @@ export class ConfigValidationError extends Error {
 export const CONFIG_DEFAULTS = {
   fitMode: 'contain' as const,
   loop: false,
+  playbackRate: 1,
+  direction: 'normal' as const,
+  delayMs: 0,
+  endDelayMs: 0,
   debug: false,
   curvePreset: 'linear' as const,
+  scrollAxis: 'y' as const,
+  pointerTarget: 'mount' as const,
+  pointerHeight: 'speed' as const,
+  audioMetric: 'rms' as const,
   
   shadow: {
     softness: 0.5,
@@ -42,9 +66,18 @@ export const CONFIG_DEFAULTS = {
   
   zones: [],
   
+  markers: [],
+  
   // Default path functions
   pathX: (_t: number) => 0.5,  // centered horizontally
   pathY: (t: number) => t,     // top to bottom
+  
+  // Keypoint heights move from zMin to zMax over the animation
+  keypointOscillation: (t: number) => t,
+  keypointInterpolation: 'catmull-rom' as const,
+  
+  // Pointer-driven animations receive pointer coordinates, so pass them straight through
+  pointerPath: (p: number) => p,
 };
 
 /**
@@ -80,13 +113,14 @@ export function validateConfig(config: AnimationConfig): void {
   
   if (!config.driver) {
     throw new ConfigValidationError(
-      'Missing required field "driver". Expected "time" or "scroll".'
+      'Missing required field "driver". Expected "time", "scroll", "view", "pointer", "media", or "manual".'
     );
   }
   
-  if (config.driver !== 'time' && config.driver !== 'scroll') {
+  const validDrivers = ['time', 'scroll', 'view', 'pointer', 'media', 'manual'];
+  if (!validDrivers.includes(config.driver)) {
     throw new ConfigValidationError(
-      `Invalid field "driver". Expected "time" or "scroll", but got "${config.driver}".`
+      `Invalid field "driver". Expected "time", "scroll", "view", "pointer", "media", or "manual", but got "${config.driver}".`
     );
   }
   
@@ -140,6 +174,30 @@ export function validateConfig(config: AnimationConfig): void {
         'Invalid field "durationMs". Expected a positive number, but got ' + config.durationMs + '.'
       );
     }
+    
+    if (config.playbackRate !== undefined) {
+      if (typeof config.playbackRate !== 'number' || !Number.isFinite(config.playbackRate)) {
+        throw new ConfigValidationError(
+          'Invalid field "playbackRate". Expected a finite number, but got ' + config.playbackRate + '.'
+        );
+      }
+    }
+    
+    for (const field of ['delayMs', 'endDelayMs'] as const) {
+      const value = config[field];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+        throw new ConfigValidationError(
+          `Invalid field "${field}". Expected a non-negative number of milliseconds, but got ` + value + '.'
+        );
+      }
+    }
+    
+    const validDirections = ['normal', 'reverse', 'alternate'];
+    if (config.direction !== undefined && !validDirections.includes(config.direction)) {
+      throw new ConfigValidationError(
+        'Invalid field "direction". Expected "normal", "reverse", or "alternate", but got "' + String(config.direction) + '".'
+      );
+    }
   }
   
   if (config.driver === 'scroll') {
@@ -154,6 +212,187 @@ export function validateConfig(config: AnimationConfig): void {
         'Invalid field "scrollTarget". Expected an HTMLElement or null, but got ' + typeof config.scrollTarget + '.'
       );
     }
+    
+    validateScrollOffset(config.scrollStart, 'scrollStart');
+    validateScrollOffset(config.scrollEnd, 'scrollEnd');
+    
+    if (config.scrollAxis !== undefined) {
+      const validAxes = ['y', 'x', 'both'];
+      if (!validAxes.includes(config.scrollAxis)) {
+        throw new ConfigValidationError(
+          `Invalid field "scrollAxis". Expected "y", "x", or "both", but got "${config.scrollAxis as string}".`
+        );
+      }
+    }
+    
+    if (config.scrollSmoothing !== undefined) {
+      validateScrollSmoothing(config.scrollSmoothing);
+    }
+  }
+  
+  if (config.driver === 'view') {
+    if (config.viewTarget === undefined || config.viewTarget === null) {
+      throw new ConfigValidationError(
+        'Missing required field "viewTarget" for view-based driver. Expected an HTMLElement.'
+      );
+    }
+    
+    if (!(config.viewTarget instanceof HTMLElement)) {
+      throw new ConfigValidationError(
+        'Invalid field "viewTarget". Expected an HTMLElement, but got ' + typeof config.viewTarget + '.'
+      );
+    }
+    
+    if (config.scrollTarget !== undefined && config.scrollTarget !== null && !(config.scrollTarget instanceof HTMLElement)) {
+      throw new ConfigValidationError(
+        'Invalid field "scrollTarget". Expected an HTMLElement or null, but got ' + typeof config.scrollTarget + '.'
+      );
+    }
+    
+    validateViewOffset(config.viewStart, 'viewStart');
+    validateViewOffset(config.viewEnd, 'viewEnd');
+  }
+  
+  if (config.driver === 'pointer') {
+    if (config.pointerTarget !== undefined && config.pointerTarget !== 'mount' && config.pointerTarget !== 'window') {
+      throw new ConfigValidationError(
+        `Invalid field "pointerTarget". Expected "mount" or "window", but got "${config.pointerTarget as string}".`
+      );
+    }
+    
+    if (config.pointerHeight !== undefined && config.pointerHeight !== 'speed' && config.pointerHeight !== 'distance') {
+      throw new ConfigValidationError(
+        `Invalid field "pointerHeight". Expected "speed" or "distance", but got "${config.pointerHeight as string}".`
+      );
+    }
+    
+    if (config.pointerAnchor !== undefined) {
+      const { pointerAnchor } = config;
+      if (
+        typeof pointerAnchor !== 'object' ||
+        pointerAnchor === null ||
+        typeof pointerAnchor.x !== 'number' ||
+        isNaN(pointerAnchor.x) ||
+        typeof pointerAnchor.y !== 'number' ||
+        isNaN(pointerAnchor.y)
+      ) {
+        throw new ConfigValidationError(
+          'Invalid field "pointerAnchor". Expected an object with numeric x and y coordinates.'
+        );
+      }
+    }
+    
+    for (const field of ['pointerMaxSpeed', 'pointerStiffness'] as const) {
+      const value = config[field];
+      if (value !== undefined && (typeof value !== 'number' || isNaN(value) || value <= 0)) {
+        throw new ConfigValidationError(
+          `Invalid field "${field}". Expected a positive number, but got ` + value + '.'
+        );
+      }
+    }
+  }
+  
+  if (config.driver === 'media') {
+    if (config.mediaElement === undefined || config.mediaElement === null) {
+      throw new ConfigValidationError(
+        'Missing required field "mediaElement" for media-based driver. Expected an HTMLMediaElement.'
+      );
+    }
+    
+    if (!(config.mediaElement instanceof HTMLMediaElement)) {
+      throw new ConfigValidationError(
+        'Invalid field "mediaElement". Expected an HTMLMediaElement (video or audio), but got ' + typeof config.mediaElement + '.'
+      );
+    }
+    
+    for (const field of ['mediaStart', 'mediaEnd'] as const) {
+      const value = config[field];
+      if (value !== undefined && (typeof value !== 'number' || isNaN(value) || value < 0)) {
+        throw new ConfigValidationError(
+          `Invalid field "${field}". Expected a non-negative number of seconds, but got ` + value + '.'
+        );
+      }
+    }
+    
+    if (config.mediaStart !== undefined && config.mediaEnd !== undefined && config.mediaEnd <= config.mediaStart) {
+      throw new ConfigValidationError(
+        `Invalid field "mediaEnd". Expected a time after mediaStart (${config.mediaStart}s), but got ${config.mediaEnd}s.`
+      );
+    }
+  }
+  
+  // Audio-reactive height works with any driver
+  if (config.audioSource !== undefined) {
+    const isAudioNode = typeof AudioNode !== 'undefined' && config.audioSource instanceof AudioNode;
+    if (!isAudioNode && !(config.audioSource instanceof HTMLMediaElement)) {
+      throw new ConfigValidationError(
+        'Invalid field "audioSource". Expected an AudioNode or an HTMLMediaElement, but got ' + typeof config.audioSource + '.'
+      );
+    }
+  }
+  
+  if (config.audioAnalyser !== undefined) {
+    const analyser = config.audioAnalyser;
+    if (
+      typeof analyser !== 'object' || analyser === null ||
+      typeof analyser.getFloatTimeDomainData !== 'function' ||
+      typeof analyser.getByteFrequencyData !== 'function'
+    ) {
+      throw new ConfigValidationError(
+        'Invalid field "audioAnalyser". Expected an AnalyserNode or an object with getFloatTimeDomainData and getByteFrequencyData methods.'
+      );
+    }
+  }
+  
+  if (config.audioMetric !== undefined && config.audioMetric !== 'rms' && config.audioMetric !== 'band') {
+    throw new ConfigValidationError(
+      'Invalid field "audioMetric". Expected "rms" or "band", but got "' + String(config.audioMetric) + '".'
+    );
+  }
+  
+  if (config.audioBand !== undefined) {
+    const band = config.audioBand;
+    if (
+      !Array.isArray(band) || band.length !== 2 ||
+      typeof band[0] !== 'number' || typeof band[1] !== 'number' ||
+      isNaN(band[0]) || isNaN(band[1]) ||
+      band[0] < 0 || band[1] <= band[0]
+    ) {
+      throw new ConfigValidationError(
+        'Invalid field "audioBand". Expected [minHz, maxHz] with 0 <= minHz < maxHz, but got ' + JSON.stringify(band) + '.'
+      );
+    }
+  }
+  
+  for (const field of ['audioAttackMs', 'audioReleaseMs'] as const) {
+    const value = config[field];
+    if (value !== undefined && (typeof value !== 'number' || isNaN(value) || value < 0)) {
+      throw new ConfigValidationError(
+        `Invalid field "${field}". Expected a non-negative number of milliseconds, but got ` + value + '.'
+      );
+    }
+  }
+  
+  if (config.audioGain !== undefined) {
+    if (typeof config.audioGain !== 'number' || isNaN(config.audioGain) || config.audioGain <= 0) {
+      throw new ConfigValidationError(
+        'Invalid field "audioGain". Expected a positive number, but got ' + config.audioGain + '.'
+      );
+    }
+  }
+  
+  if (config.clock !== undefined) {
+    const clock = config.clock;
+    if (
+      typeof clock !== 'object' || clock === null ||
+      typeof clock.now !== 'function' ||
+      typeof clock.requestFrame !== 'function' ||
+      typeof clock.cancelFrame !== 'function'
+    ) {
+      throw new ConfigValidationError(
+        'Invalid field "clock". Expected an object with now, requestFrame and cancelFrame methods.'
+      );
+    }
   }
   
   // Validate optional fields if provided
@@ -183,30 +422,19 @@ export function validateConfig(config: AnimationConfig): void {
   }
   
   if (config.curvePreset !== undefined) {
-    const validPresets = ['sine', 'cosine', 'easeInOut', 'linear', 'bezier'];
-    if (!validPresets.includes(config.curvePreset)) {
+    const problem = describeCurvePresetProblem(config.curvePreset);
+    if (problem) {
       throw new ConfigValidationError(
-        `Invalid field "curvePreset". Expected one of ${validPresets.join(', ')}, but got "${config.curvePreset}".`
+        `Invalid field "curvePreset${problem.field}". Expected ${problem.expected}`
       );
     }
   }
   
-  if (config.customCurve !== undefined && typeof config.customCurve !== 'function') {
-    throw new ConfigValidationError(
-      'Invalid field "customCurve". Expected a function, but got ' + typeof config.customCurve + '.'
-    );
-  }
-  
-  if (config.pathX !== undefined && typeof config.pathX !== 'function') {
-    throw new ConfigValidationError(
-      'Invalid field "pathX". Expected a function, but got ' + typeof config.pathX + '.'
-    );
-  }
-  
-  if (config.pathY !== undefined && typeof config.pathY !== 'function') {
-    throw new ConfigValidationError(
-      'Invalid field "pathY". Expected a function, but got ' + typeof config.pathY + '.'
-    );
+  for (const field of ['customCurve', 'pathX', 'pathY'] as const) {
+    const problem = describeCurveSourceProblem(config[field]);
+    if (problem) {
+      throw new ConfigValidationError(`Invalid field "${field}". Expected ${problem}`);
+    }
   }
   
   if (config.loop !== undefined) {
@@ -232,24 +460,50 @@ export function validateConfig(config: AnimationConfig): void {
     }
     
     config.keypoints.forEach((kp, index) => {
-      if (typeof kp.y !== 'number' || isNaN(kp.y)) {
-        throw new ConfigValidationError(
-          `Invalid keypoint at index ${index}. Field "y" must be a number.`
-        );
-      }
-      if (typeof kp.zMin !== 'number' || isNaN(kp.zMin)) {
+      const problem = describeKeypointProblem(kp);
+      if (problem) {
         throw new ConfigValidationError(
-          `Invalid keypoint at index ${index}. Field "zMin" must be a number.`
-        );
-      }
-      if (typeof kp.zMax !== 'number' || isNaN(kp.zMax)) {
-        throw new ConfigValidationError(
-          `Invalid keypoint at index ${index}. Field "zMax" must be a number.`
+          problem.field === ''
+            ? `Invalid keypoint at index ${index}. Expected ${problem.expected}`
+            : `Invalid keypoint at index ${index}. Field "${problem.field}" must be ${problem.expected}`
         );
       }
     });
   }
   
+  if (config.keypointOscillation !== undefined && typeof config.keypointOscillation !== 'function') {
+    throw new ConfigValidationError(
+      'Invalid field "keypointOscillation". Expected a function, but got ' + typeof config.keypointOscillation + '.'
+    );
+  }
+  
+  if (config.keypointInterpolation !== undefined) {
+    const validModes = ['linear', 'catmull-rom', 'monotone', 'natural-spline'];
+    if (!validModes.includes(config.keypointInterpolation)) {
+      throw new ConfigValidationError(
+        `Invalid field "keypointInterpolation". Expected one of ${validModes.join(', ')}, but got "` + String(config.keypointInterpolation) + '".'
+      );
+    }
+  }
+  
+  if (config.curveSampling !== undefined) {
+    validateCurveSampling(config.curveSampling);
+  }
+  
+  if (config.noise !== undefined) {
+    validateNoise(config.noise);
+  }
+  
+  // Validate segments if provided
+  if (config.segments !== undefined) {
+    validateSegments(config.segments);
+  }
+  
+  // Validate markers if provided
+  if (config.markers !== undefined) {
+    validateMarkers(config.markers);
+  }
+  
   // Validate zones if provided
   if (config.zones !== undefined) {
     if (!Array.isArray(config.zones)) {
@@ -299,6 +553,545 @@ export function validateConfig(config: AnimationConfig): void {
   }
 }
 
+/**
+ * Validates the markers field: ids, positions and callbacks.
+ * 
+ * @param markers - The markers to validate
+ * @throws {ConfigValidationError} If any marker is invalid
+ */
+function validateMarkers(markers: ProgressMarker[]): void {
+  if (!Array.isArray(markers)) {
+    throw new ConfigValidationError(
+      'Invalid field "markers". Expected an array, but got ' + typeof markers + '.'
+    );
+  }
+  
+  markers.forEach((marker, index) => {
+    if (typeof marker !== 'object' || marker === null || !marker.id) {
+      throw new ConfigValidationError(
+        `Invalid marker at index ${index}. Missing required field "id".`
+      );
+    }
+    
+    if (typeof marker.at !== 'number' || isNaN(marker.at) || marker.at < 0 || marker.at > 1) {
+      throw new ConfigValidationError(
+        `Invalid marker at index ${index}. Field "at" must be a number in [0,1], but got ${String(marker.at)}.`
+      );
+    }
+    
+    if (marker.onPass !== undefined && typeof marker.onPass !== 'function') {
+      throw new ConfigValidationError(
+        `Invalid marker at index ${index}. Field "onPass" must be a function, but got ` + typeof marker.onPass + '.'
+      );
+    }
+  });
+}
+
+/**
+ * Validates the segments field: labels, shares and per-segment curve and path fields.
+ * 
+ * @param segments - The segments to validate
+ * @throws {ConfigValidationError} If any segment is invalid
+ */
+function validateSegments(segments: TimelineSegment[]): void {
+  if (!Array.isArray(segments)) {
+    throw new ConfigValidationError(
+      'Invalid field "segments". Expected an array, but got ' + typeof segments + '.'
+    );
+  }
+  
+  const labels = new Set<string>();
+  segments.forEach((segment, index) => {
+    if (typeof segment !== 'object' || segment === null) {
+      throw new ConfigValidationError(
+        `Invalid segment at index ${index}. Expected an object.`
+      );
+    }
+    
+    if (typeof segment.label !== 'string' || segment.label === '') {
+      throw new ConfigValidationError(
+        `Invalid segment at index ${index}. Missing required field "label".`
+      );
+    }
+    
+    if (labels.has(segment.label)) {
+      throw new ConfigValidationError(
+        `Invalid segment at index ${index}. Duplicate label "${segment.label}".`
+      );
+    }
+    labels.add(segment.label);
+    
+    if (
+      segment.share !== undefined &&
+      (typeof segment.share !== 'number' || !isFinite(segment.share) || segment.share <= 0)
+    ) {
+      throw new ConfigValidationError(
+        `Invalid segment at index ${index}. Field "share" must be a positive number, but got ${String(segment.share)}.`
+      );
+    }
+    
+    if (segment.curvePreset !== undefined) {
+      const problem = describeCurvePresetProblem(segment.curvePreset);
+      if (problem) {
+        throw new ConfigValidationError(
+          `Invalid segment at index ${index}. Field "curvePreset${problem.field}" must be ${problem.expected}`
+        );
+      }
+    }
+    
+    if (segment.easing !== undefined && typeof segment.easing !== 'function') {
+      throw new ConfigValidationError(
+        `Invalid segment at index ${index}. Field "easing" must be a function, but got ` + typeof segment.easing + '.'
+      );
+    }
+    
+    for (const field of ['customCurve', 'pathX', 'pathY'] as const) {
+      const problem = describeCurveSourceProblem(segment[field]);
+      if (problem) {
+        throw new ConfigValidationError(`Invalid segment at index ${index}. Field "${field}" must be ${problem}`);
+      }
+    }
+    
+    if (segment.keypoints !== undefined) {
+      if (!Array.isArray(segment.keypoints)) {
+        throw new ConfigValidationError(
+          `Invalid segment at index ${index}. Field "keypoints" must be an array, but got ` + typeof segment.keypoints + '.'
+        );
+      }
+      
+      segment.keypoints.forEach((kp, kpIndex) => {
+        const problem = describeKeypointProblem(kp);
+        if (problem) {
+          const field = problem.field === '' ? '' : `.${problem.field}`;
+          throw new ConfigValidationError(
+            `Invalid segment at index ${index}. Field "keypoints[${kpIndex}]${field}" must be ${problem.expected}`
+          );
+        }
+      });
+    }
+  });
+}
+
+/**
+ * Validates an optional ScrollOffset field.
+ * 
+ * @param offset - The offset to validate (skipped when undefined)
+ * @param field - Field name used in error messages
+ * @throws {ConfigValidationError} If the offset is invalid
+ */
+function validateScrollOffset(offset: ScrollOffset | undefined, field: string): void {
+  if (offset === undefined) {
+    return;
+  }
+  
+  if (typeof offset === 'number') {
+    if (isNaN(offset)) {
+      throw new ConfigValidationError(
+        `Invalid field "${field}". Expected a number of pixels, but got NaN.`
+      );
+    }
+    return;
+  }
+  
+  if (typeof offset === 'string') {
+    if (!/^-?\d+(\.\d+)?%$/.test(offset)) {
+      throw new ConfigValidationError(
+        `Invalid field "${field}". Expected a percentage string like "50%", but got "${offset}".`
+      );
+    }
+    return;
+  }
+  
+  if (!(offset instanceof HTMLElement)) {
+    throw new ConfigValidationError(
+      `Invalid field "${field}". Expected a number, percentage string, or HTMLElement, but got ` + typeof offset + '.'
+    );
+  }
+}
+
+/**
+ * Validates the scrollSmoothing field.
+ * 
+ * @param smoothing - The smoothing options to validate
+ * @throws {ConfigValidationError} If the options are invalid
+ */
+function validateScrollSmoothing(smoothing: ScrollSmoothing): void {
+  if (typeof smoothing !== 'object' || smoothing === null) {
+    throw new ConfigValidationError(
+      'Invalid field "scrollSmoothing". Expected an object with type "lerp" or "spring".'
+    );
+  }
+  
+  if (smoothing.type === 'lerp') {
+    if (typeof smoothing.factor !== 'number' || isNaN(smoothing.factor) || smoothing.factor <= 0 || smoothing.factor > 1) {
+      throw new ConfigValidationError(
+        'Invalid field "scrollSmoothing.factor". Expected a number in (0,1], but got ' + smoothing.factor + '.'
+      );
+    }
+    return;
+  }
+  
+  if (smoothing.type === 'spring') {
+    if (
+      smoothing.stiffness !== undefined &&
+      (typeof smoothing.stiffness !== 'number' || isNaN(smoothing.stiffness) || smoothing.stiffness <= 0)
+    ) {
+      throw new ConfigValidationError(
+        'Invalid field "scrollSmoothing.stiffness". Expected a positive number, but got ' + smoothing.stiffness + '.'
+      );
+    }
+    return;
+  }
+  
+  throw new ConfigValidationError(
+    `Invalid field "scrollSmoothing.type". Expected "lerp" or "spring", but got "${(smoothing as { type: unknown }).type as string}".`
+  );
+}
+
+/**
+ * Validates the curveSampling field.
+ * 
+ * @param sampling - The sampling options to validate
+ * @throws {ConfigValidationError} If the options are invalid
+ */
+function validateCurveSampling(sampling: CurveSampling): void {
+  if (typeof sampling !== 'object' || sampling === null) {
+    throw new ConfigValidationError(
+      'Invalid field "curveSampling". Expected an object with a resolution.'
+    );
+  }
+  
+  if (!Number.isInteger(sampling.resolution) || sampling.resolution < 1) {
+    throw new ConfigValidationError(
+      'Invalid field "curveSampling.resolution". Expected a positive integer, but got ' + String(sampling.resolution) + '.'
+    );
+  }
+  
+  if (
+    sampling.interpolation !== undefined &&
+    sampling.interpolation !== 'linear' &&
+    sampling.interpolation !== 'cubic'
+  ) {
+    throw new ConfigValidationError(
+      `Invalid field "curveSampling.interpolation". Expected "linear" or "cubic", but got "${String(sampling.interpolation)}".`
+    );
+  }
+}
+
+/**
+ * Validates the noise field.
+ * 
+ * @param noise - The noise modifiers to validate
+ * @throws {ConfigValidationError} If a modifier is invalid
+ */
+function validateNoise(noise: NoiseModifiers): void {
+  if (typeof noise !== 'object' || noise === null) {
+    throw new ConfigValidationError(
+      'Invalid field "noise". Expected an object with height, x or y noise options.'
+    );
+  }
+  
+  for (const channel of ['height', 'x', 'y'] as const) {
+    const options = noise[channel];
+    if (options === undefined) {
+      continue;
+    }
+    
+    const field = `noise.${channel}`;
+    if (typeof options !== 'object' || options === null) {
+      throw new ConfigValidationError(
+        `Invalid field "${field}". Expected an object with an amplitude.`
+      );
+    }
+    
+    if (!isFiniteNumber(options.amplitude) || options.amplitude < 0) {
+      throw new ConfigValidationError(
+        `Invalid field "${field}.amplitude". Expected a non-negative number, but got ` + String(options.amplitude) + '.'
+      );
+    }
+    
+    if (options.frequency !== undefined && (!isFiniteNumber(options.frequency) || options.frequency <= 0)) {
+      throw new ConfigValidationError(
+        `Invalid field "${field}.frequency". Expected a positive number, but got ` + String(options.frequency) + '.'
+      );
+    }
+    
+    if (options.octaves !== undefined && (!Number.isInteger(options.octaves) || options.octaves < 1)) {
+      throw new ConfigValidationError(
+        `Invalid field "${field}.octaves". Expected a positive integer, but got ` + String(options.octaves) + '.'
+      );
+    }
+    
+    if (options.seed !== undefined && !Number.isInteger(options.seed)) {
+      throw new ConfigValidationError(
+        `Invalid field "${field}.seed". Expected an integer, but got ` + String(options.seed) + '.'
+      );
+    }
+  }
+}
+
+/**
+ * Validates an optional ViewOffset field.
+ * 
+ * @param offset - The offset to validate (skipped when undefined)
+ * @param field - Field name used in error messages
+ * @throws {ConfigValidationError} If the offset is invalid
+ */
+function validateViewOffset(offset: ViewOffset | undefined, field: string): void {
+  if (offset === undefined) {
+    return;
+  }
+  
+  if (typeof offset !== 'object' || offset === null) {
+    throw new ConfigValidationError(
+      `Invalid field "${field}". Expected an object with element and viewport fractions.`
+    );
+  }
+  
+  for (const key of ['element', 'viewport'] as const) {
+    const value = offset[key];
+    if (typeof value !== 'number' || isNaN(value)) {
+      throw new ConfigValidationError(
+        `Invalid field "${field}.${key}". Expected a number, but got ` + typeof value + '.'
+      );
+    }
+  }
+}
+
+/**
+ * Describes what is wrong with a keypoint, for top-level and segment keypoints alike.
+ * 
+ * @param kp - The keypoint to check
+ * @returns The offending field ('' for the keypoint itself) and the end of an
+ *   error sentence after "must be", or null if valid
+ */
+function describeKeypointProblem(kp: unknown): { field: string; expected: string } | null {
+  if (typeof kp !== 'object' || kp === null) {
+    return { field: '', expected: 'an object.' };
+  }
+  
+  const keypoint = kp as Record<string, unknown>;
+  for (const field of ['y', 'zMin', 'zMax']) {
+    const value = keypoint[field];
+    if (typeof value !== 'number' || isNaN(value)) {
+      return { field, expected: 'a number.' };
+    }
+  }
+  if (keypoint.tangent !== undefined && !isValidTangent(keypoint.tangent)) {
+    return {
+      field: 'tangent',
+      expected: 'a finite number or an object with finite "in" and "out" numbers.',
+    };
+  }
+  return null;
+}
+
+/**
+ * Whether a keypoint tangent override is a finite slope or a pair of them.
+ */
+function isValidTangent(tangent: unknown): boolean {
+  if (typeof tangent === 'object' && tangent !== null) {
+    const { in: incoming, out: outgoing } = tangent as { in?: unknown; out?: unknown };
+    return isFiniteNumber(incoming) && isFiniteNumber(outgoing);
+  }
+  return isFiniteNumber(tangent);
+}
+
+/**
+ * Check applied to one option of a parametric curve preset
+ */
+interface CurveOptionRule {
+  expected: string;
+  isValid: (value: unknown) => boolean;
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value);
+
+/**
+ * Options each parametric curve preset accepts, with their allowed values
+ */
+const PARAMETRIC_CURVE_OPTIONS: Record<ParametricCurvePreset['type'], Record<string, CurveOptionRule>> = {
+  bounce: {
+    bounces: {
+      expected: 'a non-negative integer',
+      isValid: (value) => Number.isInteger(value) && (value as number) >= 0,
+    },
+    restitution: {
+      expected: 'a number in (0,1)',
+      isValid: (value) => isFiniteNumber(value) && value > 0 && value < 1,
+    },
+  },
+  elastic: {
+    amplitude: {
+      expected: 'a number of at least 1',
+      isValid: (value) => isFiniteNumber(value) && value >= 1,
+    },
+    period: {
+      expected: 'a positive number',
+      isValid: (value) => isFiniteNumber(value) && value > 0,
+    },
+  },
+  spring: {
+    stiffness: {
+      expected: 'a positive number',
+      isValid: (value) => isFiniteNumber(value) && value > 0,
+    },
+    damping: {
+      expected: 'a non-negative number',
+      isValid: (value) => isFiniteNumber(value) && value >= 0,
+    },
+    mass: {
+      expected: 'a positive number',
+      isValid: (value) => isFiniteNumber(value) && value > 0,
+    },
+  },
+  gravityArc: {
+    apexes: {
+      expected: 'a non-empty array of numbers in (0,1]',
+      isValid: (value) =>
+        Array.isArray(value) &&
+        value.length > 0 &&
+        value.every((apex) => isFiniteNumber(apex) && apex > 0 && apex <= 1),
+    },
+  },
+};
+
+/**
+ * Describes what is wrong with a curve function or expression string.
+ * 
+ * @param source - The value to check (skipped when undefined)
+ * @returns The end of an error message after "Expected"/"must be", or null when valid
+ */
+function describeCurveSourceProblem(source: unknown): string | null {
+  if (source === undefined || typeof source === 'function') {
+    return null;
+  }
+  if (typeof source !== 'string') {
+    return 'a function or an expression string, but got ' + typeof source + '.';
+  }
+  
+  const reason = getExpressionError(source);
+  return reason === null ? null : `a valid expression, but got "${source}": ${reason}.`;
+}
+
+/**
+ * Describes what is wrong with a curvePreset value: an unknown preset name, a
+ * CSS easing string that does not parse, or a parametric preset with a bad option.
+ * 
+ * @param preset - The preset name, CSS easing string or parametric preset to check
+ * @returns The offending field path below "curvePreset" and the end of an error
+ *   sentence ("one of ..., but got ..."), or null if valid
+ */
+function describeCurvePresetProblem(preset: unknown): { field: string; expected: string } | null {
+  if (typeof preset === 'object' && preset !== null) {
+    const { type } = preset as { type?: unknown };
+    const rules = Object.prototype.hasOwnProperty.call(PARAMETRIC_CURVE_OPTIONS, String(type))
+      ? PARAMETRIC_CURVE_OPTIONS[type as ParametricCurvePreset['type']]
+      : null;
+    if (!rules) {
+      return {
+        field: '.type',
+        expected: `one of ${Object.keys(PARAMETRIC_CURVE_OPTIONS).join(', ')}, but got "` + String(type) + '".',
+      };
+    }
+    
+    for (const [option, rule] of Object.entries(rules)) {
+      const value = (preset as Record<string, unknown>)[option];
+      if (value !== undefined && !rule.isValid(value)) {
+        const shown = Array.isArray(value) ? JSON.stringify(value) : String(value);
+        return { field: `.${option}`, expected: `${rule.expected}, but got ${shown}.` };
+      }
+    }
+    return null;
+  }
+  
+  if (typeof preset === 'string' && Object.prototype.hasOwnProperty.call(CURVE_PRESETS, preset)) {
+    return null;
+  }
+  
+  if (typeof preset === 'string' && isCssEasing(preset)) {
+    const error = getCssEasingError(preset);
+    return error === null
+      ? null
+      : { field: '', expected: `a valid CSS easing, but got "${preset}": ${error}.` };
+  }
+  
+  return {
+    field: '',
+    expected:
+      `one of ${Object.keys(CURVE_PRESETS).join(', ')}, a parametric preset, or a CSS easing, but got "` +
+      String(preset) +
+      '".',
+  };
+}
+
+/**
+ * Validates a state passed to restoreState(), which usually comes back from storage.
+ * 
+ * @param state - The state to validate
+ * @throws {ConfigValidationError} If the state is not a state returned by getState()
+ */
+export function validateAnimationState(state: AnimationState): void {
+  if (typeof state !== 'object' || state === null) {
+    throw new ConfigValidationError(
+      'Invalid state. Expected an object returned by getState(), but got ' + typeof state + '.'
+    );
+  }
+  
+  const numericFields = ['progress', 'iteration', 'loopCount'] as const;
+  for (const field of numericFields) {
+    if (typeof state[field] !== 'number' || !Number.isFinite(state[field])) {
+      throw new ConfigValidationError(
+        `Invalid state field "${field}". Expected a finite number, but got ${String(state[field])}.`
+      );
+    }
+  }
+  
+  const playStates = ['idle', 'running', 'paused', 'finished'];
+  if (!playStates.includes(state.playState)) {
+    throw new ConfigValidationError(
+      `Invalid state field "playState". Expected "idle", "running", "paused", or "finished", but got ${String(state.playState)}.`
+    );
+  }
+  
+  if (typeof state.manualControl !== 'boolean') {
+    throw new ConfigValidationError(
+      'Invalid state field "manualControl". Expected a boolean, but got ' + typeof state.manualControl + '.'
+    );
+  }
+  
+  const { driverState } = state;
+  if (
+    driverState !== null &&
+    (typeof driverState !== 'object' ||
+      ![driverState.timeMs, driverState.playbackRate, driverState.wrappedLoops].every(
+        (value) => typeof value === 'number' && Number.isFinite(value)
+      ))
+  ) {
+    throw new ConfigValidationError(
+      'Invalid state field "driverState". Expected null or an object with finite timeMs, playbackRate, and wrappedLoops.'
+    );
+  }
+  
+  if (typeof state.overrides !== 'object' || state.overrides === null) {
+    throw new ConfigValidationError(
+      'Invalid state field "overrides". Expected an object, but got ' + typeof state.overrides + '.'
+    );
+  }
+  
+  const { light } = state.overrides;
+  if (
+    light !== undefined &&
+    (typeof light !== 'object' || light === null ||
+      ![light.x, light.y, light.z].every((value) => typeof value === 'number' && !isNaN(value)))
+  ) {
+    throw new ConfigValidationError(
+      'Invalid state field "overrides.light". Expected an object with numeric x, y, and z coordinates.'
+    );
+  }
+}
+
 /**
  * Applies default values to optional configuration fields.
  * Returns a new configuration object with defaults merged in.
@@ -325,15 +1118,47 @@ export function applyDefaults(config: AnimationConfig): Required<AnimationConfig
     driver: config.driver,
     durationMs: config.durationMs,
     loop: config.loop ?? CONFIG_DEFAULTS.loop,
+    playbackRate: config.playbackRate ?? CONFIG_DEFAULTS.playbackRate,
+    direction: config.direction ?? CONFIG_DEFAULTS.direction,
+    delayMs: config.delayMs ?? CONFIG_DEFAULTS.delayMs,
+    endDelayMs: config.endDelayMs ?? CONFIG_DEFAULTS.endDelayMs,
     scrollTarget: config.scrollTarget,
+    scrollStart: config.scrollStart,
+    scrollEnd: config.scrollEnd,
+    scrollAxis: config.scrollAxis ?? CONFIG_DEFAULTS.scrollAxis,
+    scrollSmoothing: config.scrollSmoothing,
+    viewTarget: config.viewTarget,
+    viewStart: config.viewStart,
+    viewEnd: config.viewEnd,
+    pointerTarget: config.pointerTarget ?? CONFIG_DEFAULTS.pointerTarget,
+    pointerHeight: config.pointerHeight ?? CONFIG_DEFAULTS.pointerHeight,
+    pointerAnchor: config.pointerAnchor,
+    pointerMaxSpeed: config.pointerMaxSpeed,
+    pointerStiffness: config.pointerStiffness,
+    mediaElement: config.mediaElement,
+    mediaStart: config.mediaStart,
+    mediaEnd: config.mediaEnd,
+    audioSource: config.audioSource,
+    audioAnalyser: config.audioAnalyser,
+    audioMetric: config.audioMetric ?? CONFIG_DEFAULTS.audioMetric,
+    audioBand: config.audioBand,
+    audioAttackMs: config.audioAttackMs,
+    audioReleaseMs: config.audioReleaseMs,
+    audioGain: config.audioGain,
+    clock: config.clock,
     width: config.width,
     height: config.height,
     fitMode: config.fitMode ?? CONFIG_DEFAULTS.fitMode,
     curvePreset: config.curvePreset ?? CONFIG_DEFAULTS.curvePreset,
     customCurve: config.customCurve,
     keypoints: config.keypoints,
-    pathX: config.pathX ?? CONFIG_DEFAULTS.pathX,
-    pathY: config.pathY ?? CONFIG_DEFAULTS.pathY,
+    keypointOscillation: config.keypointOscillation ?? CONFIG_DEFAULTS.keypointOscillation,
+    keypointInterpolation: config.keypointInterpolation ?? CONFIG_DEFAULTS.keypointInterpolation,
+    curveSampling: config.curveSampling,
+    noise: config.noise,
+    pathX: config.pathX ?? (config.driver === 'pointer' ? CONFIG_DEFAULTS.pointerPath : CONFIG_DEFAULTS.pathX),
+    pathY: config.pathY ?? (config.driver === 'pointer' ? CONFIG_DEFAULTS.pointerPath : CONFIG_DEFAULTS.pathY),
+    segments: config.segments,
     light: config.light,
     shadow: {
       ...CONFIG_DEFAULTS.shadow,
@@ -344,6 +1169,7 @@ export function applyDefaults(config: AnimationConfig): Required<AnimationConfig
       ...config.ballStyle,
     },
     zones: config.zones ?? CONFIG_DEFAULTS.zones,
+    markers: config.markers ?? CONFIG_DEFAULTS.markers,
     debug: config.debug ?? CONFIG_DEFAULTS.debug,
   } as Required<AnimationConfig>;
 }
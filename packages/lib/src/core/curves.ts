@@ -6,7 +6,18 @@
  * All curves map t:[0,1] → z:[0,1].
  */
 
-import type { CurveFn, Keypoint } from '../types';
+import { createCubicBezierCurve, isCssEasing, parseCssEasing } from './easing';
+import type {
+  BounceCurveOptions,
+  CurveFn,
+  ElasticCurveOptions,
+  GravityArcCurveOptions,
+  Keypoint,
+  KeypointInterpolation,
+  ParametricCurvePreset,
+  SpringCurveOptions,
+  Vec2,
+} from '../types';
 
 /**
  * Linear curve: constant rate of change.
@@ -54,72 +65,233 @@ export function easeInOut(t: number): number {
   return t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t);
 }
 
+/**
+ * Default control points for the bezier preset: a gentle ease in and out.
+ * P0=(0,0), P1=(0.25,0.1), P2=(0.75,0.9), P3=(1,1)
+ */
+const defaultBezier = createCubicBezierCurve(0.25, 0.1, 0.75, 0.9);
+
 /**
  * Cubic Bezier curve implementation.
  * Uses the default control points for a smooth ease curve.
  * P0=(0,0), P1=(0.25,0.1), P2=(0.75,0.9), P3=(1,1)
  * 
- * This implementation uses Newton-Raphson iteration to solve for t
- * given an x value, then evaluates the y value at that t.
+ * For other control points, use a CSS easing string such as
+ * 'cubic-bezier(0.34, 1.56, 0.64, 1)' or createCubicBezierCurve().
  */
 export function bezier(t: number): number {
-  // Default control points for a smooth ease
-  const p1x = 0.25;
-  const p1y = 0.1;
-  const p2x = 0.75;
-  const p2y = 0.9;
-  
-  // For cubic Bezier, we need to solve for the parameter that gives us x=t
-  // Then evaluate y at that parameter
-  
-  // Newton-Raphson iteration to find parameter for given x
-  const epsilon = 1e-6;
-  const maxIterations = 10;
-  
-  let guess = t; // Initial guess
-  
-  for (let i = 0; i < maxIterations; i++) {
-    // Cubic Bezier x(u) = 3(1-u)²u*p1x + 3(1-u)u²*p2x + u³
-    const u = guess;
-    const u2 = u * u;
-    const u3 = u2 * u;
-    const oneMinusU = 1 - u;
-    const oneMinusU2 = oneMinusU * oneMinusU;
-    
-    const x = 3 * oneMinusU2 * u * p1x + 3 * oneMinusU * u2 * p2x + u3;
-    const dx = t - x;
-    
-    if (Math.abs(dx) < epsilon) {
-      break;
+  return defaultBezier(t);
+}
+
+/**
+ * One parabolic hop under constant gravity.
+ * Height is halfWidth² - (τ - center)², so every hop shares the same gravity.
+ */
+interface Arc {
+  center: number;
+  halfWidth: number;
+}
+
+/**
+ * Build a curve from consecutive parabolic arcs laid out over [0, duration].
+ */
+function createArcsCurve(arcs: Arc[], duration: number): CurveFn {
+  return (t: number): number => {
+    const time = Math.max(0, Math.min(1, t)) * duration;
+    const arc = arcs.find((candidate) => time <= candidate.center + candidate.halfWidth) ?? arcs[arcs.length - 1];
+    if (!arc) {
+      return 0;
     }
+    const offset = time - arc.center;
+    return Math.max(0, arc.halfWidth * arc.halfWidth - offset * offset);
+  };
+}
+
+/**
+ * Bouncing ball curve: dropped from full height at t = 0, it rebounds a number of
+ * times, losing speed on each impact, and lands for good at t = 1.
+ * 
+ * Each rebound's apex is restitution² times the previous one and its airtime is
+ * proportional to the square root of its apex, so the timing matches real gravity.
+ * 
+ * @param options - Number of rebounds and restitution
+ * @returns Curve with z = 1 at t = 0 and z = 0 at every impact
+ * @throws Error if bounces is not a non-negative integer or restitution is outside (0,1)
+ * 
+ * @example
+ * ```typescript
+ * const curve = bounce({ bounces: 2, restitution: 0.5 });
+ * curve(0);  // 1
+ * curve(1);  // 0
+ * ```
+ */
+export function bounce(options: BounceCurveOptions = {}): CurveFn {
+  const { bounces = 3, restitution = 0.5 } = options;
+  if (!Number.isInteger(bounces) || bounces < 0) {
+    throw new Error(`Bounce count must be a non-negative integer, but got ${bounces}`);
+  }
+  if (!(restitution > 0 && restitution < 1)) {
+    throw new Error(`Bounce restitution must be between 0 and 1, but got ${restitution}`);
+  }
+  
+  // The drop is the falling half of an arc centered on t = 0
+  const arcs: Arc[] = [{ center: 0, halfWidth: 1 }];
+  let end = 1;
+  for (let i = 1; i <= bounces; i++) {
+    const halfWidth = Math.pow(restitution, i);
+    arcs.push({ center: end + halfWidth, halfWidth });
+    end += 2 * halfWidth;
+  }
+  
+  return createArcsCurve(arcs, end);
+}
+
+/**
+ * Elastic curve: rises from 0 and overshoots in an exponentially decaying
+ * oscillation before it settles.
+ * Motion follows 1 + a * 2^(-10t) * sin((t - s) * 2π / period), with s chosen so it
+ * starts at 0, scaled so the highest overshoot is z = 1. It settles just below that,
+ * and swings that would dip below the ground are held at 0.
+ * 
+ * @param options - Overshoot amplitude and oscillation period
+ * @returns Curve with z = 0 at t = 0 and a peak of z = 1
+ * @throws Error if amplitude is below 1 or period is not positive
+ */
+export function elastic(options: ElasticCurveOptions = {}): CurveFn {
+  const { amplitude = 1, period = 0.3 } = options;
+  if (!(amplitude >= 1) || !isFinite(amplitude)) {
+    throw new Error(`Elastic amplitude must be at least 1, but got ${amplitude}`);
+  }
+  if (!(period > 0) || !isFinite(period)) {
+    throw new Error(`Elastic period must be positive, but got ${period}`);
+  }
+  
+  const shift = (period / (2 * Math.PI)) * Math.asin(1 / amplitude);
+  const motion = (t: number): number =>
+    amplitude * Math.pow(2, -10 * t) * Math.sin(((t - shift) * 2 * Math.PI) / period) + 1;
+  const peak = findPeak(motion);
+  
+  return (t: number): number => {
+    if (t <= 0) return 0;
+    return Math.max(0, Math.min(1, motion(Math.min(1, t)) / peak));
+  };
+}
+
+/**
+ * Spring curve: a mass on a damped spring released at 0 and pulled towards rest,
+ * solved in closed form for underdamped, critically damped and overdamped springs.
+ * Progress 1 is one second of motion, so soft springs may still be moving at t = 1.
+ * Underdamped springs are scaled so the first overshoot is z = 1 and settle just
+ * below it; others rise towards z = 1 without passing it.
+ * 
+ * @param options - Stiffness, damping and mass
+ * @returns Curve with z = 0 and zero velocity at t = 0
+ * @throws Error if stiffness or mass is not positive, or damping is negative
+ * 
+ * @example
+ * ```typescript
+ * const wobbly = spring({ stiffness: 180, damping: 6 });
+ * const stiff = spring({ stiffness: 300, damping: 40 });
+ * ```
+ */
+export function spring(options: SpringCurveOptions = {}): CurveFn {
+  const { stiffness = 100, damping = 10, mass = 1 } = options;
+  if (!(stiffness > 0) || !isFinite(stiffness)) {
+    throw new Error(`Spring stiffness must be positive, but got ${stiffness}`);
+  }
+  if (!(damping >= 0) || !isFinite(damping)) {
+    throw new Error(`Spring damping must be non-negative, but got ${damping}`);
+  }
+  if (!(mass > 0) || !isFinite(mass)) {
+    throw new Error(`Spring mass must be positive, but got ${mass}`);
+  }
+  
+  const omega = Math.sqrt(stiffness / mass);
+  const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+  
+  // Remaining distance to the rest position, starting at 1 with zero velocity
+  let displacement: (time: number) => number;
+  let peak = 1;
+  if (zeta < 1) {
+    const omegaD = omega * Math.sqrt(1 - zeta * zeta);
+    displacement = (time) =>
+      Math.exp(-zeta * omega * time) *
+      (Math.cos(omegaD * time) + ((zeta * omega) / omegaD) * Math.sin(omegaD * time));
     
-    // Derivative: dx/du = 3(1-u)²*p1x - 6(1-u)u*p1x + 3(1-u)u*p2x + 3u²*p2x - 3u²
-    const derivative = 
-      3 * oneMinusU2 * p1x + 
-      6 * oneMinusU * u * (p2x - p1x) + 
-      3 * u2 * (1 - p2x);
-    
-    if (Math.abs(derivative) < epsilon) {
-      break;
+    // The first overshoot is the largest, at half a damped period
+    const firstPeakTime = Math.PI / omegaD;
+    if (firstPeakTime <= 1) {
+      peak = 1 + Math.exp(-zeta * omega * firstPeakTime);
     }
-    
-    guess = guess + dx / derivative;
-    guess = Math.max(0, Math.min(1, guess)); // Clamp to [0,1]
+  } else if (zeta === 1) {
+    displacement = (time) => Math.exp(-omega * time) * (1 + omega * time);
+  } else {
+    const root = Math.sqrt(zeta * zeta - 1);
+    const r1 = -omega * (zeta - root);
+    const r2 = -omega * (zeta + root);
+    displacement = (time) => (r2 * Math.exp(r1 * time) - r1 * Math.exp(r2 * time)) / (r2 - r1);
   }
   
-  // Now evaluate y at the found parameter
-  const u = guess;
-  const u2 = u * u;
-  const u3 = u2 * u;
-  const oneMinusU = 1 - u;
-  const oneMinusU2 = oneMinusU * oneMinusU;
+  return (t: number): number => (1 - displacement(Math.max(0, Math.min(1, t)))) / peak;
+}
+
+/**
+ * Find the largest value of a motion over [0,1] by sampling, at least 1.
+ */
+function findPeak(motion: CurveFn): number {
+  const samples = 1000;
+  let peak = 1;
+  for (let i = 1; i <= samples; i++) {
+    peak = Math.max(peak, motion(i / samples));
+  }
+  return peak;
+}
+
+/**
+ * Gravity arc curve: consecutive hops that each leave the ground and land again,
+ * reaching the given apex heights. Airtime is proportional to the square root of
+ * the apex, so higher hops hang longer, as under real gravity.
+ * 
+ * @param options - Apex height of each hop
+ * @returns Curve with z = 0 at t = 0, at every landing and at t = 1
+ * @throws Error if apexes is empty or an apex is outside (0,1]
+ * 
+ * @example
+ * ```typescript
+ * const hops = gravityArc({ apexes: [1, 0.4, 0.1] });
+ * hops(0); // 0
+ * ```
+ */
+export function gravityArc(options: GravityArcCurveOptions = {}): CurveFn {
+  const { apexes = [1] } = options;
+  if (apexes.length === 0) {
+    throw new Error('Gravity arc needs at least one apex');
+  }
   
-  // Cubic Bezier y(u) = (1-u)³*0 + 3(1-u)²u*p1y + 3(1-u)u²*p2y + u³*1
-  const y = 3 * oneMinusU2 * u * p1y + 3 * oneMinusU * u2 * p2y + u3;
+  const arcs: Arc[] = [];
+  let end = 0;
+  for (const apex of apexes) {
+    if (!(apex > 0 && apex <= 1)) {
+      throw new Error(`Gravity arc apexes must be in (0,1], but got ${apex}`);
+    }
+    const halfWidth = Math.sqrt(apex);
+    arcs.push({ center: end + halfWidth, halfWidth });
+    end += 2 * halfWidth;
+  }
   
-  return y;
+  return createArcsCurve(arcs, end);
 }
 
+/**
+ * Factories for the parametric presets, keyed by type
+ */
+const PARAMETRIC_CURVES: Record<ParametricCurvePreset['type'], (options: object) => CurveFn> = {
+  bounce,
+  elastic,
+  spring,
+  gravityArc,
+};
+
 /**
  * Map of preset curve names to their implementations.
  */
@@ -129,23 +301,224 @@ export const CURVE_PRESETS: Record<string, CurveFn> = {
   cosine,
   easeInOut,
   bezier,
+  bounce: bounce(),
+  elastic: elastic(),
+  spring: spring(),
+  gravityArc: gravityArc(),
 };
 
 /**
- * Get a preset curve function by name.
+ * Get a preset curve function by name, CSS easing string or parametric preset.
+ * Preset names take priority, so 'linear' is the linear preset. CSS easings are
+ * clamped to [0,1]; use parseCssEasing() to keep their overshoot.
  * 
- * @param preset - Name of the preset curve
+ * @param preset - Name of the preset curve, a CSS easing such as 'ease-out'
+ *   or 'cubic-bezier(0.34, 1.56, 0.64, 1)', or a parametric preset such as
+ *   { type: 'bounce', bounces: 4 }
  * @returns The curve function
- * @throws Error if preset name is invalid
+ * @throws Error if preset name is invalid, the CSS easing cannot be parsed or the
+ *   parametric options are out of range
  */
-export function getCurvePreset(preset: string): CurveFn {
+export function getCurvePreset(preset: string | ParametricCurvePreset): CurveFn {
+  if (typeof preset === 'object') {
+    const factory = PARAMETRIC_CURVES[preset.type] as ((options: object) => CurveFn) | undefined;
+    if (!factory) {
+      throw new Error(
+        `Invalid curve preset type: "${String(preset.type)}". Valid options: ${Object.keys(PARAMETRIC_CURVES).join(', ')}`
+      );
+    }
+    return factory(preset);
+  }
+  
   const curve = CURVE_PRESETS[preset];
-  if (!curve) {
+  if (curve) {
+    return curve;
+  }
+  if (isCssEasing(preset)) {
+    // Heights outside [0,1] would give a negative radius, so overshooting easings are clamped
+    const easing = parseCssEasing(preset);
+    return (t: number) => Math.max(0, Math.min(1, easing(t)));
+  }
+  throw new Error(
+    `Invalid curve preset: "${preset}". Valid options: ${Object.keys(CURVE_PRESETS).join(', ')}, or a CSS easing`
+  );
+}
+
+/**
+ * Play curves one after another, each over a share of the progress proportional
+ * to its weight. Every curve receives its own progress [0,1]; heights are not
+ * offset, so consecutive curves should end and start at the same height.
+ * 
+ * @param parts - Curves with their relative weights
+ * @returns Curve that runs through the parts in order
+ * @throws Error if parts is empty or a weight is not a positive finite number
+ * 
+ * @example
+ * ```typescript
+ * // Rise for the first third, then bounce back down
+ * const curve = sequence([[easeInOut, 1], [bounce(), 2]]);
+ * ```
+ */
+export function sequence(parts: [CurveFn, number][]): CurveFn {
+  if (parts.length === 0) {
+    throw new Error('Curve sequence must have at least one part');
+  }
+  
+  let total = 0;
+  for (const [, weight] of parts) {
+    if (!(weight > 0) || !isFinite(weight)) {
+      throw new Error(`Curve sequence weights must be positive numbers, but got ${weight}`);
+    }
+    total += weight;
+  }
+  
+  // Progress at which each part ends, with the last one pinned to exactly 1
+  let end = 0;
+  const ends = parts.map(([, weight], index) => {
+    end += weight / total;
+    return index === parts.length - 1 ? 1 : end;
+  });
+  
+  return (t: number, position?: Vec2): number => {
+    let index = 0;
+    while (index < parts.length - 1 && t >= (ends[index] as number)) {
+      index++;
+    }
+    
+    const start = index === 0 ? 0 : (ends[index - 1] as number);
+    const [curve] = parts[index] as [CurveFn, number];
+    const localT = (t - start) / ((ends[index] as number) - start);
+    return curve(Math.max(0, Math.min(1, localT)), position);
+  };
+}
+
+/**
+ * Play a curve forward over the first half of the progress and backward over the
+ * second, so it returns to where it started. A rise becomes a rise and fall.
+ * 
+ * @param curve - Curve to mirror
+ * @returns Curve with curve(1) at t = 0.5 and curve(0) at t = 0 and t = 1
+ * 
+ * @example
+ * ```typescript
+ * const arc = mirror(easeInOut);
+ * arc(0.5);  // 1
+ * arc(1);    // 0
+ * ```
+ */
+export function mirror(curve: CurveFn): CurveFn {
+  return (t: number, position?: Vec2): number =>
+    curve(t <= 0.5 ? 2 * t : 2 - 2 * t, position);
+}
+
+/**
+ * Play a curve several times in a row over the progress.
+ * 
+ * @param curve - Curve to repeat
+ * @param count - Number of repetitions, a positive integer
+ * @returns Curve that restarts curve at every 1/count of the progress
+ * @throws Error if count is not a positive integer
+ * 
+ * @example
+ * ```typescript
+ * // Three hops per cycle
+ * const hops = repeat(mirror(easeInOut), 3);
+ * ```
+ */
+export function repeat(curve: CurveFn, count: number): CurveFn {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Curve repeat count must be a positive integer, but got ${count}`);
+  }
+  
+  return (t: number, position?: Vec2): number => {
+    if (t >= 1) {
+      return curve(1, position);
+    }
+    if (t <= 0) {
+      return curve(0, position);
+    }
+    const scaled = t * count;
+    return curve(scaled - Math.floor(scaled), position);
+  };
+}
+
+/**
+ * Play a curve over part of the progress and scale its heights into a range.
+ * Before the input range the curve holds its start height, after it its end height.
+ * 
+ * @param curve - Curve to remap
+ * @param inRange - Progress [start, end] over which the curve plays; may be reversed
+ * @param outRange - Heights [low, high] that the curve's 0 and 1 map to
+ * @returns Remapped curve
+ * @throws Error if a bound is not finite or the input range is empty
+ * 
+ * @example
+ * ```typescript
+ * // Rise to half height between 20% and 80% of the progress
+ * const curve = remap(easeInOut, [0.2, 0.8], [0, 0.5]);
+ * ```
+ */
+export function remap(
+  curve: CurveFn,
+  inRange: [number, number],
+  outRange: [number, number] = [0, 1]
+): CurveFn {
+  const [inStart, inEnd] = inRange;
+  const [outLow, outHigh] = outRange;
+  if (![inStart, inEnd, outLow, outHigh].every((bound) => isFinite(bound))) {
     throw new Error(
-      `Invalid curve preset: "${preset}". Valid options: ${Object.keys(CURVE_PRESETS).join(', ')}`
+      `Curve remap ranges must be finite numbers, but got [${inStart}, ${inEnd}] and [${outLow}, ${outHigh}]`
     );
   }
-  return curve;
+  if (inStart === inEnd) {
+    throw new Error(`Curve remap input range must not be empty, but got [${inStart}, ${inEnd}]`);
+  }
+  
+  return (t: number, position?: Vec2): number => {
+    const localT = Math.max(0, Math.min(1, (t - inStart) / (inEnd - inStart)));
+    return outLow + (outHigh - outLow) * curve(localT, position);
+  };
+}
+
+/**
+ * Mix the heights of two curves.
+ * 
+ * @param a - Curve at mix 0
+ * @param b - Curve at mix 1
+ * @param mix - Share of b in [0,1], or a curve of progress for a crossfade
+ * @returns Curve returning a * (1 - mix) + b * mix
+ * @throws Error if a fixed mix is outside [0,1]
+ * 
+ * @example
+ * ```typescript
+ * const softBounce = blend(bounce(), easeInOut, 0.3);
+ * const morph = blend(sine, bounce(), linear);  // sine at the start, bounce at the end
+ * ```
+ */
+export function blend(a: CurveFn, b: CurveFn, mix: number | CurveFn): CurveFn {
+  if (typeof mix === 'number' && !(mix >= 0 && mix <= 1)) {
+    throw new Error(`Curve blend mix must be between 0 and 1, but got ${mix}`);
+  }
+  
+  return (t: number, position?: Vec2): number => {
+    const amount = typeof mix === 'number' ? mix : getBlend(mix, t);
+    return a(t, position) * (1 - amount) + b(t, position) * amount;
+  };
+}
+
+/**
+ * Play a curve backward, from its end height to its start height.
+ * 
+ * @param curve - Curve to reverse
+ * @returns Curve returning curve(1 - t)
+ * 
+ * @example
+ * ```typescript
+ * const rise = reverse(bounce());  // bounces up from the ground to full height
+ * ```
+ */
+export function reverse(curve: CurveFn): CurveFn {
+  return (t: number, position?: Vec2): number => curve(1 - t, position);
 }
 
 /**
@@ -224,41 +597,205 @@ function cubicHermite(p0: number, p1: number, m0: number, m1: number, t: number)
 }
 
 /**
- * Compute tangent at a keypoint using finite differences.
- * Uses the Catmull-Rom approach: tangent = (next - prev) / 2
+ * Evaluate a keypoint oscillation input, keeping it inside the zMin–zMax band.
  * 
- * @param prev - Previous keypoint value (or null if at start)
- * @param next - Next keypoint value (or null if at end)
- * @param deltaY - Y distance between prev and next
- * @returns Tangent value
+ * @param oscillation - Maps progress to the position within the band
+ * @param t - Progress
+ * @returns Blend factor [0,1], 0 for invalid values
+ */
+function getBlend(oscillation: CurveFn, t: number): number {
+  const blend = oscillation(t);
+  return isFinite(blend) ? Math.max(0, Math.min(1, blend)) : 0;
+}
+
+/**
+ * Options for createKeypointCurve()
+ */
+export interface KeypointCurveOptions {
+  /**
+   * Maps progress to the position within each zMin–zMax band (0 → zMin, 1 → zMax).
+   * @default (t) => t
+   */
+  oscillation?: CurveFn;
+  
+  /**
+   * How heights are interpolated between keypoints.
+   * @default 'catmull-rom'
+   */
+  interpolation?: KeypointInterpolation;
+}
+
+/**
+ * Slopes (dz/dy) of the straight lines between consecutive keypoints.
+ * Keypoints at the same Y get a slope of 0.
+ */
+function computeSecants(ys: number[], zs: number[]): number[] {
+  const secants: number[] = [];
+  for (let i = 0; i < ys.length - 1; i++) {
+    const h = (ys[i + 1] as number) - (ys[i] as number);
+    secants.push(h > 0 ? ((zs[i + 1] as number) - (zs[i] as number)) / h : 0);
+  }
+  return secants;
+}
+
+/**
+ * Catmull-Rom tangents: the slope between the neighbours, one-sided at the ends.
+ */
+function catmullRomTangents(ys: number[], zs: number[], secants: number[]): number[] {
+  const last = ys.length - 1;
+  return ys.map((_, i) => {
+    if (i === 0) return secants[0] as number;
+    if (i === last) return secants[last - 1] as number;
+    const span = (ys[i + 1] as number) - (ys[i - 1] as number);
+    return span > 0 ? ((zs[i + 1] as number) - (zs[i - 1] as number)) / span : 0;
+  });
+}
+
+/**
+ * Fritsch–Carlson tangents, which keep every span monotonic so the curve never
+ * overshoots the keypoint heights on either side.
  */
-function computeTangent(prev: number | null, next: number | null, deltaY: number): number {
-  if (prev === null && next === null) {
-    return 0; // Single point, no tangent
+function monotoneTangents(secants: number[]): number[] {
+  const count = secants.length + 1;
+  const tangents: number[] = [];
+  
+  for (let i = 0; i < count; i++) {
+    const before = secants[i - 1];
+    const after = secants[i];
+    if (before === undefined) {
+      tangents.push(after as number);
+    } else if (after === undefined) {
+      tangents.push(before);
+    } else {
+      // Flat at local extrema, otherwise the average slope
+      tangents.push(before * after <= 0 ? 0 : (before + after) / 2);
+    }
   }
-  if (prev === null) {
-    return next!; // Start point, use forward difference
+  
+  // Scale tangents down where they would make a span overshoot
+  for (let i = 0; i < secants.length; i++) {
+    const secant = secants[i] as number;
+    if (secant === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const alpha = (tangents[i] as number) / secant;
+    const beta = (tangents[i + 1] as number) / secant;
+    const magnitude = alpha * alpha + beta * beta;
+    if (magnitude > 9) {
+      const tau = 3 / Math.sqrt(magnitude);
+      tangents[i] = tau * alpha * secant;
+      tangents[i + 1] = tau * beta * secant;
+    }
   }
-  if (next === null) {
-    return prev!; // End point, use backward difference
+  
+  return tangents;
+}
+
+/**
+ * Natural cubic spline tangents: continuous second derivative everywhere and
+ * zero curvature at the ends. Solves the tridiagonal system for the second
+ * derivatives with the Thomas algorithm, then converts them to slopes.
+ */
+function naturalSplineTangents(ys: number[], secants: number[]): number[] {
+  const n = ys.length - 1;
+  const h = secants.map((_, i) => (ys[i + 1] as number) - (ys[i] as number));
+  
+  // Second derivatives, 0 at both ends
+  const second = new Array<number>(n + 1).fill(0);
+  const diagonal: number[] = [];
+  const rhs: number[] = [];
+  for (let i = 1; i < n; i++) {
+    diagonal[i] = 2 * ((h[i - 1] as number) + (h[i] as number));
+    rhs[i] = 6 * ((secants[i] as number) - (secants[i - 1] as number));
+  }
+  
+  // Forward elimination
+  for (let i = 2; i < n; i++) {
+    const factor = (h[i - 1] as number) / (diagonal[i - 1] as number);
+    diagonal[i] = (diagonal[i] as number) - factor * (h[i - 1] as number);
+    rhs[i] = (rhs[i] as number) - factor * (rhs[i - 1] as number);
   }
   
-  // Central difference (Catmull-Rom)
-  return (next - prev) / (2 * deltaY);
+  // Back substitution
+  for (let i = n - 1; i >= 1; i--) {
+    const next = i + 1 < n ? (h[i] as number) * (second[i + 1] as number) : 0;
+    const pivot = diagonal[i] as number;
+    second[i] = pivot !== 0 ? ((rhs[i] as number) - next) / pivot : 0;
+  }
+  
+  return ys.map((_, i) => {
+    if (i === n) {
+      const span = h[n - 1] as number;
+      return (secants[n - 1] as number) + (span * ((second[n - 1] as number) + 2 * (second[n] as number))) / 6;
+    }
+    const span = h[i] as number;
+    return (secants[i] as number) - (span * (2 * (second[i] as number) + (second[i + 1] as number))) / 6;
+  });
 }
 
 /**
- * Create a curve function from keypoints using smooth interpolation.
+ * Incoming and outgoing slope at each keypoint for the given heights,
+ * with keypoint tangent overrides applied last.
+ */
+function computeKeypointTangents(
+  keypoints: Keypoint[],
+  zs: number[],
+  interpolation: KeypointInterpolation
+): { incoming: number[]; outgoing: number[] } {
+  const ys = keypoints.map((kp) => kp.y);
+  const secants = computeSecants(ys, zs);
+  
+  let tangents: number[];
+  switch (interpolation) {
+    case 'monotone':
+      tangents = monotoneTangents(secants);
+      break;
+    case 'natural-spline':
+      tangents = naturalSplineTangents(ys, secants);
+      break;
+    default:
+      tangents = catmullRomTangents(ys, zs, secants);
+  }
+  
+  const incoming = [...tangents];
+  const outgoing = [...tangents];
+  keypoints.forEach((kp, i) => {
+    if (typeof kp.tangent === 'number') {
+      incoming[i] = kp.tangent;
+      outgoing[i] = kp.tangent;
+    } else if (kp.tangent) {
+      incoming[i] = kp.tangent.in;
+      outgoing[i] = kp.tangent.out;
+    }
+  });
+  
+  return { incoming, outgoing };
+}
+
+/**
+ * Create a curve function from keypoints.
  * 
- * Keypoints define the ball's height range at specific Y positions.
- * The system interpolates smoothly between keypoints using cubic Hermite
- * interpolation for C1 continuity (smooth first derivative).
+ * Keypoints define the ball's height range at specific Y positions. Between them,
+ * heights are interpolated with one of:
+ * - 'linear': straight lines, with corners at the keypoints
+ * - 'catmull-rom': cubic Hermite spans with Catmull-Rom tangents (C1)
+ * - 'monotone': Fritsch–Carlson tangents (C1), never overshooting the keypoint heights
+ * - 'natural-spline': natural cubic spline (C2), smoothest but may overshoot
  * 
- * The actual Z value at each keypoint is computed based on the current
- * progress through the animation, mapping linearly between zMin and zMax.
+ * Tangents are computed on the heights actually interpolated at this moment,
+ * after the oscillation input has placed each keypoint within its band. A keypoint's
+ * `tangent` replaces the computed slope; `{ in, out }` gives a corner, for example
+ * a sharp landing.
+ * 
+ * Keypoints are looked up by the ball's actual Y position, passed in by the
+ * renderer, so they hold for any pathY. Called without a position, the curve
+ * falls back to treating progress as Y, which matches the default pathY.
  * 
  * @param keypoints - Array of keypoints defining height at Y positions
- * @returns Curve function that takes progress t and returns height z
+ * @param options - Oscillation input and interpolation mode
+ * @returns Curve function that takes progress t and position and returns height z
  * 
  * @example
  * ```typescript
@@ -268,11 +805,16 @@ function computeTangent(prev: number | null, next: number | null, deltaY: number
  *   { y: 1.0, zMin: 0.0, zMax: 0.2 }   // End low
  * ];
  * 
- * const curve = createKeypointCurve(keypoints);
- * const z = curve(0.5); // Get height at progress 0.5
+ * const curve = createKeypointCurve(keypoints, {
+ *   oscillation: (t) => (1 - Math.cos(t * 8 * Math.PI)) / 2,
+ *   interpolation: 'monotone',
+ * });
+ * const z = curve(0.5, { x: 0.5, y: 0.3 }); // Height at progress 0.5 with the ball at y = 0.3
  * ```
  */
-export function createKeypointCurve(keypoints: Keypoint[]): CurveFn {
+export function createKeypointCurve(keypoints: Keypoint[], options: KeypointCurveOptions = {}): CurveFn {
+  const { oscillation = linear, interpolation = 'catmull-rom' } = options;
+  
   if (keypoints.length === 0) {
     console.warn('[Ball Animation] No keypoints provided, using constant z=0');
     return () => 0;
@@ -281,98 +823,73 @@ export function createKeypointCurve(keypoints: Keypoint[]): CurveFn {
   const sorted = sortAndValidateKeypoints(keypoints);
   
   if (sorted.length === 1) {
-    // Single keypoint: return constant value based on progress
+    // Single keypoint: the band is the same everywhere, only the oscillation moves
     const kp = sorted[0];
     if (!kp) {
       return (_t: number) => 0;
     }
-    return (t: number) => kp.zMin + t * (kp.zMax - kp.zMin);
+    return (t: number) => kp.zMin + getBlend(oscillation, t) * (kp.zMax - kp.zMin);
   }
   
-  // Precompute tangents for each keypoint
-  const tangents: number[] = [];
+  // Tangents depend on the heights, which move with the oscillation,
+  // so they are recomputed only when the blend changes
+  let cachedBlend: number | null = null;
+  let cachedZs: number[] = [];
+  let cachedTangents = { incoming: [] as number[], outgoing: [] as number[] };
   
-  for (let i = 0; i < sorted.length; i++) {
-    const prev = i > 0 ? sorted[i - 1] : null;
-    const curr = sorted[i];
-    const next = i < sorted.length - 1 ? sorted[i + 1] : null;
-    
-    if (!curr) continue;
-    
-    // Compute Z value at current keypoint based on progress
-    // For tangent computation, we use the midpoint of the range
-    const currZ = (curr.zMin + curr.zMax) / 2;
-    const prevZ = prev ? (prev.zMin + prev.zMax) / 2 : null;
-    const nextZ = next ? (next.zMin + next.zMax) / 2 : null;
-    
-    // Compute delta Y for tangent scaling
-    const deltaY = next && prev ? next.y - prev.y : 1;
-    
-    const tangent = computeTangent(
-      prevZ !== null ? prevZ - currZ : null,
-      nextZ !== null ? nextZ - currZ : null,
-      deltaY
-    );
-    
-    tangents.push(tangent);
-  }
+  const heightsAt = (blend: number): number[] => {
+    if (blend !== cachedBlend) {
+      cachedBlend = blend;
+      cachedZs = sorted.map((kp) => kp.zMin + blend * (kp.zMax - kp.zMin));
+      if (interpolation !== 'linear') {
+        cachedTangents = computeKeypointTangents(sorted, cachedZs, interpolation);
+      }
+    }
+    return cachedZs;
+  };
   
-  return (t: number): number => {
-    // For keypoint curves, we need to know the current Y position
-    // Since we're using progress t, we'll map t to Y linearly
-    // This assumes pathY is linear (default behavior)
-    const y = t;
+  return (t: number, position?: Vec2): number => {
+    // Keypoints are placed along Y, so look them up by where the ball actually is.
+    // Without a position, progress stands in for Y (exact for the default pathY).
+    const y = position ? position.y : t;
+    const zs = heightsAt(getBlend(oscillation, t));
     
-    // Find the segment containing y
-    const firstKp = sorted[0];
-    if (!firstKp || y <= firstKp.y) {
-      // Before first keypoint
-      const kp = sorted[0];
-      if (!kp) return 0;
-      return kp.zMin + t * (kp.zMax - kp.zMin);
+    // Hold the end heights outside the keypoint range
+    const firstKp = sorted[0] as Keypoint;
+    const lastKp = sorted[sorted.length - 1] as Keypoint;
+    if (y <= firstKp.y) {
+      return zs[0] as number;
     }
-    
-    const lastKp = sorted[sorted.length - 1];
-    if (!lastKp || y >= lastKp.y) {
-      // After last keypoint
-      const kp = sorted[sorted.length - 1];
-      if (!kp) return 0;
-      return kp.zMin + t * (kp.zMax - kp.zMin);
+    if (y >= lastKp.y) {
+      return zs[zs.length - 1] as number;
     }
     
-    // Find segment
-    let segmentIndex = 0;
-    for (let i = 0; i < sorted.length - 1; i++) {
-      const curr = sorted[i];
-      const next = sorted[i + 1];
-      if (curr && next && y >= curr.y && y <= next.y) {
-        segmentIndex = i;
-        break;
-      }
+    // Find the span containing y
+    let index = 0;
+    while (index < sorted.length - 2 && (sorted[index + 1] as Keypoint).y <= y) {
+      index++;
     }
     
-    const kp0 = sorted[segmentIndex];
-    const kp1 = sorted[segmentIndex + 1];
-    if (!kp0 || !kp1) return 0;
-    
-    // Compute Z values at keypoints based on progress
-    const z0 = kp0.zMin + t * (kp0.zMax - kp0.zMin);
-    const z1 = kp1.zMin + t * (kp1.zMax - kp1.zMin);
-    
-    // Local t within segment
-    const localT = (y - kp0.y) / (kp1.y - kp0.y);
-    
-    // Interpolate using cubic Hermite
-    const tan0 = tangents[segmentIndex];
-    const tan1 = tangents[segmentIndex + 1];
-    if (tan0 === undefined || tan1 === undefined) return z0;
+    const kp0 = sorted[index] as Keypoint;
+    const kp1 = sorted[index + 1] as Keypoint;
+    const z0 = zs[index] as number;
+    const z1 = zs[index + 1] as number;
+    const span = kp1.y - kp0.y;
+    if (span <= 0) {
+      return z1;
+    }
     
-    const m0 = tan0 * (kp1.y - kp0.y);
-    const m1 = tan1 * (kp1.y - kp0.y);
+    const localT = (y - kp0.y) / span;
+    if (interpolation === 'linear') {
+      return z0 + (z1 - z0) * localT;
+    }
     
+    // Hermite tangents are slopes scaled to the span width
+    const m0 = (cachedTangents.outgoing[index] as number) * span;
+    const m1 = (cachedTangents.incoming[index + 1] as number) * span;
     const z = cubicHermite(z0, z1, m0, m1, localT);
     
-    // Clamp to [0,1] to handle any overshoot from interpolation
+    // Keep overshoot from tangent overrides or splines inside the height range
     return Math.max(0, Math.min(1, z));
   };
 }
@@ -0,0 +1,404 @@
+/**
+ * CSS Easing Functions
+ *
+ * Parses CSS easing strings (named easings, cubic-bezier(), steps() and linear())
+ * into curve functions, so easings copied from stylesheets or design tools can be
+ * used as height curves and transition easings.
+ */
+
+import type { CurveFn } from '../types';
+
+/**
+ * Where steps() places its jumps
+ */
+export type StepPosition = 'jump-start' | 'jump-end' | 'jump-none' | 'jump-both' | 'start' | 'end';
+
+/**
+ * One point of a linear() easing with its input position resolved
+ */
+export interface LinearEasingPoint {
+  /** Input progress [0,1] */
+  input: number;
+  /** Output value at this input */
+  output: number;
+}
+
+/**
+ * Build a cubic Bezier curve through (0,0) and (1,1) with two control points,
+ * matching CSS cubic-bezier().
+ *
+ * x is solved with Newton-Raphson iteration, falling back to bisection where the
+ * slope is too flat to converge. y may leave [0,1] to overshoot.
+ *
+ * @param x1 - First control point x [0,1]
+ * @param y1 - First control point y
+ * @param x2 - Second control point x [0,1]
+ * @param y2 - Second control point y
+ * @returns Curve mapping t in [0,1] to the curve's y at x = t
+ * @throws Error if an x coordinate is outside [0,1] or a value is not finite
+ *
+ * @example
+ * ```typescript
+ * const easeOutBack = createCubicBezierCurve(0.34, 1.56, 0.64, 1);
+ * easeOutBack(0.5); // ≈ 1.09
+ * ```
+ */
+export function createCubicBezierCurve(x1: number, y1: number, x2: number, y2: number): CurveFn {
+  if (![x1, y1, x2, y2].every(isFinite)) {
+    throw new Error('Cubic Bezier control points must be finite numbers');
+  }
+  if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+    throw new Error(`Cubic Bezier x coordinates must be between 0 and 1, but got ${x1} and ${x2}`);
+  }
+
+  // Polynomial coefficients of B(u) = ((a*u + b)*u + c)*u
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (u: number): number => ((ax * u + bx) * u + cx) * u;
+  const sampleY = (u: number): number => ((ay * u + by) * u + cy) * u;
+  const slopeX = (u: number): number => (3 * ax * u + 2 * bx) * u + cx;
+
+  const epsilon = 1e-7;
+
+  const solveU = (x: number): number => {
+    let u = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(u) - x;
+      if (Math.abs(error) < epsilon) {
+        return u;
+      }
+      const slope = slopeX(u);
+      if (Math.abs(slope) < 1e-6) {
+        break;
+      }
+      u -= error / slope;
+    }
+
+    // x(u) is monotonic on [0,1] because x1 and x2 are, so bisection always converges
+    let low = 0;
+    let high = 1;
+    u = x;
+    while (high - low > epsilon) {
+      const value = sampleX(u);
+      if (Math.abs(value - x) < epsilon) {
+        return u;
+      }
+      if (value < x) {
+        low = u;
+      } else {
+        high = u;
+      }
+      u = (low + high) / 2;
+    }
+    return u;
+  };
+
+  return (t: number): number => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return sampleY(solveU(t));
+  };
+}
+
+/**
+ * Build a stepped curve matching CSS steps().
+ *
+ * @param count - Number of steps (a positive integer, at least 2 for 'jump-none')
+ * @param position - Where the jumps happen; 'start' and 'end' alias 'jump-start' and 'jump-end'
+ * @returns Curve that holds each step's value for an equal share of progress
+ * @throws Error if the step count is invalid for the position
+ *
+ * @example
+ * ```typescript
+ * const stairs = createStepsCurve(4, 'jump-end');
+ * stairs(0.3); // 0.25
+ * stairs(1);   // 1
+ * ```
+ */
+export function createStepsCurve(count: number, position: StepPosition = 'jump-end'): CurveFn {
+  const minimum = position === 'jump-none' ? 2 : 1;
+  if (!Number.isInteger(count) || count < minimum) {
+    throw new Error(
+      `Step count must be an integer of at least ${minimum} for "${position}", but got ${count}`
+    );
+  }
+
+  const jumpsAtStart = position === 'jump-start' || position === 'start' || position === 'jump-both';
+  const jumps =
+    position === 'jump-none' ? count - 1 : position === 'jump-both' ? count + 1 : count;
+
+  return (t: number): number => {
+    const clamped = Math.max(0, Math.min(1, t));
+    let step = Math.floor(clamped * count);
+    if (jumpsAtStart) {
+      step += 1;
+    }
+    return Math.min(step, jumps) / jumps;
+  };
+}
+
+/**
+ * Build a piecewise linear curve matching CSS linear().
+ *
+ * Points must be in ascending input order. Between points, output is interpolated
+ * linearly; before the first point and after the last, output holds. Points that
+ * share an input make a jump, taking the later point's output at that input.
+ *
+ * @param points - Points with resolved input positions
+ * @returns Curve through the points
+ * @throws Error if there are fewer than two points or inputs decrease
+ *
+ * @example
+ * ```typescript
+ * const curve = createLinearEasingCurve([
+ *   { input: 0, output: 0 },
+ *   { input: 0.3, output: 0.25 },
+ *   { input: 1, output: 1 }
+ * ]);
+ * curve(0.15); // 0.125
+ * ```
+ */
+export function createLinearEasingCurve(points: LinearEasingPoint[]): CurveFn {
+  if (points.length < 2) {
+    throw new Error(`linear() needs at least 2 points, but got ${points.length}`);
+  }
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1] as LinearEasingPoint;
+    const point = points[i] as LinearEasingPoint;
+    if (point.input < previous.input) {
+      throw new Error('linear() point inputs must be in ascending order');
+    }
+  }
+
+  const first = points[0] as LinearEasingPoint;
+  const last = points[points.length - 1] as LinearEasingPoint;
+
+  return (t: number): number => {
+    if (t < first.input) return first.output;
+    if (t >= last.input) return last.output;
+
+    // Last point at or before t, so a jump takes the later output
+    let index = 0;
+    while (index < points.length - 2 && (points[index + 1] as LinearEasingPoint).input <= t) {
+      index++;
+    }
+
+    const start = points[index] as LinearEasingPoint;
+    const end = points[index + 1] as LinearEasingPoint;
+    const span = end.input - start.input;
+    const local = span > 0 ? (t - start.input) / span : 1;
+    return start.output + (end.output - start.output) * local;
+  };
+}
+
+/**
+ * CSS easing keywords and their equivalent curves
+ */
+export const NAMED_CSS_EASINGS: Record<string, CurveFn> = {
+  linear: (t: number) => t,
+  ease: createCubicBezierCurve(0.25, 0.1, 0.25, 1),
+  'ease-in': createCubicBezierCurve(0.42, 0, 1, 1),
+  'ease-out': createCubicBezierCurve(0, 0, 0.58, 1),
+  'ease-in-out': createCubicBezierCurve(0.42, 0, 0.58, 1),
+  'step-start': createStepsCurve(1, 'jump-start'),
+  'step-end': createStepsCurve(1, 'jump-end'),
+};
+
+const STEP_POSITIONS: StepPosition[] = [
+  'jump-start',
+  'jump-end',
+  'jump-none',
+  'jump-both',
+  'start',
+  'end',
+];
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/;
+const PERCENTAGE_PATTERN = /^([+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?)%$/;
+
+/**
+ * Whether a string is written as a CSS easing, i.e. a known keyword or a function call.
+ * It may still be invalid; parseCssEasing() reports why.
+ */
+export function isCssEasing(value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  return (
+    Object.prototype.hasOwnProperty.call(NAMED_CSS_EASINGS, normalized) ||
+    /^[a-z-]+\s*\(/.test(normalized)
+  );
+}
+
+/**
+ * Parse a CSS easing string into a curve function.
+ *
+ * Supports the keywords linear, ease, ease-in, ease-out, ease-in-out, step-start and
+ * step-end, and the functions cubic-bezier(x1, y1, x2, y2), steps(n[, position]) and
+ * linear(output [input% [input%]], ...). linear() inputs that are left out are spread
+ * evenly between their neighbours, as in CSS.
+ *
+ * @param value - CSS easing string
+ * @returns Curve mapping progress [0,1] to eased progress
+ * @throws Error naming the easing and what is wrong with it
+ *
+ * @example
+ * ```typescript
+ * parseCssEasing('ease-out');
+ * parseCssEasing('cubic-bezier(0.34, 1.56, 0.64, 1)');
+ * parseCssEasing('steps(4, jump-start)');
+ * parseCssEasing('linear(0, 0.25 30%, 1)');
+ * ```
+ */
+export function parseCssEasing(value: string): CurveFn {
+  try {
+    return compileCssEasing(value);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid CSS easing "${value}": ${reason}`);
+  }
+}
+
+/**
+ * Check a CSS easing string without building its curve.
+ *
+ * @param value - CSS easing string
+ * @returns Why the easing is invalid, or null if it can be parsed
+ */
+export function getCssEasingError(value: string): string | null {
+  try {
+    compileCssEasing(value);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Build the curve for a CSS easing string, throwing the reason it is invalid.
+ */
+function compileCssEasing(value: string): CurveFn {
+  const normalized = value.trim().toLowerCase();
+
+  if (Object.prototype.hasOwnProperty.call(NAMED_CSS_EASINGS, normalized)) {
+    return NAMED_CSS_EASINGS[normalized] as CurveFn;
+  }
+
+  const match = /^([a-z-]+)\s*\(([^)]*)\)$/.exec(normalized);
+  if (!match) {
+    throw new Error('expected a keyword, cubic-bezier(), steps() or linear()');
+  }
+
+  const name = match[1] as string;
+  const args = (match[2] as string).split(',').map((arg) => arg.trim());
+
+  switch (name) {
+    case 'cubic-bezier': {
+      if (args.length !== 4) {
+        throw new Error(`cubic-bezier() takes 4 numbers, but got ${args.length}`);
+      }
+      const [x1, y1, x2, y2] = args.map(parseNumber) as [number, number, number, number];
+      return createCubicBezierCurve(x1, y1, x2, y2);
+    }
+
+    case 'steps': {
+      if (args.length < 1 || args.length > 2) {
+        throw new Error(`steps() takes a step count and an optional position, but got ${args.length} arguments`);
+      }
+      const count = parseNumber(args[0] as string);
+      const position = args[1] ?? 'end';
+      if (!STEP_POSITIONS.includes(position as StepPosition)) {
+        throw new Error(`step position must be one of ${STEP_POSITIONS.join(', ')}, but got "${position}"`);
+      }
+      return createStepsCurve(count, position as StepPosition);
+    }
+
+    case 'linear':
+      return createLinearEasingCurve(resolveLinearStops(args));
+
+    default:
+      throw new Error(`unknown easing function "${name}()"`);
+  }
+}
+
+/**
+ * Resolve linear() stops into points, following the CSS rules for missing inputs:
+ * the first and last default to 0% and 100%, inputs never go backwards, and runs of
+ * missing inputs are spread evenly between the known inputs around them.
+ */
+function resolveLinearStops(args: string[]): LinearEasingPoint[] {
+  const stops: { output: number; input: number | null }[] = [];
+
+  for (const arg of args) {
+    const parts = arg.split(/\s+/).filter((part) => part.length > 0);
+    if (parts.length < 1 || parts.length > 3) {
+      throw new Error(`linear() stop "${arg}" must be a number followed by up to two percentages`);
+    }
+
+    const output = parseNumber(parts[0] as string);
+    const inputs = parts.slice(1).map(parsePercentage);
+    if (inputs.length === 0) {
+      stops.push({ output, input: null });
+    }
+    for (const input of inputs) {
+      stops.push({ output, input });
+    }
+  }
+
+  if (stops.length < 2) {
+    throw new Error(`linear() needs at least 2 stops, but got ${stops.length}`);
+  }
+
+  const firstStop = stops[0] as { input: number | null };
+  const lastStop = stops[stops.length - 1] as { input: number | null };
+  if (firstStop.input === null) firstStop.input = 0;
+  if (lastStop.input === null) lastStop.input = 1;
+
+  // Clamp known inputs so they never go below an earlier one
+  let largest = -Infinity;
+  for (const stop of stops) {
+    if (stop.input !== null) {
+      stop.input = Math.max(stop.input, largest);
+      largest = stop.input;
+    }
+  }
+
+  // Spread runs of missing inputs evenly between the known neighbours
+  let index = 0;
+  while (index < stops.length) {
+    if (stops[index]?.input !== null) {
+      index++;
+      continue;
+    }
+    const runStart = index;
+    while (stops[index]?.input === null) {
+      index++;
+    }
+    const before = stops[runStart - 1]?.input as number;
+    const after = stops[index]?.input as number;
+    const gap = (after - before) / (index - runStart + 1);
+    for (let i = runStart; i < index; i++) {
+      (stops[i] as { input: number | null }).input = before + gap * (i - runStart + 1);
+    }
+  }
+
+  return stops.map((stop) => ({ output: stop.output, input: stop.input as number }));
+}
+
+function parseNumber(text: string): number {
+  if (!NUMBER_PATTERN.test(text)) {
+    throw new Error(`expected a number, but got "${text}"`);
+  }
+  return Number(text);
+}
+
+function parsePercentage(text: string): number {
+  const match = PERCENTAGE_PATTERN.exec(text);
+  if (!match) {
+    throw new Error(`expected a percentage, but got "${text}"`);
+  }
+  return Number(match[1]) / 100;
+}
@@ -0,0 +1,118 @@
+/**
+ * Event Emitter
+ *
+ * Small typed emitter behind the AnimationInstance lifecycle events.
+ */
+
+/**
+ * Listener for an event carrying a payload of type T
+ */
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * Registered listener and whether it is removed after its first call
+ */
+interface Listener<T> {
+  handler: EventHandler<T>;
+  once: boolean;
+}
+
+/**
+ * Typed event emitter keyed by an event map of event names to payload types.
+ *
+ * Listeners run in registration order. A listener that throws is logged and does
+ * not prevent the remaining listeners from running. Adding or removing listeners
+ * while an event is being emitted affects the next emit, not the current one.
+ *
+ * @example
+ * ```typescript
+ * const events = new EventEmitter<{ loop: { iteration: number }; complete: void }>();
+ * events.on('loop', ({ iteration }) => console.log(`Iteration ${iteration}`));
+ * events.once('complete', () => console.log('Done'));
+ *
+ * events.emit('loop', { iteration: 1 });
+ * events.emit('complete', undefined);
+ * ```
+ */
+export class EventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Listener<never>[]>();
+
+  /**
+   * Add a listener. Adding the same handler twice calls it twice.
+   */
+  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    this.add(event, handler, false);
+  }
+
+  /**
+   * Add a listener that is removed after its first call.
+   */
+  once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    this.add(event, handler, true);
+  }
+
+  /**
+   * Remove every registration of a handler for an event.
+   */
+  off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    const listeners = this.getListeners(event);
+    const remaining = listeners.filter((listener) => listener.handler !== handler);
+
+    if (remaining.length > 0) {
+      this.listeners.set(event, remaining as Listener<never>[]);
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * Call the listeners for an event with its payload.
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.getListeners(event);
+    if (listeners.length === 0) {
+      return;
+    }
+
+    // Drop one-shot listeners before calling them, so a re-entrant emit skips them
+    if (listeners.some((listener) => listener.once)) {
+      const remaining = listeners.filter((listener) => !listener.once);
+      if (remaining.length > 0) {
+        this.listeners.set(event, remaining as Listener<never>[]);
+      } else {
+        this.listeners.delete(event);
+      }
+    }
+
+    for (const listener of listeners) {
+      try {
+        listener.handler(payload);
+      } catch (error) {
+        console.error(`Error in "${String(event)}" event listener:`, error);
+      }
+    }
+  }
+
+  /**
+   * Remove all listeners for all events.
+   */
+  clear(): void {
+    this.listeners.clear();
+  }
+
+  private add<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>,
+    once: boolean
+  ): void {
+    // Copy on write so an emit in progress keeps its snapshot
+    this.listeners.set(event, [
+      ...this.getListeners(event),
+      { handler, once },
+    ] as Listener<never>[]);
+  }
+
+  private getListeners<K extends keyof Events>(event: K): Listener<Events[K]>[] {
+    return (this.listeners.get(event) ?? []) as Listener<Events[K]>[];
+  }
+}
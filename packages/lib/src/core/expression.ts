@@ -0,0 +1,484 @@
+/**
+ * Curve Expressions
+ *
+ * Parses math expressions such as "0.5 + 0.4 * sin(2 * pi * t)" into curve
+ * functions, so height curves and paths can be stored in JSON configs. Expressions
+ * are compiled once into a tree of closures; nothing is passed to eval() or
+ * new Function(), so they work under a strict Content Security Policy.
+ */
+
+import type { CurveFn, CurveSource } from '../types';
+
+/**
+ * Longest expression accepted, in characters
+ */
+const MAX_EXPRESSION_LENGTH = 1000;
+
+/**
+ * Deepest nesting of parentheses, calls and unary operators accepted
+ */
+const MAX_EXPRESSION_DEPTH = 32;
+
+/**
+ * Number of recently compiled expressions kept, so validating and building a
+ * config, and later updates that keep the same strings, parse each one once
+ */
+const COMPILED_CACHE_SIZE = 64;
+
+/**
+ * Recently compiled expressions and their curves or error reasons, oldest first
+ */
+const compiledExpressions = new Map<string, CurveFn | string>();
+
+/**
+ * Named constants available in expressions
+ */
+const EXPRESSION_CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  tau: 2 * Math.PI,
+  e: Math.E,
+};
+
+/**
+ * Function available in expressions with its accepted argument counts
+ */
+interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number;
+  apply: (args: number[]) => number;
+}
+
+const unary = (fn: (x: number) => number): ExpressionFunction => ({
+  minArgs: 1,
+  maxArgs: 1,
+  apply: (args) => fn(args[0] as number),
+});
+
+/**
+ * Functions available in expressions
+ */
+const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  sin: unary(Math.sin),
+  cos: unary(Math.cos),
+  tan: unary(Math.tan),
+  asin: unary(Math.asin),
+  acos: unary(Math.acos),
+  atan: unary(Math.atan),
+  sinh: unary(Math.sinh),
+  cosh: unary(Math.cosh),
+  tanh: unary(Math.tanh),
+  exp: unary(Math.exp),
+  log: unary(Math.log),
+  log2: unary(Math.log2),
+  log10: unary(Math.log10),
+  sqrt: unary(Math.sqrt),
+  cbrt: unary(Math.cbrt),
+  abs: unary(Math.abs),
+  sign: unary(Math.sign),
+  floor: unary(Math.floor),
+  ceil: unary(Math.ceil),
+  round: unary(Math.round),
+  trunc: unary(Math.trunc),
+  fract: unary((x) => x - Math.floor(x)),
+  atan2: {
+    minArgs: 2,
+    maxArgs: 2,
+    apply: ([y, x]) => Math.atan2(y as number, x as number),
+  },
+  pow: {
+    minArgs: 2,
+    maxArgs: 2,
+    apply: ([x, y]) => Math.pow(x as number, y as number),
+  },
+  step: {
+    minArgs: 2,
+    maxArgs: 2,
+    apply: ([edge, x]) => ((x as number) < (edge as number) ? 0 : 1),
+  },
+  min: { minArgs: 1, maxArgs: Infinity, apply: (args) => Math.min(...args) },
+  max: { minArgs: 1, maxArgs: Infinity, apply: (args) => Math.max(...args) },
+  clamp: {
+    minArgs: 3,
+    maxArgs: 3,
+    apply: ([x, low, high]) =>
+      Math.max(low as number, Math.min(high as number, x as number)),
+  },
+  mix: {
+    minArgs: 3,
+    maxArgs: 3,
+    apply: ([a, b, amount]) =>
+      (a as number) + ((b as number) - (a as number)) * (amount as number),
+  },
+  smoothstep: {
+    minArgs: 3,
+    maxArgs: 3,
+    apply: ([edge0, edge1, x]) => {
+      const u = Math.max(
+        0,
+        Math.min(
+          1,
+          ((x as number) - (edge0 as number)) /
+            ((edge1 as number) - (edge0 as number))
+        )
+      );
+      return u * u * (3 - 2 * u);
+    },
+  },
+};
+
+const BINARY_OPERATORS: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '%': (a, b) => a % b,
+  '^': (a, b) => Math.pow(a, b),
+};
+
+interface Token {
+  type: 'number' | 'name' | 'operator' | 'end';
+  text: string;
+  /** Index of the token's first character */
+  position: number;
+}
+
+/**
+ * Compiled subexpression. Constant subexpressions are folded into a single value.
+ */
+interface Node {
+  evaluate: (t: number) => number;
+  constant: boolean;
+}
+
+const NUMBER_TOKEN = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i;
+const NAME_TOKEN = /^[a-z_][a-z0-9_]*/i;
+
+/**
+ * Compile a math expression of progress t into a curve function.
+ *
+ * Supported syntax:
+ * - Numbers such as 2, 0.5, .5 and 1e-3
+ * - The variable t and the constants pi, tau and e
+ * - Operators + - * / % ^ (power, right-associative) and unary + and -, with the
+ *   usual precedence, so -t^2 is -(t^2)
+ * - Parentheses and calls such as sin(t), pow(t, 2), min(a, b, ...)
+ * - Functions sin, cos, tan, asin, acos, atan, atan2, sinh, cosh, tanh, exp, log,
+ *   log2, log10, sqrt, cbrt, abs, sign, floor, ceil, round, trunc, fract, pow,
+ *   min, max, clamp(x, low, high), mix(a, b, amount), step(edge, x) and
+ *   smoothstep(edge0, edge1, x)
+ *
+ * Names are case-sensitive. Results are not clamped; use customCurve's usual
+ * clamping or clamp() in the expression. Recently compiled text is not parsed
+ * again, so validating a config and then building it parses each string once.
+ *
+ * @param source - Expression text
+ * @returns Curve evaluating the expression at t
+ * @throws Error describing the first problem and its position if the expression is invalid
+ *
+ * @example
+ * ```typescript
+ * const bob = compileExpression('0.5 + 0.4 * sin(2 * pi * t)');
+ * bob(0.25); // 0.9
+ * ```
+ */
+export function compileExpression(source: string): CurveFn {
+  const result = compileCached(source);
+  if (typeof result === 'string') {
+    throw new Error(`Invalid expression "${source}": ${result}`);
+  }
+  return result;
+}
+
+/**
+ * Check an expression without throwing.
+ *
+ * @param source - Expression text
+ * @returns Why the expression is invalid, or null if it compiles
+ */
+export function getExpressionError(source: string): string | null {
+  const result = compileCached(source);
+  return typeof result === 'string' ? result : null;
+}
+
+/**
+ * Use a curve function as is, or compile an expression string into one.
+ */
+export function resolveCurveSource(source: CurveSource): CurveFn {
+  return typeof source === 'string' ? compileExpression(source) : source;
+}
+
+/**
+ * Parse an expression, or reuse the result of a recent parse of the same text.
+ * Compiled curves are pure, so sharing them between callers is safe.
+ *
+ * @returns The curve, or why the expression is invalid
+ */
+function compileCached(source: string): CurveFn | string {
+  const cached = compiledExpressions.get(source);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let result: CurveFn | string;
+  try {
+    result = parseExpression(source);
+  } catch (error) {
+    result = error instanceof Error ? error.message : String(error);
+  }
+
+  // Overlong text fails fast and is not worth keeping
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    return result;
+  }
+  if (compiledExpressions.size >= COMPILED_CACHE_SIZE) {
+    const oldest = compiledExpressions.keys().next().value as string;
+    compiledExpressions.delete(oldest);
+  }
+  compiledExpressions.set(source, result);
+  return result;
+}
+
+/**
+ * Recursive-descent parser that builds the closures as it goes.
+ *
+ * expression := term (('+' | '-') term)*
+ * term       := unary (('*' | '/' | '%') unary)*
+ * unary      := ('+' | '-') unary | power
+ * power      := primary ('^' unary)?
+ * primary    := number | name | name '(' arguments ')' | '(' expression ')'
+ */
+function parseExpression(source: string): CurveFn {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(
+      `expression is longer than ${MAX_EXPRESSION_LENGTH} characters`
+    );
+  }
+
+  const tokens = tokenize(source);
+  let index = 0;
+  let depth = 0;
+
+  const peek = (): Token => tokens[index] as Token;
+  const next = (): Token => tokens[index++] as Token;
+  const describe = (token: Token): string =>
+    token.type === 'end'
+      ? 'end of expression'
+      : `"${token.text}" at position ${token.position + 1}`;
+  const expect = (text: string): void => {
+    const token = next();
+    if (token.text !== text || token.type !== 'operator') {
+      throw new Error(`expected "${text}", but got ${describe(token)}`);
+    }
+  };
+  const nest = <T>(parse: () => T): T => {
+    if (++depth > MAX_EXPRESSION_DEPTH) {
+      throw new Error(
+        `expression is nested more than ${MAX_EXPRESSION_DEPTH} levels deep`
+      );
+    }
+    const result = parse();
+    depth--;
+    return result;
+  };
+
+  const parseBinary = (operators: string[], parseOperand: () => Node): Node => {
+    let left = parseOperand();
+    while (peek().type === 'operator' && operators.includes(peek().text)) {
+      const operator = BINARY_OPERATORS[next().text] as (
+        a: number,
+        b: number
+      ) => number;
+      left = combine([left, parseOperand()], ([a, b]) =>
+        operator(a as number, b as number)
+      );
+    }
+    return left;
+  };
+
+  const parseSum = (): Node => parseBinary(['+', '-'], parseProduct);
+  const parseProduct = (): Node => parseBinary(['*', '/', '%'], parseUnary);
+
+  const parseUnary = (): Node => {
+    const token = peek();
+    if (
+      token.type === 'operator' &&
+      (token.text === '-' || token.text === '+')
+    ) {
+      next();
+      const operand = nest(parseUnary);
+      return token.text === '-'
+        ? combine([operand], ([a]) => -(a as number))
+        : operand;
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Node => {
+    const base = parsePrimary();
+    if (peek().type === 'operator' && peek().text === '^') {
+      next();
+      const exponent = nest(parseUnary);
+      return combine([base, exponent], ([a, b]) =>
+        Math.pow(a as number, b as number)
+      );
+    }
+    return base;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = next();
+
+    if (token.type === 'number') {
+      const value = Number(token.text);
+      return { evaluate: () => value, constant: true };
+    }
+
+    if (token.type === 'operator' && token.text === '(') {
+      const inner = nest(parseSum);
+      expect(')');
+      return inner;
+    }
+
+    if (token.type === 'name') {
+      if (peek().type === 'operator' && peek().text === '(') {
+        return parseCall(token);
+      }
+      if (token.text === 't') {
+        return { evaluate: (t) => t, constant: false };
+      }
+      if (
+        Object.prototype.hasOwnProperty.call(EXPRESSION_CONSTANTS, token.text)
+      ) {
+        const value = EXPRESSION_CONSTANTS[token.text] as number;
+        return { evaluate: () => value, constant: true };
+      }
+      if (
+        Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, token.text)
+      ) {
+        throw new Error(
+          `function "${token.text}" at position ${token.position + 1} must be called with parentheses`
+        );
+      }
+      throw new Error(
+        `unknown name "${token.text}" at position ${token.position + 1}`
+      );
+    }
+
+    throw new Error(
+      `expected a number, name or "(", but got ${describe(token)}`
+    );
+  };
+
+  const parseCall = (name: Token): Node => {
+    if (
+      !Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, name.text)
+    ) {
+      throw new Error(
+        `unknown function "${name.text}" at position ${name.position + 1}`
+      );
+    }
+    const fn = EXPRESSION_FUNCTIONS[name.text] as ExpressionFunction;
+
+    expect('(');
+    const args: Node[] = [];
+    if (!(peek().type === 'operator' && peek().text === ')')) {
+      args.push(nest(parseSum));
+      while (peek().type === 'operator' && peek().text === ',') {
+        next();
+        args.push(nest(parseSum));
+      }
+    }
+    expect(')');
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      const expected =
+        fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : String(fn.minArgs);
+      throw new Error(
+        `${name.text}() at position ${name.position + 1} takes ${expected} argument${fn.minArgs === 1 ? '' : 's'}, but got ${args.length}`
+      );
+    }
+    return combine(args, fn.apply);
+  };
+
+  const root = parseSum();
+  if (peek().type !== 'end') {
+    throw new Error(`unexpected ${describe(peek())}`);
+  }
+
+  const evaluate = root.evaluate;
+  return (t: number): number => evaluate(t);
+}
+
+/**
+ * Build a node that applies a function to the values of its operands, folding it
+ * into a constant when every operand is constant.
+ */
+function combine(operands: Node[], apply: (values: number[]) => number): Node {
+  if (operands.every((operand) => operand.constant)) {
+    const value = apply(operands.map((operand) => operand.evaluate(0)));
+    return { evaluate: () => value, constant: true };
+  }
+
+  const evaluators = operands.map((operand) => operand.evaluate);
+  if (evaluators.length === 1) {
+    const [a] = evaluators as [(t: number) => number];
+    return { evaluate: (t) => apply([a(t)]), constant: false };
+  }
+  if (evaluators.length === 2) {
+    const [a, b] = evaluators as [(t: number) => number, (t: number) => number];
+    return { evaluate: (t) => apply([a(t), b(t)]), constant: false };
+  }
+  return {
+    evaluate: (t) => apply(evaluators.map((evaluator) => evaluator(t))),
+    constant: false,
+  };
+}
+
+/**
+ * Split an expression into numbers, names and operators.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const whitespace = /^\s+/.exec(rest);
+    if (whitespace) {
+      position += whitespace[0].length;
+      continue;
+    }
+
+    const number = NUMBER_TOKEN.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position });
+      position += number[0].length;
+      continue;
+    }
+
+    const name = NAME_TOKEN.exec(rest);
+    if (name) {
+      tokens.push({ type: 'name', text: name[0], position });
+      position += name[0].length;
+      continue;
+    }
+
+    const char = rest.charAt(0);
+    if ('+-*/%^(),'.includes(char)) {
+      tokens.push({ type: 'operator', text: char, position });
+      position += 1;
+      continue;
+    }
+
+    throw new Error(
+      `unexpected character "${char}" at position ${position + 1}`
+    );
+  }
+
+  if (tokens.length === 0) {
+    throw new Error('expression is empty');
+  }
+
+  tokens.push({ type: 'end', text: '', position });
+  return tokens;
+}
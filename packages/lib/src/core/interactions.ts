@@ -30,6 +30,8 @@ export class InteractionManager implements IInteractionManager {
   private zones: Map<string, ZoneState> = new Map();
   private canvasManager: CanvasManager;
   private clickHandler: ((event: MouseEvent) => void) | null = null;
+  // Trailing callback arguments: the active segment label, only when segments are configured
+  private segmentArgs: [] | [string] = [];
 
   constructor(canvasManager: CanvasManager) {
     this.canvasManager = canvasManager;
@@ -59,7 +61,9 @@ export class InteractionManager implements IInteractionManager {
    * Update ball position and check for zone interactions
    * This should be called on every frame
    */
-  update(ballPos: Vec2, ballZ: number): void {
+  update(ballPos: Vec2, ballZ: number, segment?: string): void {
+    this.segmentArgs = segment === undefined ? [] : [segment];
+
     this.zones.forEach((state) => {
       const wasInside = state.isInside;
       const isInside = this.hitTest(ballPos, state.zone);
@@ -69,7 +73,7 @@ export class InteractionManager implements IInteractionManager {
         state.isInside = true;
         if (state.zone.onEnter) {
           try {
-            state.zone.onEnter(state.zone);
+            state.zone.onEnter(state.zone, ...this.segmentArgs);
           } catch (error) {
             console.error(`Error in onEnter callback for zone ${state.zone.id}:`, error);
           }
@@ -78,7 +82,7 @@ export class InteractionManager implements IInteractionManager {
         state.isInside = false;
         if (state.zone.onExit) {
           try {
-            state.zone.onExit(state.zone);
+            state.zone.onExit(state.zone, ...this.segmentArgs);
           } catch (error) {
             console.error(`Error in onExit callback for zone ${state.zone.id}:`, error);
           }
@@ -188,7 +192,7 @@ export class InteractionManager implements IInteractionManager {
     if (z1 !== undefined && z0 !== undefined && z2 !== undefined && z1 > z0 && z1 > z2) {
       if (state.zone.onPeak) {
         try {
-          state.zone.onPeak(z1, state.zone);
+          state.zone.onPeak(z1, state.zone, ...this.segmentArgs);
         } catch (error) {
           console.error(`Error in onPeak callback for zone ${state.zone.id}:`, error);
         }
@@ -202,7 +206,7 @@ export class InteractionManager implements IInteractionManager {
     if (z1 !== undefined && z0 !== undefined && z2 !== undefined && z1 < z0 && z1 < z2) {
       if (state.zone.onValley) {
         try {
-          state.zone.onValley(z1, state.zone);
+          state.zone.onValley(z1, state.zone, ...this.segmentArgs);
         } catch (error) {
           console.error(`Error in onValley callback for zone ${state.zone.id}:`, error);
         }
@@ -240,7 +244,7 @@ export class InteractionManager implements IInteractionManager {
       if (this.hitTest(worldPos, state.zone)) {
         if (state.zone.onClick) {
           try {
-            state.zone.onClick(event, state.zone);
+            state.zone.onClick(event, state.zone, ...this.segmentArgs);
           } catch (error) {
             console.error(`Error in onClick callback for zone ${state.zone.id}:`, error);
           }
@@ -0,0 +1,147 @@
+/**
+ * Progress Markers
+ *
+ * Fires marker callbacks when progress passes fixed values, reconstructing the path
+ * travelled between frames so loop wraps and large jumps fire every marker in order.
+ */
+
+import type { MarkerDirection, ProgressMarker } from '../types';
+
+/**
+ * Tracks progress between frames and fires the markers it passes.
+ *
+ * A marker fires when progress arrives at or moves past it: moving forward from a
+ * to b fires markers in (a, b] in ascending order, moving backward fires markers in
+ * [b, a) in descending order. When the iteration changes between frames, the tracker
+ * walks out of each iteration at its boundary and into the next one, so a marker
+ * fires once per pass no matter how many iterations a frame skips. Entering an
+ * iteration at a different boundary than the previous one was left at (a normal
+ * loop wrapping 1 → 0) counts as arriving at the entry point.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new MarkerTracker([{ id: 'cta', at: 0.25, onPass: () => showCta() }]);
+ *
+ * // In render loop
+ * tracker.update(driver.getProgress(), driver.getIteration?.() ?? 0);
+ * ```
+ */
+export class MarkerTracker {
+  /** Markers sorted by position, ties kept in configuration order */
+  private markers: ProgressMarker[] = [];
+  private lastProgress: number | null = null;
+  private lastIteration: number | null = null;
+
+  constructor(markers: ProgressMarker[] = []) {
+    this.setMarkers(markers);
+  }
+
+  /**
+   * Replace the markers without changing the tracked position.
+   */
+  setMarkers(markers: ProgressMarker[]): void {
+    this.markers = [...markers].sort((a, b) => a.at - b.at);
+  }
+
+  /**
+   * Replace the tracked position without firing, e.g. when playback restarts.
+   * Without arguments the position is forgotten and the next update sets it.
+   *
+   * @param progress - Progress to track from
+   * @param iteration - Iteration to track from
+   */
+  reset(progress?: number, iteration: number = 0): void {
+    this.lastProgress = progress ?? null;
+    this.lastIteration = progress === undefined ? null : iteration;
+  }
+
+  /**
+   * Whether a position is being tracked, i.e. the next update can fire markers.
+   */
+  isTracking(): boolean {
+    return this.lastProgress !== null;
+  }
+
+  /**
+   * Keep the tracked progress but forget the iteration, for when the progress
+   * source is swapped and iteration indices are no longer comparable.
+   */
+  rebase(): void {
+    this.lastIteration = null;
+  }
+
+  /**
+   * Record the progress for this frame and fire every marker passed since the last one.
+   *
+   * @param progress - Current progress [0,1]
+   * @param iteration - Current iteration index for looping drivers
+   * @param isIterationReversed - Whether an iteration plays from 1 to 0
+   */
+  update(
+    progress: number,
+    iteration: number = 0,
+    isIterationReversed: (iteration: number) => boolean = () => false
+  ): void {
+    if (this.lastProgress === null) {
+      this.lastProgress = progress;
+      this.lastIteration = iteration;
+      return;
+    }
+
+    const previousIteration = this.lastIteration ?? iteration;
+    const step = iteration > previousIteration ? 1 : -1;
+    let position = this.lastProgress;
+    let includeStart = false;
+
+    for (let i = previousIteration; i !== iteration; i += step) {
+      // Playing forward in time leaves an iteration at its end, backward at its start
+      const leaveAt = step > 0 !== isIterationReversed(i) ? 1 : 0;
+      this.cross(position, leaveAt, includeStart);
+
+      const enterAt = step > 0 !== isIterationReversed(i + step) ? 0 : 1;
+      includeStart = enterAt !== leaveAt;
+      position = enterAt;
+    }
+
+    this.cross(position, progress, includeStart);
+
+    this.lastProgress = progress;
+    this.lastIteration = iteration;
+  }
+
+  /**
+   * Fire markers between two progress values in travel order.
+   *
+   * @param from - Progress at the start of the move
+   * @param to - Progress at the end of the move
+   * @param includeStart - Whether a marker exactly at `from` counts as reached
+   */
+  private cross(from: number, to: number, includeStart: boolean): void {
+    if (to > from || (includeStart && to === from && from === 0)) {
+      for (const marker of this.markers) {
+        if ((marker.at > from || (includeStart && marker.at === from)) && marker.at <= to) {
+          this.fire(marker, 'forward');
+        }
+      }
+    } else if (to < from || includeStart) {
+      for (let i = this.markers.length - 1; i >= 0; i--) {
+        const marker = this.markers[i];
+        if (marker && (marker.at < from || (includeStart && marker.at === from)) && marker.at >= to) {
+          this.fire(marker, 'backward');
+        }
+      }
+    }
+  }
+
+  private fire(marker: ProgressMarker, direction: MarkerDirection): void {
+    if (!marker.onPass) {
+      return;
+    }
+
+    try {
+      marker.onPass(marker, direction);
+    } catch (error) {
+      console.error(`Error in onPass callback for marker ${marker.id}:`, error);
+    }
+  }
+}
@@ -5,10 +5,14 @@
  * and provides drawing functions for the ball and shadow.
  */
 
+import { browserClock } from './clock';
+import type { MarkerTracker } from './markers';
 import type {
   CanvasManager,
+  Clock,
   ProgressDriver,
   CurveFn,
+  HeightSource,
   ShadowCalculator,
   BallState,
   Vec3,
@@ -31,12 +35,18 @@ export interface RendererConfig {
   /** Curve function for Z height */
   curveFn: CurveFn;
   
+  /** Height source that replaces curveFn output when present (e.g. audio level) */
+  heightSource?: HeightSource;
+  
   /** Path function for X position */
   pathX: CurveFn;
   
   /** Path function for Y position */
   pathY: CurveFn;
   
+  /** Label of the timeline segment active at progress t (when segments are configured) */
+  segmentLabelAt?: (t: number) => string;
+  
   /** Shadow calculator */
   shadowCalculator: ShadowCalculator;
   
@@ -54,6 +64,15 @@ export interface RendererConfig {
   
   /** Interaction manager for zone updates (optional) */
   interactionManager?: InteractionManager;
+  
+  /** Marker tracker fed with each frame's progress (optional) */
+  markerTracker?: MarkerTracker;
+  
+  /** Called with the new ball state after every update (optional) */
+  onUpdate?: (state: BallState) => void;
+  
+  /** Time source and frame scheduler (defaults to the browser clock) */
+  clock?: Clock;
 }
 
 /**
@@ -92,8 +111,11 @@ export interface PerformanceStats {
  */
 export class Renderer {
   private config: RendererConfig;
+  private clock: Clock;
   private rafId: number | null = null;
   private isRunning: boolean = false;
+  /** Loop stopped, but changes are still drawn (see hold()) */
+  private isHeld: boolean = false;
   private lastTimestamp: number = 0;
   private frameCount: number = 0;
   private frameTimes: number[] = [];
@@ -102,6 +124,7 @@ export class Renderer {
   
   constructor(config: RendererConfig) {
     this.config = config;
+    this.clock = config.clock ?? browserClock;
   }
   
   /**
@@ -112,25 +135,52 @@ export class Renderer {
       return;
     }
     
+    this.cancelFrame();
+    this.isHeld = false;
     this.isRunning = true;
-    this.lastTimestamp = performance.now();
-    this.rafId = requestAnimationFrame(this.tick);
+    this.lastTimestamp = this.clock.now();
+    this.rafId = this.clock.requestFrame(this.tick);
   }
   
   /**
    * Stop the render loop.
    */
   stop(): void {
-    if (!this.isRunning) {
+    this.isHeld = false;
+    if (!this.isRunning && this.rafId === null) {
       return;
     }
     
     this.isRunning = false;
+    this.cancelFrame();
+  }
+  
+  /**
+   * Stop the render loop while nothing moves, but keep the canvas current: one
+   * frame is drawn now, and another after each change made through the setters
+   * or invalidate(). start() resumes the loop.
+   */
+  hold(): void {
+    if (this.isHeld) {
+      return;
+    }
     
-    if (this.rafId !== null) {
-      cancelAnimationFrame(this.rafId);
-      this.rafId = null;
+    this.isRunning = false;
+    this.cancelFrame();
+    this.isHeld = true;
+    this.invalidate();
+  }
+  
+  /**
+   * Draw one frame at the next clock frame while held, e.g. after a seek.
+   * Does nothing while the loop runs, since the next frame is drawn anyway.
+   */
+  invalidate(): void {
+    if (!this.isHeld || this.rafId !== null) {
+      return;
     }
+    
+    this.rafId = this.clock.requestFrame(this.drawHeldFrame);
   }
   
   /**
@@ -162,6 +212,30 @@ export class Renderer {
    */
   setDebug(enabled: boolean): void {
     this.config.debug = enabled;
+    this.invalidate();
+  }
+  
+  /**
+   * Replace the progress driver.
+   * The caller owns both drivers' lifecycles; the next frame reads the new driver.
+   */
+  setDriver(driver: ProgressDriver): void {
+    this.config.driver = driver;
+    // Iterations of different drivers are unrelated; only progress carries over
+    this.config.markerTracker?.rebase();
+    this.invalidate();
+  }
+  
+  /**
+   * Replace the height curve and path functions.
+   * The next frame evaluates the new functions at the current progress.
+   */
+  setCurves(curves: Pick<RendererConfig, 'curveFn' | 'pathX' | 'pathY' | 'segmentLabelAt'>): void {
+    this.config.curveFn = curves.curveFn;
+    this.config.pathX = curves.pathX;
+    this.config.pathY = curves.pathY;
+    this.config.segmentLabelAt = curves.segmentLabelAt;
+    this.invalidate();
   }
   
   /**
@@ -169,6 +243,7 @@ export class Renderer {
    */
   setLight(light: LightSource): void {
     this.config.light = light;
+    this.invalidate();
   }
   
   /**
@@ -176,6 +251,7 @@ export class Renderer {
    */
   setBallStyle(ballStyle: Required<BallStyle>): void {
     this.config.ballStyle = ballStyle;
+    this.invalidate();
   }
   
   /**
@@ -183,6 +259,7 @@ export class Renderer {
    */
   setShadowCalculator(shadowCalculator: ShadowCalculator): void {
     this.config.shadowCalculator = shadowCalculator;
+    this.invalidate();
   }
   
   /**
@@ -190,6 +267,7 @@ export class Renderer {
    */
   setZones(zones: InteractiveZone[]): void {
     this.config.zones = zones;
+    this.invalidate();
   }
   
   /**
@@ -201,6 +279,26 @@ export class Renderer {
     this.currentState = null;
   }
   
+  private cancelFrame(): void {
+    if (this.rafId !== null) {
+      this.clock.cancelFrame(this.rafId);
+      this.rafId = null;
+    }
+  }
+  
+  /**
+   * Draw a single frame while held, without scheduling another.
+   */
+  private drawHeldFrame = (): void => {
+    this.rafId = null;
+    if (!this.isHeld) {
+      return;
+    }
+    
+    this.update();
+    this.draw();
+  };
+  
   /**
    * Main render loop tick function.
    */
@@ -234,25 +332,34 @@ export class Renderer {
     
     // Schedule next frame
     this.frameCount++;
-    this.rafId = requestAnimationFrame(this.tick);
+    this.rafId = this.clock.requestFrame(this.tick);
   };
   
   /**
    * Update ball state based on current progress.
    * Implements: get progress → compute curve → calculate position
+   * For two-axis drivers, pathX and pathY each receive their own axis progress.
    */
   private update(): void {
-    const { driver, curveFn, pathX, pathY, shadowCalculator, light, ballStyle, interactionManager } = this.config;
+    const { driver, curveFn, heightSource, pathX, pathY, segmentLabelAt, shadowCalculator, light, ballStyle, interactionManager, markerTracker } = this.config;
     
-    // Get current progress from driver
-    const t = driver.getProgress();
+    // Get current progress from driver (smoothed, if the driver smooths its output)
+    const t = driver.getRenderProgress?.() ?? driver.getProgress();
+    
+    // Two-axis drivers provide independent progress for each path function
+    const progressVector =
+      driver.getRenderProgressVector?.() ?? driver.getProgressVector?.() ?? null;
     
     // Compute position using path functions
-    const x = pathX(t);
-    const y = pathY(t);
+    const x = pathX(progressVector ? progressVector.x : t);
+    const y = pathY(progressVector ? progressVector.y : t);
+    
+    // Compute height using the height source if present, otherwise the curve function,
+    // which also gets the position so keypoint curves can follow the actual path
+    const z = heightSource ? heightSource.getHeight() : curveFn(t, { x, y });
     
-    // Compute height using curve function
-    const z = curveFn(t);
+    // Active segment follows overall progress, like the height curve
+    const segment = segmentLabelAt?.(t);
     
     // Calculate ball radius based on height
     // Radius increases with height to simulate perspective
@@ -271,12 +378,24 @@ export class Renderer {
       z,
       radius,
       shadow,
+      segment,
     };
     
     // Update interaction manager with current ball position
     if (interactionManager) {
-      interactionManager.update({ x, y }, z);
+      interactionManager.update({ x, y }, z, segment);
+    }
+    
+    // Fire markers passed since the previous frame, following loop wraps
+    if (markerTracker) {
+      markerTracker.update(
+        t,
+        driver.getIteration?.() ?? 0,
+        (iteration) => driver.isIterationReversed?.(iteration) ?? false
+      );
     }
+    
+    this.config.onUpdate?.(this.currentState);
   }
   
   /**
@@ -0,0 +1,220 @@
+/**
+ * Multi-Segment Timeline
+ *
+ * Splits overall progress into consecutive segments and stitches each segment's
+ * height curve and path functions into single curve functions the renderer can use.
+ */
+
+import { getCurvePreset, createCustomCurveAdapter, createKeypointCurve } from './curves';
+import { resolveCurveSource } from './expression';
+import type { CurveFn, KeypointInterpolation, TimelineSegment, Vec2 } from '../types';
+
+/**
+ * Largest jump between neighbouring segments, in normalized world units,
+ * that is still treated as continuous.
+ */
+export const SEGMENT_CONTINUITY_TOLERANCE = 0.01;
+
+/**
+ * Curve and path functions used where a segment does not define its own.
+ * They receive overall progress rather than segment progress.
+ */
+export interface SegmentFallback {
+  curveFn: CurveFn;
+  pathX: CurveFn;
+  pathY: CurveFn;
+
+  /**
+   * Oscillation for segment keypoints, given local progress.
+   * @default (t) => t
+   */
+  keypointOscillation?: CurveFn;
+
+  /**
+   * Interpolation for segment keypoints.
+   * @default 'catmull-rom'
+   */
+  keypointInterpolation?: KeypointInterpolation;
+}
+
+/**
+ * Stitched timeline produced by createSegmentTimeline().
+ * All functions take overall progress t in [0,1].
+ */
+export interface SegmentTimeline {
+  /** Height over overall progress, given the ball's position for keypoint segments */
+  curveFn: CurveFn;
+
+  /** Horizontal position over overall progress */
+  pathX: CurveFn;
+
+  /** Vertical position over overall progress */
+  pathY: CurveFn;
+
+  /** Label of the segment active at overall progress t */
+  labelAt: (t: number) => string;
+}
+
+/**
+ * Segment with its progress range resolved and its curve compiled
+ */
+interface CompiledSegment {
+  label: string;
+  start: number;
+  end: number;
+  easing: CurveFn;
+  curveFn: CurveFn | null;
+  pathX: CurveFn | null;
+  pathY: CurveFn | null;
+}
+
+type Channel = 'curveFn' | 'pathX' | 'pathY';
+
+const CHANNEL_NAMES: Record<Channel, string> = {
+  curveFn: 'z',
+  pathX: 'x',
+  pathY: 'y',
+};
+
+/**
+ * Build the height curve a segment defines, using the same priority as the
+ * top-level config: keypoints, then customCurve, then curvePreset.
+ */
+function compileSegmentCurve(segment: TimelineSegment, fallback: SegmentFallback): CurveFn | null {
+  if (segment.keypoints && segment.keypoints.length > 0) {
+    return createKeypointCurve(segment.keypoints, {
+      oscillation: fallback.keypointOscillation,
+      interpolation: fallback.keypointInterpolation,
+    });
+  }
+  if (segment.customCurve) {
+    return createCustomCurveAdapter(resolveCurveSource(segment.customCurve));
+  }
+  if (segment.curvePreset) {
+    return getCurvePreset(segment.curvePreset);
+  }
+  return null;
+}
+
+/**
+ * Stitch segments into one timeline.
+ *
+ * Each segment covers a slice of overall progress proportional to its share.
+ * Inside a slice, local progress [0,1] passes through the segment's easing and then
+ * its curve and path functions. Where neighbouring segments do not meet within
+ * SEGMENT_CONTINUITY_TOLERANCE, a warning names the boundary and the size of the jump.
+ *
+ * @param segments - Segments in playback order (at least one)
+ * @param fallback - Functions used for fields a segment omits
+ * @returns Stitched curve and path functions plus a label lookup
+ *
+ * @example
+ * ```typescript
+ * const timeline = createSegmentTimeline(
+ *   [
+ *     { label: 'drop', customCurve: (t) => 1 - t * t },
+ *     { label: 'roll', customCurve: () => 0 }
+ *   ],
+ *   { curveFn: linear, pathX: () => 0.5, pathY: (t) => t }
+ * );
+ *
+ * timeline.curveFn(0.25); // 0.75
+ * timeline.labelAt(0.75); // 'roll'
+ * ```
+ */
+export function createSegmentTimeline(
+  segments: TimelineSegment[],
+  fallback: SegmentFallback
+): SegmentTimeline {
+  const totalShare = segments.reduce((sum, segment) => sum + (segment.share ?? 1), 0);
+
+  let cursor = 0;
+  const compiled: CompiledSegment[] = segments.map((segment, index) => {
+    const start = cursor;
+    // Pin the last segment to 1 so rounding never leaves a gap at the end
+    const end = index === segments.length - 1 ? 1 : start + (segment.share ?? 1) / totalShare;
+    cursor = end;
+
+    return {
+      label: segment.label,
+      start,
+      end,
+      easing: segment.easing ?? ((t: number) => t),
+      curveFn: compileSegmentCurve(segment, fallback),
+      pathX: segment.pathX !== undefined ? resolveCurveSource(segment.pathX) : null,
+      pathY: segment.pathY !== undefined ? resolveCurveSource(segment.pathY) : null,
+    };
+  });
+
+  const segmentAt = (t: number): CompiledSegment => {
+    const clamped = Math.max(0, Math.min(1, t));
+    // A boundary belongs to the segment that starts there
+    const found = compiled.find((segment) => clamped < segment.end);
+    return found ?? (compiled[compiled.length - 1] as CompiledSegment);
+  };
+
+  // Only height curves use the position; path functions ignore it
+  const evaluate = (
+    segment: CompiledSegment,
+    channel: Channel,
+    localT: number,
+    t: number,
+    position?: Vec2
+  ): number => {
+    const fn = segment[channel];
+    return fn ? fn(segment.easing(localT), position) : fallback[channel](t, position);
+  };
+
+  const stitch = (channel: Channel): CurveFn => (t: number, position?: Vec2): number => {
+    const segment = segmentAt(t);
+    const span = segment.end - segment.start;
+    const localT = span > 0 ? (Math.max(0, Math.min(1, t)) - segment.start) / span : 0;
+    return evaluate(segment, channel, localT, t, position);
+  };
+
+  checkContinuity(compiled, evaluate);
+
+  return {
+    curveFn: stitch('curveFn'),
+    pathX: stitch('pathX'),
+    pathY: stitch('pathY'),
+    labelAt: (t: number) => segmentAt(t).label,
+  };
+}
+
+/**
+ * Warn about boundaries where the outgoing segment's last frame and the incoming
+ * segment's first frame differ in height or position.
+ */
+function checkContinuity(
+  compiled: CompiledSegment[],
+  evaluate: (segment: CompiledSegment, channel: Channel, localT: number, t: number, position?: Vec2) => number
+): void {
+  for (let i = 0; i < compiled.length - 1; i++) {
+    const outgoing = compiled[i];
+    const incoming = compiled[i + 1];
+    if (!outgoing || !incoming) continue;
+
+    const boundary = outgoing.end;
+    // Height curves see the position each side's own paths put the ball at
+    const positionAt = (segment: CompiledSegment, localT: number): Vec2 => ({
+      x: evaluate(segment, 'pathX', localT, boundary),
+      y: evaluate(segment, 'pathY', localT, boundary),
+    });
+    const outgoingPosition = positionAt(outgoing, 1);
+    const incomingPosition = positionAt(incoming, 0);
+
+    for (const channel of ['curveFn', 'pathX', 'pathY'] as const) {
+      const from = evaluate(outgoing, channel, 1, boundary, outgoingPosition);
+      const to = evaluate(incoming, channel, 0, boundary, incomingPosition);
+
+      if (Math.abs(to - from) > SEGMENT_CONTINUITY_TOLERANCE) {
+        const name = CHANNEL_NAMES[channel];
+        console.warn(
+          `[Ball Animation] Segments "${outgoing.label}" and "${incoming.label}" do not meet at progress ${boundary.toFixed(3)}: ` +
+            `${name} jumps from ${from.toFixed(3)} to ${to.toFixed(3)}. Adjust the curves so the ball does not teleport.`
+        );
+      }
+    }
+  }
+}
@@ -1,11 +1,24 @@
 /**
  * Timeline Module - Progress Drivers
  * 
- * This module provides progress drivers that map external inputs (time or scroll)
- * to normalized progress values [0,1] for driving animations.
+ * This module provides progress drivers that map external inputs (time, scroll,
+ * viewport position, pointer, media playback or manual control) to normalized
+ * progress values [0,1] for driving animations.
  */
 
-import type { ProgressDriver } from '../types';
+import { browserClock } from './clock';
+import type {
+  Clock,
+  PlaybackDirection,
+  PointerHeightSource,
+  ProgressDriver,
+  ScrollAxis,
+  ScrollOffset,
+  ScrollSmoothing,
+  TimeDriverState,
+  Vec2,
+  ViewOffset,
+} from '../types';
 
 /**
  * Configuration options for TimeDriver
@@ -21,35 +34,100 @@ export interface TimeDriverConfig {
    * - number: Loop N times
    */
   loop?: boolean | number;
+  
+  /**
+   * Speed multiplier. Negative values play the timeline backwards from its end.
+   * @default 1
+   */
+  playbackRate?: number;
+  
+  /**
+   * Direction of each iteration.
+   * @default 'normal'
+   */
+  direction?: PlaybackDirection;
+  
+  /**
+   * Wait before the first iteration starts, in milliseconds.
+   * @default 0
+   */
+  delayMs?: number;
+  
+  /**
+   * Hold at the end of each iteration before the next one starts, in milliseconds.
+   * @default 0
+   */
+  endDelayMs?: number;
+  
+  /**
+   * Time source and frame scheduler.
+   * @default browser clock
+   */
+  clock?: Clock;
+  
+  /**
+   * Called when playback moves into another iteration, once per iteration boundary.
+   * Seeking does not count as looping.
+   * @param iteration - Index of the iteration that was entered
+   */
+  onLoop?: (iteration: number) => void;
+  
+  /**
+   * Called when playback reaches either end of the timeline, including by seeking.
+   */
+  onComplete?: () => void;
 }
 
 /**
  * Time-based progress driver that uses requestAnimationFrame for smooth animations.
  * Tracks elapsed time and maps it to normalized progress [0,1].
  * 
+ * The driver keeps a single position on its timeline: the delay, followed by one
+ * cycle per iteration, each made of durationMs of motion and endDelayMs of hold.
+ * The position advances by wall-clock time multiplied by the playback rate, so the
+ * rate can change mid-animation without a jump, and seeking simply moves the
+ * position. With direction 'alternate', odd iterations play in reverse.
+ * 
  * @example
  * ```typescript
- * const driver = new TimeDriver({ durationMs: 3000, loop: true });
+ * const driver = new TimeDriver({ durationMs: 3000, loop: true, direction: 'alternate' });
  * driver.start();
  * 
  * // In render loop
- * const progress = driver.getProgress(); // 0 to 1
+ * const progress = driver.getProgress(); // 0 to 1 and back
  * ```
  */
 export class TimeDriver implements ProgressDriver {
+  private clock: Clock;
   private durationMs: number;
   private loop: boolean | number;
-  private elapsedMs: number = 0;
-  private startTime: number | null = null;
-  private pausedTime: number | null = null;
+  private playbackRate: number;
+  private direction: PlaybackDirection;
+  private delayMs: number;
+  private endDelayMs: number;
+  /** Position on the timeline in milliseconds, including the delay */
+  private timeMs: number = 0;
+  private lastTime: number | null = null;
   private rafId: number | null = null;
   private isRunning: boolean = false;
   private isPaused: boolean = false;
+  private isComplete: boolean = false;
   private completedLoops: number = 0;
+  /** Cycles skipped by wrapping an infinite loop that plays backwards */
+  private wrappedLoops: number = 0;
+  private onLoop: ((iteration: number) => void) | undefined;
+  private onComplete: (() => void) | undefined;
   
   constructor(config: TimeDriverConfig) {
+    this.clock = config.clock ?? browserClock;
     this.durationMs = config.durationMs;
     this.loop = config.loop ?? false;
+    this.playbackRate = config.playbackRate ?? 1;
+    this.direction = config.direction ?? 'normal';
+    this.delayMs = config.delayMs ?? 0;
+    this.endDelayMs = config.endDelayMs ?? 0;
+    this.onLoop = config.onLoop;
+    this.onComplete = config.onComplete;
   }
   
   /**
@@ -68,9 +146,20 @@ export class TimeDriver implements ProgressDriver {
     
     this.isRunning = true;
     this.isPaused = false;
-    this.startTime = performance.now();
-    this.elapsedMs = 0;
-    this.completedLoops = 0;
+    this.isComplete = false;
+    this.wrappedLoops = 0;
+    this.lastTime = this.clock.now();
+    
+    // Backwards playback starts at the end of the timeline
+    if (this.playbackRate < 0) {
+      const endTime = this.getEndTime();
+      // An infinite loop has no end, so start at the end of the first iteration
+      this.timeMs = Number.isFinite(endTime) ? endTime : this.delayMs + this.durationMs;
+    } else {
+      this.timeMs = 0;
+    }
+    
+    this.settle();
     this.tick();
   }
   
@@ -80,15 +169,12 @@ export class TimeDriver implements ProgressDriver {
   stop(): void {
     this.isRunning = false;
     this.isPaused = false;
-    this.elapsedMs = 0;
-    this.startTime = null;
-    this.pausedTime = null;
+    this.isComplete = false;
+    this.timeMs = 0;
+    this.lastTime = null;
     this.completedLoops = 0;
-    
-    if (this.rafId !== null) {
-      cancelAnimationFrame(this.rafId);
-      this.rafId = null;
-    }
+    this.wrappedLoops = 0;
+    this.cancelFrame();
   }
   
   /**
@@ -99,13 +185,14 @@ export class TimeDriver implements ProgressDriver {
       return;
     }
     
-    this.isPaused = true;
-    this.pausedTime = performance.now();
-    
-    if (this.rafId !== null) {
-      cancelAnimationFrame(this.rafId);
-      this.rafId = null;
+    // Bank the time played so far before freezing
+    this.advance(this.clock.now());
+    if (!this.isRunning) {
+      return; // Completed while catching up
     }
+    
+    this.isPaused = true;
+    this.cancelFrame();
   }
   
   /**
@@ -118,37 +205,151 @@ export class TimeDriver implements ProgressDriver {
     
     this.isPaused = false;
     
-    // Adjust start time to account for pause duration
-    if (this.pausedTime !== null && this.startTime !== null) {
-      const pauseDuration = performance.now() - this.pausedTime;
-      this.startTime += pauseDuration;
+    // Time spent paused does not count towards elapsed time
+    this.lastTime = this.clock.now();
+    this.tick();
+  }
+  
+  /**
+   * Move to a position on the timeline.
+   * Works while playing or paused. When idle or complete, the driver holds the new
+   * position in a paused state so that start() continues from it.
+   * @param ms - Time since the start, including delayMs, clamped to the timeline
+   */
+  seek(ms: number): void {
+    this.wrappedLoops = 0;
+    this.moveTo(ms);
+  }
+  
+  /**
+   * Move to a progress value within the current iteration, skipping any delay.
+   * In reversed iterations the position is mirrored so getProgress() returns the
+   * requested value.
+   * @param progress - Progress in [0,1]
+   * @param iteration - Iteration to move into instead of the current one, clamped
+   * to the iterations this driver plays
+   */
+  seekProgress(progress: number, iteration?: number): void {
+    const clamped = Math.max(0, Math.min(1, progress));
+    if (iteration !== undefined) {
+      this.wrappedLoops = 0;
     }
+    const target = iteration === undefined
+      ? this.getIterationPosition().iteration
+      : Math.max(0, Math.min(iteration, this.getIterationCount() - 1));
+    const iterationProgress = this.isIterationReversed(target) ? 1 - clamped : clamped;
     
-    this.pausedTime = null;
-    this.tick();
+    this.moveTo(
+      this.delayMs +
+      (target + this.wrappedLoops) * this.getCycleMs() +
+      iterationProgress * this.durationMs
+    );
+  }
+  
+  /**
+   * Change the playback rate without a jump in progress.
+   * Negative rates play the timeline backwards.
+   * @param rate - Speed multiplier
+   */
+  setPlaybackRate(rate: number): void {
+    if (this.isRunning && !this.isPaused) {
+      // Bank the time played at the old rate
+      this.advance(this.clock.now());
+    }
+    
+    this.playbackRate = rate;
+  }
+  
+  /**
+   * Get the current playback rate.
+   */
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+  
+  /**
+   * Get the number of iterations completed so far.
+   * Equals the loop count once the animation is complete.
+   */
+  getCompletedLoops(): number {
+    return this.completedLoops;
+  }
+  
+  /**
+   * Get the index of the current iteration.
+   * Negative when an infinite loop has wrapped backwards past its first iteration.
+   */
+  getIteration(): number {
+    return this.getIterationPosition().iteration;
+  }
+  
+  /**
+   * Whether an iteration maps elapsed time to progress in reverse.
+   */
+  isIterationReversed(iteration: number): boolean {
+    if (this.direction === 'reverse') {
+      return true;
+    }
+    
+    if (this.direction === 'alternate') {
+      // Iterations before the first one can be negative when wrapping backwards
+      return Math.abs(iteration % 2) === 1;
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Whether the animation has reached the end of its timeline.
+   */
+  isFinished(): boolean {
+    return this.isComplete;
+  }
+  
+  /**
+   * Capture the timeline position and playback rate.
+   */
+  getState(): TimeDriverState {
+    if (this.isRunning && !this.isPaused) {
+      this.advance(this.clock.now());
+    }
+    
+    return {
+      timeMs: this.timeMs,
+      playbackRate: this.playbackRate,
+      wrappedLoops: this.wrappedLoops,
+    };
+  }
+  
+  /**
+   * Move to a captured position. Like seek(), an idle driver holds the position in
+   * a paused state, and a position at the end of the timeline completes the animation.
+   * @param state - State returned by getState()
+   */
+  restoreState(state: TimeDriverState): void {
+    this.setPlaybackRate(state.playbackRate);
+    this.wrappedLoops = state.wrappedLoops;
+    this.moveTo(state.timeMs);
   }
   
   /**
    * Get the current progress value [0,1].
    */
   getProgress(): number {
-    if (!this.isRunning) {
+    if (!this.isRunning && !this.isComplete) {
       return 0;
     }
     
-    if (this.isPaused) {
-      // Return progress at pause time
-      return Math.min(this.elapsedMs / this.durationMs, 1);
+    if (this.isRunning && !this.isPaused) {
+      // Update elapsed time based on current time
+      this.advance(this.clock.now());
     }
     
-    // Update elapsed time based on current time
-    if (this.startTime !== null) {
-      this.elapsedMs = performance.now() - this.startTime;
-    }
+    const { iteration, localMs } = this.getIterationPosition();
     
-    // Calculate progress based on elapsed time
-    const progress = this.elapsedMs / this.durationMs;
-    return Math.min(progress, 1);
+    // The end delay holds the end of the iteration
+    const iterationProgress = Math.min(localMs, this.durationMs) / this.durationMs;
+    return this.isIterationReversed(iteration) ? 1 - iterationProgress : iterationProgress;
   }
   
   /**
@@ -161,60 +362,239 @@ export class TimeDriver implements ProgressDriver {
   /**
    * Internal tick function called by requestAnimationFrame.
    */
-  private tick = (timestamp?: number): void => {
+  private tick = (): void => {
     if (!this.isRunning || this.isPaused) {
       return;
     }
     
-    const now = timestamp ?? performance.now();
-    
-    if (this.startTime === null) {
-      this.startTime = now;
-    }
-    
-    this.elapsedMs = now - this.startTime;
-    
-    // Check if we've completed a cycle
-    if (this.elapsedMs >= this.durationMs) {
-      this.completedLoops++;
-      
-      // Determine if we should loop
-      const shouldLoop = this.shouldContinueLooping();
-      
-      if (shouldLoop) {
-        // Reset for next loop
-        this.startTime = now;
-        this.elapsedMs = 0;
-      } else {
-        // Animation complete
-        this.elapsedMs = this.durationMs;
-        this.isRunning = false;
-        
-        if (this.rafId !== null) {
-          cancelAnimationFrame(this.rafId);
-          this.rafId = null;
-        }
-        return;
-      }
+    this.advance(this.clock.now());
+    
+    if (!this.isRunning) {
+      return; // Animation complete
     }
     
     // Schedule next frame
-    this.rafId = requestAnimationFrame(this.tick);
+    this.rafId = this.clock.requestFrame(this.tick);
   };
   
+  private cancelFrame(): void {
+    if (this.rafId !== null) {
+      this.clock.cancelFrame(this.rafId);
+      this.rafId = null;
+    }
+  }
+  
+  /**
+   * Set the timeline position, entering a paused state if the driver was idle.
+   */
+  private moveTo(ms: number): void {
+    const wasComplete = this.isComplete;
+    this.timeMs = Math.max(0, Math.min(ms, this.getEndTime()));
+    this.lastTime = this.clock.now();
+    
+    if (!this.isRunning) {
+      this.isRunning = true;
+      this.isPaused = true;
+      this.isComplete = false;
+    }
+    
+    this.settle();
+    
+    if (this.isComplete && !wasComplete) {
+      this.onComplete?.();
+    }
+  }
+  
+  /**
+   * Advance the timeline position to the given wall-clock time.
+   */
+  private advance(now: number): void {
+    if (this.lastTime === null) {
+      this.lastTime = now;
+    }
+    
+    // Ignore timestamps that are older than the last update
+    const deltaMs = Math.max(0, now - this.lastTime);
+    this.lastTime = Math.max(this.lastTime, now);
+    
+    const wasComplete = this.isComplete;
+    const iterationBefore = this.getIteration();
+    this.timeMs += deltaMs * this.playbackRate;
+    this.settle();
+    
+    // Report every iteration boundary crossed, then completion
+    const iterationAfter = this.getIteration();
+    if (this.onLoop && iterationAfter !== iterationBefore) {
+      const step = iterationAfter > iterationBefore ? 1 : -1;
+      for (let iteration = iterationBefore + step; iteration !== iterationAfter + step; iteration += step) {
+        this.onLoop(iteration);
+      }
+    }
+    
+    if (this.isComplete && !wasComplete) {
+      this.onComplete?.();
+    }
+  }
+  
+  /**
+   * Complete the animation at either end of the timeline, wrap infinite loops
+   * that play backwards, and update the completed loop count.
+   */
+  private settle(): void {
+    const endTime = this.getEndTime();
+    const cycleMs = this.getCycleMs();
+    
+    if (this.playbackRate >= 0 && this.timeMs >= endTime) {
+      this.timeMs = endTime;
+      this.complete();
+    } else if (this.playbackRate < 0 && Number.isFinite(endTime) && this.timeMs <= 0) {
+      this.timeMs = 0;
+      this.complete();
+    } else if (this.playbackRate < 0 && !Number.isFinite(endTime) && this.timeMs < this.delayMs) {
+      // An infinite loop has no start to return to, so keep cycling backwards
+      const wraps = Math.ceil((this.delayMs - this.timeMs) / cycleMs);
+      this.timeMs += wraps * cycleMs;
+      this.wrappedLoops += wraps;
+    }
+    
+    // Wrapping backwards never un-completes more iterations than were played
+    const activeMs = this.timeMs - this.delayMs;
+    this.completedLoops = activeMs < 0
+      ? 0
+      : Math.max(0, Math.min(Math.floor(activeMs / cycleMs), this.getIterationCount()) - this.wrappedLoops);
+  }
+  
+  /**
+   * Hold the final position and stop ticking.
+   */
+  private complete(): void {
+    this.isRunning = false;
+    this.isPaused = false;
+    this.isComplete = true;
+    this.cancelFrame();
+  }
+  
+  /**
+   * Current iteration and time within it. During the delay this is the start of
+   * the first iteration; at the very end it is the end of the last iteration.
+   * Playing backwards enters each iteration at its end, so a boundary between two
+   * iterations belongs to the earlier one.
+   */
+  private getIterationPosition(): { iteration: number; localMs: number } {
+    const cycleMs = this.getCycleMs();
+    const activeMs = Math.max(0, this.timeMs - this.delayMs);
+    let iteration = Math.floor(activeMs / cycleMs);
+    if (this.playbackRate < 0 && iteration > 0 && activeMs === iteration * cycleMs) {
+      iteration -= 1;
+    }
+    iteration = Math.min(iteration, this.getIterationCount() - 1);
+    
+    return {
+      iteration: iteration - this.wrappedLoops,
+      localMs: activeMs - iteration * cycleMs,
+    };
+  }
+  
+  /**
+   * Length of one iteration including its end delay.
+   */
+  private getCycleMs(): number {
+    return this.durationMs + this.endDelayMs;
+  }
+  
   /**
-   * Determine if the animation should continue looping.
+   * Total number of iterations; Infinity for infinite loops.
    */
-  private shouldContinueLooping(): boolean {
+  private getIterationCount(): number {
     if (this.loop === true) {
-      return true; // Infinite loop
+      return Infinity; // Infinite loop
     }
     
     if (typeof this.loop === 'number') {
-      return this.completedLoops < this.loop;
+      return Math.max(1, this.loop);
+    }
+    
+    return 1; // No looping
+  }
+  
+  /**
+   * Timeline position where the last iteration and its end delay finish.
+   */
+  private getEndTime(): number {
+    return this.delayMs + this.getIterationCount() * this.getCycleMs();
+  }
+}
+
+/**
+ * Eases a progress value toward a moving target.
+ * Supports frame-rate independent lerp and a critically damped spring.
+ * 
+ * @example
+ * ```typescript
+ * const smoother = new ProgressSmoother({ type: 'spring', stiffness: 170 });
+ * smoother.reset(0);
+ * const settled = smoother.step(1, 16); // advance one frame toward 1
+ * ```
+ */
+export class ProgressSmoother {
+  /** Current smoothed value */
+  value: number = 0;
+  private velocity: number = 0;
+  private smoothing: ScrollSmoothing;
+  
+  /** Distance (and velocity per second) below which the value snaps to its target */
+  private readonly SETTLE_THRESHOLD = 0.0005;
+  
+  /** Default spring stiffness, critically damped */
+  static readonly DEFAULT_STIFFNESS = 170;
+  
+  constructor(smoothing: ScrollSmoothing) {
+    this.smoothing = smoothing;
+  }
+  
+  /**
+   * Jump to a value immediately, discarding any motion.
+   */
+  reset(value: number): void {
+    this.value = value;
+    this.velocity = 0;
+  }
+  
+  /**
+   * Advance the smoothed value toward the target.
+   * 
+   * @param target - Value to ease toward
+   * @param dtMs - Elapsed time since the previous step in milliseconds
+   * @returns true once the value has settled on the target
+   */
+  step(target: number, dtMs: number): boolean {
+    // Clamp long frames (e.g. after a background tab) so the spring stays stable
+    const dt = Math.min(Math.max(dtMs, 0), 100) / 1000;
+    
+    if (this.smoothing.type === 'lerp') {
+      // Express the per-frame factor at 60fps as a time-based decay
+      const alpha = 1 - Math.pow(1 - this.smoothing.factor, dt * 60);
+      this.value += (target - this.value) * alpha;
+    } else {
+      // Critically damped spring: x'' = -k(x - target) - 2√k x'
+      const stiffness = this.smoothing.stiffness ?? ProgressSmoother.DEFAULT_STIFFNESS;
+      const omega = Math.sqrt(stiffness);
+      const offset = this.value - target;
+      const decay = Math.exp(-omega * dt);
+      const c = this.velocity + omega * offset;
+      this.value = target + (offset + c * dt) * decay;
+      this.velocity = (c - omega * (offset + c * dt)) * decay;
+    }
+    
+    if (
+      Math.abs(target - this.value) < this.SETTLE_THRESHOLD &&
+      Math.abs(this.velocity) < this.SETTLE_THRESHOLD
+    ) {
+      this.reset(target);
+      return true;
     }
     
-    return false; // No looping
+    return false;
   }
 }
 
@@ -224,12 +604,51 @@ export class TimeDriver implements ProgressDriver {
 export interface ScrollDriverConfig {
   /** The scrollable element to track (e.g., document.scrollingElement) */
   scrollTarget: HTMLElement | null;
+  
+  /**
+   * Scroll position where progress starts (pixels, percentage or element).
+   * @default 0
+   */
+  scrollStart?: ScrollOffset;
+  
+  /**
+   * Scroll position where progress ends (pixels, percentage or element).
+   * @default '100%'
+   */
+  scrollEnd?: ScrollOffset;
+  
+  /**
+   * Scroll axis to track.
+   * - 'y': scrollTop (default)
+   * - 'x': scrollLeft
+   * - 'both': both axes independently, exposed through getProgressVector()
+   * @default 'y'
+   */
+  axis?: ScrollAxis;
+  
+  /**
+   * Ease the render progress toward the scroll position on a dedicated
+   * requestAnimationFrame loop. getProgress() still returns the raw value.
+   */
+  smoothing?: ScrollSmoothing;
+  
+  /**
+   * Time source and frame scheduler.
+   * @default browser clock
+   */
+  clock?: Clock;
 }
 
 /**
  * Scroll-based progress driver that maps scroll position to normalized progress [0,1].
  * Uses requestAnimationFrame batching and hysteresis for optimal performance.
  * 
+ * With axis 'both', horizontal and vertical progress are tracked independently:
+ * getProgressVector() returns both, and getProgress() returns their average.
+ * 
+ * With smoothing enabled, getRenderProgress() eases toward the scroll position
+ * on its own animation frame loop until settled, while getProgress() reports the raw target.
+ * 
  * @example
  * ```typescript
  * const driver = new ScrollDriver({ scrollTarget: document.scrollingElement });
@@ -237,23 +656,52 @@ export interface ScrollDriverConfig {
  * 
  * // In render loop
  * const progress = driver.getProgress(); // 0 to 1 based on scroll position
+ * 
+ * // Only run across a pinned section of the page
+ * const pinned = new ScrollDriver({
+ *   scrollTarget: document.scrollingElement,
+ *   scrollStart: document.getElementById('story'),
+ *   scrollEnd: document.getElementById('after-story'),
+ * });
+ * 
+ * // Horizontal gallery driving pathX, page scroll driving pathY
+ * const gallery = new ScrollDriver({ scrollTarget: galleryElement, axis: 'both' });
+ * const { x, y } = gallery.getProgressVector()!;
  * ```
  */
 export class ScrollDriver implements ProgressDriver {
+  private clock: Clock;
   private scrollTarget: HTMLElement | null;
-  private progress: number = 0;
+  private scrollStart: ScrollOffset;
+  private scrollEnd: ScrollOffset;
+  private axis: ScrollAxis;
+  private progressX: number = 0;
+  private progressY: number = 0;
   private isRunning: boolean = false;
   private isPaused: boolean = false;
   private rafId: number | null = null;
   // Track last scroll position for future use
   // private lastScrollY: number = 0;
   private pendingUpdate: boolean = false;
+  private smootherX: ProgressSmoother | null = null;
+  private smootherY: ProgressSmoother | null = null;
+  private smoothingRafId: number | null = null;
+  private lastSmoothingTime: number | null = null;
   
   /** Hysteresis threshold to prevent excessive updates (0.1% change) */
   private readonly HYSTERESIS_THRESHOLD = 0.001;
   
   constructor(config: ScrollDriverConfig) {
+    this.clock = config.clock ?? browserClock;
     this.scrollTarget = config.scrollTarget;
+    this.scrollStart = config.scrollStart ?? 0;
+    this.scrollEnd = config.scrollEnd ?? '100%';
+    this.axis = config.axis ?? 'y';
+    
+    if (config.smoothing) {
+      this.smootherX = new ProgressSmoother(config.smoothing);
+      this.smootherY = new ProgressSmoother(config.smoothing);
+    }
     this.onScroll = this.onScroll.bind(this);
   }
   
@@ -276,6 +724,10 @@ export class ScrollDriver implements ProgressDriver {
     // Initialize progress based on current scroll position
     this.updateProgress();
     
+    // Start smoothing from the current position rather than easing in from 0
+    this.smootherX?.reset(this.progressX);
+    this.smootherY?.reset(this.progressY);
+    
     // Attach scroll listener with passive option for performance
     if (this.scrollTarget) {
       this.scrollTarget.addEventListener('scroll', this.onScroll, { passive: true });
@@ -288,9 +740,13 @@ export class ScrollDriver implements ProgressDriver {
   stop(): void {
     this.isRunning = false;
     this.isPaused = false;
-    this.progress = 0;
+    this.progressX = 0;
+    this.progressY = 0;
     // this.lastScrollY = 0;
     this.pendingUpdate = false;
+    this.smootherX?.reset(0);
+    this.smootherY?.reset(0);
+    this.stopSmoothing();
     
     // Remove scroll listener
     if (this.scrollTarget) {
@@ -299,7 +755,7 @@ export class ScrollDriver implements ProgressDriver {
     
     // Cancel pending RAF
     if (this.rafId !== null) {
-      cancelAnimationFrame(this.rafId);
+      this.clock.cancelFrame(this.rafId);
       this.rafId = null;
     }
   }
@@ -321,9 +777,12 @@ export class ScrollDriver implements ProgressDriver {
     
     // Cancel pending RAF
     if (this.rafId !== null) {
-      cancelAnimationFrame(this.rafId);
+      this.clock.cancelFrame(this.rafId);
       this.rafId = null;
     }
+    
+    // Freeze smoothing where it is
+    this.stopSmoothing();
   }
   
   /**
@@ -349,7 +808,45 @@ export class ScrollDriver implements ProgressDriver {
    * Get the current progress value [0,1] based on scroll position.
    */
   getProgress(): number {
-    return this.progress;
+    return this.combineAxes(this.progressX, this.progressY);
+  }
+  
+  /**
+   * Get independent horizontal and vertical progress.
+   * Only available when tracking both axes; returns null otherwise.
+   */
+  getProgressVector(): Vec2 | null {
+    if (this.axis !== 'both') {
+      return null;
+    }
+    
+    return { x: this.progressX, y: this.progressY };
+  }
+  
+  /**
+   * Get the smoothed progress to render. Equals getProgress() without smoothing.
+   */
+  getRenderProgress(): number {
+    if (!this.smootherX || !this.smootherY) {
+      return this.getProgress();
+    }
+    
+    return this.combineAxes(this.smootherX.value, this.smootherY.value);
+  }
+  
+  /**
+   * Get the smoothed per-axis progress to render. Equals getProgressVector() without smoothing.
+   */
+  getRenderProgressVector(): Vec2 | null {
+    if (this.axis !== 'both') {
+      return null;
+    }
+    
+    if (!this.smootherX || !this.smootherY) {
+      return this.getProgressVector();
+    }
+    
+    return { x: this.smootherX.value, y: this.smootherY.value };
   }
   
   /**
@@ -375,7 +872,7 @@ export class ScrollDriver implements ProgressDriver {
     this.pendingUpdate = true;
     
     // Use requestAnimationFrame to batch scroll updates
-    this.rafId = requestAnimationFrame(() => {
+    this.rafId = this.clock.requestFrame(() => {
       this.updateProgress();
       this.pendingUpdate = false;
       this.rafId = null;
@@ -388,29 +885,972 @@ export class ScrollDriver implements ProgressDriver {
    */
   private updateProgress(): void {
     if (!this.scrollTarget) {
-      this.progress = 0;
+      this.progressX = 0;
+      this.progressY = 0;
       return;
     }
     
-    const scrollTop = this.scrollTarget.scrollTop;
-    const scrollHeight = this.scrollTarget.scrollHeight;
-    const clientHeight = this.scrollTarget.clientHeight;
+    if (this.axis !== 'x') {
+      this.progressY = this.applyHysteresis(this.progressY, this.measureAxis(this.scrollTarget, 'y'));
+    }
     
-    // Calculate scrollable distance
-    const scrollableDistance = scrollHeight - clientHeight;
+    if (this.axis !== 'y') {
+      this.progressX = this.applyHysteresis(this.progressX, this.measureAxis(this.scrollTarget, 'x'));
+    }
     
-    // Handle non-scrollable elements
-    if (scrollableDistance <= 0) {
-      this.progress = 0;
-      return;
+    this.startSmoothing();
+  }
+  
+  /**
+   * Combine per-axis progress into the scalar progress for the configured axis.
+   */
+  private combineAxes(x: number, y: number): number {
+    if (this.axis === 'x') {
+      return x;
     }
     
-    // Calculate progress: scrollTop / scrollableDistance
-    const newProgress = Math.max(0, Math.min(1, scrollTop / scrollableDistance));
+    if (this.axis === 'both') {
+      return (x + y) / 2;
+    }
     
-    // Apply hysteresis: only update if change exceeds threshold
-    if (Math.abs(newProgress - this.progress) > this.HYSTERESIS_THRESHOLD) {
-      this.progress = newProgress;
+    return y;
+  }
+  
+  /**
+   * Start the smoothing loop if smoothing is enabled and not already running.
+   */
+  private startSmoothing(): void {
+    if (!this.smootherX || this.smoothingRafId !== null || !this.isRunning || this.isPaused) {
+      return;
     }
+    
+    this.lastSmoothingTime = null;
+    this.smoothingRafId = this.clock.requestFrame(this.smoothingTick);
+  }
+  
+  /**
+   * Cancel the smoothing loop, leaving smoothed values where they are.
+   */
+  private stopSmoothing(): void {
+    if (this.smoothingRafId !== null) {
+      this.clock.cancelFrame(this.smoothingRafId);
+      this.smoothingRafId = null;
+    }
+    this.lastSmoothingTime = null;
   }
+  
+  /**
+   * Smoothing loop: ease toward the raw progress until both axes settle.
+   */
+  private smoothingTick = (timestamp: number): void => {
+    this.smoothingRafId = null;
+    
+    if (!this.smootherX || !this.smootherY || !this.isRunning || this.isPaused) {
+      return;
+    }
+    
+    // Assume a 60fps frame for the first step
+    const dtMs = this.lastSmoothingTime === null ? 1000 / 60 : timestamp - this.lastSmoothingTime;
+    this.lastSmoothingTime = timestamp;
+    
+    const settledX = this.smootherX.step(this.progressX, dtMs);
+    const settledY = this.smootherY.step(this.progressY, dtMs);
+    
+    if (!settledX || !settledY) {
+      this.smoothingRafId = this.clock.requestFrame(this.smoothingTick);
+    } else {
+      this.lastSmoothingTime = null;
+    }
+  };
+  
+  /**
+   * Only accept a new progress value if the change exceeds the hysteresis threshold.
+   */
+  private applyHysteresis(current: number, next: number): number {
+    return Math.abs(next - current) > this.HYSTERESIS_THRESHOLD ? next : current;
+  }
+  
+  /**
+   * Measure progress along a single scroll axis.
+   * 
+   * @param target - The scroll container
+   * @param axis - 'y' for scrollTop, 'x' for scrollLeft
+   * @returns Progress in [0,1] across the configured scroll range
+   */
+  private measureAxis(target: HTMLElement, axis: 'x' | 'y'): number {
+    const scrollPosition = axis === 'y' ? target.scrollTop : target.scrollLeft;
+    const scrollSize = axis === 'y' ? target.scrollHeight : target.scrollWidth;
+    const clientSize = axis === 'y' ? target.clientHeight : target.clientWidth;
+    
+    // Calculate scrollable distance
+    const scrollableDistance = scrollSize - clientSize;
+    
+    // Handle non-scrollable elements
+    if (scrollableDistance <= 0) {
+      return 0;
+    }
+    
+    // Resolve the active scroll range (defaults to the full scrollable distance)
+    const rangeStart = this.resolveOffset(this.scrollStart, target, axis, scrollableDistance);
+    const rangeEnd = this.resolveOffset(this.scrollEnd, target, axis, scrollableDistance);
+    const rangeLength = rangeEnd - rangeStart;
+    
+    // Calculate progress: (scrollPosition - rangeStart) / rangeLength, clamped outside the range
+    if (rangeLength <= 0) {
+      // Empty range: jump from 0 to 1 once the start is reached
+      return scrollPosition >= rangeStart ? 1 : 0;
+    }
+    
+    return Math.max(0, Math.min(1, (scrollPosition - rangeStart) / rangeLength));
+  }
+  
+  /**
+   * Convert a scroll offset into an absolute scroll position in pixels.
+   * 
+   * @param offset - Pixel value, percentage of the scrollable distance, or element
+   * @param target - The scroll container
+   * @param axis - Axis the offset applies to
+   * @param scrollableDistance - Total scrollable distance of the scroll target along the axis
+   * @returns Scroll position in pixels
+   */
+  private resolveOffset(
+    offset: ScrollOffset,
+    target: HTMLElement,
+    axis: 'x' | 'y',
+    scrollableDistance: number
+  ): number {
+    if (typeof offset === 'number') {
+      return offset;
+    }
+    
+    if (typeof offset === 'string') {
+      return (parseFloat(offset) / 100) * scrollableDistance;
+    }
+    
+    // Element: scroll position at which its leading edge (top or left) reaches
+    // the leading edge of the container
+    const isDocumentScroller =
+      target === document.scrollingElement ||
+      target === document.documentElement ||
+      target === document.body;
+    const containerRect = isDocumentScroller ? null : target.getBoundingClientRect();
+    const elementRect = offset.getBoundingClientRect();
+    
+    if (axis === 'y') {
+      return elementRect.top - (containerRect?.top ?? 0) + target.scrollTop;
+    }
+    
+    return elementRect.left - (containerRect?.left ?? 0) + target.scrollLeft;
+  }
+}
+
+/**
+ * Configuration options for ViewDriver
+ */
+export interface ViewDriverConfig {
+  /** The element whose position in the viewport drives progress */
+  viewTarget: HTMLElement;
+  
+  /**
+   * Scroll container acting as the viewport.
+   * When null or omitted, the browser window is used.
+   */
+  root?: HTMLElement | null;
+  
+  /**
+   * Offset at which progress is 0.
+   * @default { element: 0, viewport: 1 }
+   */
+  start?: ViewOffset;
+  
+  /**
+   * Offset at which progress is 1.
+   * @default { element: 1, viewport: 0 }
+   */
+  end?: ViewOffset;
+  
+  /**
+   * Time source and frame scheduler.
+   * @default browser clock
+   */
+  clock?: Clock;
+}
+
+/**
+ * Viewport-visibility progress driver that maps how far a trigger element has
+ * travelled through the viewport to normalized progress [0,1].
+ * 
+ * Progress is 0 while the start offset has not been reached, rises linearly as the
+ * element scrolls towards the end offset, and stays at 1 afterwards. Uses the same
+ * requestAnimationFrame batching and hysteresis as ScrollDriver.
+ * 
+ * @example
+ * ```typescript
+ * // From "top of section hits 80% of viewport" to "bottom hits 20%"
+ * const driver = new ViewDriver({
+ *   viewTarget: document.getElementById('section'),
+ *   start: { element: 0, viewport: 0.8 },
+ *   end: { element: 1, viewport: 0.2 },
+ * });
+ * driver.start();
+ * ```
+ */
+export class ViewDriver implements ProgressDriver {
+  private clock: Clock;
+  private viewTarget: HTMLElement;
+  private root: HTMLElement | null;
+  private startOffset: ViewOffset;
+  private endOffset: ViewOffset;
+  private progress: number = 0;
+  private isRunning: boolean = false;
+  private isPaused: boolean = false;
+  private rafId: number | null = null;
+  private pendingUpdate: boolean = false;
+
+  /** Hysteresis threshold to prevent excessive updates (0.1% change) */
+  private readonly HYSTERESIS_THRESHOLD = 0.001;
+
+  constructor(config: ViewDriverConfig) {
+    this.clock = config.clock ?? browserClock;
+    this.viewTarget = config.viewTarget;
+    this.root = config.root ?? null;
+    this.startOffset = config.start ?? { element: 0, viewport: 1 };
+    this.endOffset = config.end ?? { element: 1, viewport: 0 };
+  }
+
+  /**
+   * Start tracking the trigger element's position.
+   */
+  start(): void {
+    if (this.isRunning && !this.isPaused) {
+      return; // Already running
+    }
+
+    if (this.isPaused) {
+      this.resume();
+      return;
+    }
+
+    this.isRunning = true;
+    this.isPaused = false;
+
+    this.updateProgress();
+    this.attachListeners();
+  }
+
+  /**
+   * Stop tracking and reset state.
+   */
+  stop(): void {
+    this.isRunning = false;
+    this.isPaused = false;
+    this.progress = 0;
+    this.pendingUpdate = false;
+
+    this.detachListeners();
+    this.cancelPendingFrame();
+  }
+
+  /**
+   * Pause tracking, maintaining current progress.
+   */
+  pause(): void {
+    if (!this.isRunning || this.isPaused) {
+      return;
+    }
+
+    this.isPaused = true;
+    this.detachListeners();
+    this.cancelPendingFrame();
+  }
+
+  /**
+   * Resume tracking from paused state.
+   */
+  resume(): void {
+    if (!this.isRunning || !this.isPaused) {
+      return;
+    }
+
+    this.isPaused = false;
+    this.attachListeners();
+    this.updateProgress();
+  }
+
+  /**
+   * Get the current progress value [0,1] based on the trigger element's position.
+   */
+  getProgress(): number {
+    return this.progress;
+  }
+
+  /**
+   * Clean up resources and remove event listeners.
+   */
+  destroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Listen for scrolling anywhere in the document (scroll events do not bubble,
+   * so a capturing listener on window also sees nested scroll containers) and
+   * for viewport resizes, which move the offsets.
+   */
+  private attachListeners(): void {
+    window.addEventListener('scroll', this.onScroll, { passive: true, capture: true });
+    window.addEventListener('resize', this.onScroll, { passive: true });
+  }
+
+  private detachListeners(): void {
+    window.removeEventListener('scroll', this.onScroll, { capture: true });
+    window.removeEventListener('resize', this.onScroll);
+  }
+
+  private cancelPendingFrame(): void {
+    if (this.rafId !== null) {
+      this.clock.cancelFrame(this.rafId);
+      this.rafId = null;
+    }
+    this.pendingUpdate = false;
+  }
+
+  /**
+   * Scroll/resize event handler that schedules RAF updates.
+   */
+  private onScroll = (): void => {
+    if (!this.isRunning || this.isPaused) {
+      return;
+    }
+
+    if (this.pendingUpdate) {
+      return;
+    }
+
+    this.pendingUpdate = true;
+
+    this.rafId = this.clock.requestFrame(() => {
+      this.updateProgress();
+      this.pendingUpdate = false;
+      this.rafId = null;
+    });
+  };
+
+  /**
+   * Get the top edge and height of the viewport in client coordinates.
+   */
+  private getViewportBounds(): { top: number; height: number } {
+    if (this.root) {
+      const rect = this.root.getBoundingClientRect();
+      return { top: rect.top, height: rect.height };
+    }
+    return { top: 0, height: window.innerHeight };
+  }
+
+  /**
+   * Calculate and update progress from the trigger element's bounding box.
+   * 
+   * For each offset, the signed distance between the element point and the
+   * viewport point shrinks by exactly the scrolled amount, so progress is the
+   * fraction of the start→end travel that has been covered.
+   */
+  private updateProgress(): void {
+    const rect = this.viewTarget.getBoundingClientRect();
+    const viewport = this.getViewportBounds();
+
+    const distanceTo = (offset: ViewOffset): number =>
+      rect.top + offset.element * rect.height - (viewport.top + offset.viewport * viewport.height);
+
+    const startDistance = distanceTo(this.startOffset);
+    const endDistance = distanceTo(this.endOffset);
+    const travel = endDistance - startDistance;
+
+    let newProgress: number;
+    if (travel <= 0) {
+      // Degenerate range: jump straight from 0 to 1 once the start is passed
+      newProgress = startDistance <= 0 ? 1 : 0;
+    } else {
+      newProgress = Math.max(0, Math.min(1, -startDistance / travel));
+    }
+
+    // Always honour the end stops so the ball settles exactly at 0 or 1
+    if (
+      newProgress === 0 ||
+      newProgress === 1 ||
+      Math.abs(newProgress - this.progress) > this.HYSTERESIS_THRESHOLD
+    ) {
+      this.progress = newProgress;
+    }
+  }
+}
+
+/**
+ * Configuration options for PointerDriver
+ */
+export interface PointerDriverConfig {
+  /**
+   * Element whose box the pointer position is mapped over. Touch panning and
+   * zooming are turned off on it while it is tracked (touch-action: none).
+   * When null, the pointer is tracked over the whole window and the page keeps
+   * scrolling on touch, so a touch drag only moves the ball until it turns into a pan.
+   */
+  element: HTMLElement | null;
+  
+  /**
+   * What drives the height progress.
+   * - 'speed': How fast the ball is moving (it lifts while chasing the pointer)
+   * - 'distance': How far the ball is from the anchor point
+   * @default 'speed'
+   */
+  height?: PointerHeightSource;
+  
+  /**
+   * Anchor point in normalized coordinates used for 'distance' height and as the
+   * resting position before the first pointer event.
+   * @default { x: 0.5, y: 0.5 }
+   */
+  anchor?: Vec2;
+  
+  /**
+   * Speed in normalized units per second at which 'speed' height reaches 1.
+   * @default 2
+   */
+  maxSpeed?: number;
+  
+  /**
+   * Stiffness of the critically damped spring the ball follows the pointer with.
+   * Higher values mean less lag.
+   * @default 170
+   */
+  stiffness?: number;
+  
+  /**
+   * Time source and frame scheduler.
+   * @default browser clock
+   */
+  clock?: Clock;
+}
+
+/**
+ * Pointer-follow driver that makes the ball track the cursor or touch point.
+ * 
+ * Handles mouse, pen and touch through Pointer Events. The ball follows the pointer
+ * with spring lag: getProgressVector() returns the lagged position in normalized
+ * coordinates (feeding pathX and pathY), and getProgress() returns the height
+ * input derived from the ball's speed or its distance from the anchor.
+ * 
+ * @example
+ * ```typescript
+ * const driver = new PointerDriver({ element: canvas, height: 'speed', stiffness: 120 });
+ * driver.start();
+ * 
+ * // In render loop
+ * const { x, y } = driver.getProgressVector();
+ * const lift = driver.getProgress();
+ * ```
+ */
+export class PointerDriver implements ProgressDriver {
+  private clock: Clock;
+  private element: HTMLElement | null;
+  private heightSource: PointerHeightSource;
+  private anchor: Vec2;
+  private maxSpeed: number;
+  private smootherX: ProgressSmoother;
+  private smootherY: ProgressSmoother;
+  private target: Vec2;
+  private speed: number = 0;
+  private isRunning: boolean = false;
+  private isPaused: boolean = false;
+  private rafId: number | null = null;
+  private lastFrameTime: number | null = null;
+
+  /** Inline touch-action of the element before tracking, restored when it stops */
+  private previousTouchAction: string | null = null;
+
+  /** Speed below which the ball is considered at rest (normalized units per second) */
+  private readonly REST_SPEED = 0.001;
+
+  constructor(config: PointerDriverConfig) {
+    this.clock = config.clock ?? browserClock;
+    this.element = config.element;
+    this.heightSource = config.height ?? 'speed';
+    this.anchor = config.anchor ?? { x: 0.5, y: 0.5 };
+    this.maxSpeed = config.maxSpeed ?? 2;
+
+    const smoothing: ScrollSmoothing = {
+      type: 'spring',
+      stiffness: config.stiffness ?? ProgressSmoother.DEFAULT_STIFFNESS,
+    };
+    this.smootherX = new ProgressSmoother(smoothing);
+    this.smootherY = new ProgressSmoother(smoothing);
+
+    this.target = { ...this.anchor };
+    this.resetPosition();
+  }
+
+  /**
+   * Start tracking the pointer.
+   */
+  start(): void {
+    if (this.isRunning && !this.isPaused) {
+      return; // Already running
+    }
+
+    if (this.isPaused) {
+      this.resume();
+      return;
+    }
+
+    this.isRunning = true;
+    this.isPaused = false;
+    this.attachListeners();
+  }
+
+  /**
+   * Stop tracking and return the ball to the anchor.
+   */
+  stop(): void {
+    this.isRunning = false;
+    this.isPaused = false;
+    this.detachListeners();
+    this.cancelFrame();
+    this.target = { ...this.anchor };
+    this.resetPosition();
+  }
+
+  /**
+   * Pause tracking, freezing the ball where it is.
+   */
+  pause(): void {
+    if (!this.isRunning || this.isPaused) {
+      return;
+    }
+
+    this.isPaused = true;
+    this.detachListeners();
+    this.cancelFrame();
+  }
+
+  /**
+   * Resume tracking from paused state.
+   */
+  resume(): void {
+    if (!this.isRunning || !this.isPaused) {
+      return;
+    }
+
+    this.isPaused = false;
+    this.attachListeners();
+    this.scheduleFrame();
+  }
+
+  /**
+   * Get the height progress [0,1] from the ball's speed or distance from the anchor.
+   */
+  getProgress(): number {
+    if (this.heightSource === 'distance') {
+      const dx = this.smootherX.value - this.anchor.x;
+      const dy = this.smootherY.value - this.anchor.y;
+      // Normalize by the farthest corner from the anchor
+      const maxDx = Math.max(this.anchor.x, 1 - this.anchor.x);
+      const maxDy = Math.max(this.anchor.y, 1 - this.anchor.y);
+      const maxDistance = Math.sqrt(maxDx * maxDx + maxDy * maxDy);
+      return maxDistance > 0 ? Math.min(1, Math.sqrt(dx * dx + dy * dy) / maxDistance) : 0;
+    }
+
+    return Math.min(1, this.speed / this.maxSpeed);
+  }
+
+  /**
+   * Get the spring-lagged ball position in normalized coordinates.
+   */
+  getProgressVector(): Vec2 {
+    return { x: this.smootherX.value, y: this.smootherY.value };
+  }
+
+  /**
+   * Clean up resources and remove event listeners.
+   */
+  destroy(): void {
+    this.stop();
+  }
+
+  private resetPosition(): void {
+    this.smootherX.reset(this.target.x);
+    this.smootherY.reset(this.target.y);
+    this.speed = 0;
+    this.lastFrameTime = null;
+  }
+
+  private attachListeners(): void {
+    const source = this.element ?? window;
+    source.addEventListener('pointermove', this.onPointer, { passive: true });
+    source.addEventListener('pointerdown', this.onPointer, { passive: true });
+
+    // Otherwise a touch drag becomes a pan: the browser cancels the pointer and
+    // sends no further pointermove events
+    if (this.element && this.previousTouchAction === null) {
+      this.previousTouchAction = this.element.style.touchAction;
+      this.element.style.touchAction = 'none';
+    }
+  }
+
+  private detachListeners(): void {
+    const source = this.element ?? window;
+    source.removeEventListener('pointermove', this.onPointer);
+    source.removeEventListener('pointerdown', this.onPointer);
+
+    if (this.element && this.previousTouchAction !== null) {
+      this.element.style.touchAction = this.previousTouchAction;
+      this.previousTouchAction = null;
+    }
+  }
+
+  /**
+   * Pointer event handler that maps client coordinates to normalized coordinates.
+   */
+  private onPointer = (event: Event): void => {
+    if (!this.isRunning || this.isPaused) {
+      return;
+    }
+
+    const { clientX, clientY } = event as PointerEvent;
+    let left = 0;
+    let top = 0;
+    let width = window.innerWidth;
+    let height = window.innerHeight;
+
+    if (this.element) {
+      const rect = this.element.getBoundingClientRect();
+      left = rect.left;
+      top = rect.top;
+      width = rect.width;
+      height = rect.height;
+    }
+
+    if (width <= 0 || height <= 0) {
+      return;
+    }
+
+    this.target = {
+      x: Math.max(0, Math.min(1, (clientX - left) / width)),
+      y: Math.max(0, Math.min(1, (clientY - top) / height)),
+    };
+
+    this.scheduleFrame();
+  };
+
+  private scheduleFrame(): void {
+    if (this.rafId === null) {
+      this.rafId = this.clock.requestFrame(this.tick);
+    }
+  }
+
+  private cancelFrame(): void {
+    if (this.rafId !== null) {
+      this.clock.cancelFrame(this.rafId);
+      this.rafId = null;
+    }
+    this.lastFrameTime = null;
+  }
+
+  /**
+   * Spring loop: follow the pointer and measure speed until the ball comes to rest.
+   */
+  private tick = (timestamp: number): void => {
+    this.rafId = null;
+
+    if (!this.isRunning || this.isPaused) {
+      return;
+    }
+
+    // Assume a 60fps frame for the first step
+    const dtMs = this.lastFrameTime === null ? 1000 / 60 : timestamp - this.lastFrameTime;
+    this.lastFrameTime = timestamp;
+
+    const prevX = this.smootherX.value;
+    const prevY = this.smootherY.value;
+    const settledX = this.smootherX.step(this.target.x, dtMs);
+    const settledY = this.smootherY.step(this.target.y, dtMs);
+
+    const dx = this.smootherX.value - prevX;
+    const dy = this.smootherY.value - prevY;
+    this.speed = dtMs > 0 ? Math.sqrt(dx * dx + dy * dy) / (dtMs / 1000) : 0;
+
+    if (settledX && settledY && this.speed < this.REST_SPEED) {
+      this.speed = 0;
+      this.lastFrameTime = null;
+      return;
+    }
+
+    this.rafId = this.clock.requestFrame(this.tick);
+  };
+}
+
+/**
+ * Configuration options for MediaDriver
+ */
+export interface MediaDriverConfig {
+  /** The video or audio element to follow */
+  media: HTMLMediaElement;
+  
+  /**
+   * Media time in seconds where progress is 0.
+   * @default 0
+   */
+  startTime?: number;
+  
+  /**
+   * Media time in seconds where progress is 1.
+   * @default media duration
+   */
+  endTime?: number;
+  
+  /**
+   * Called after the media starts or stops playing, seeks or changes length, so the
+   * caller can run its render loop only while the media plays and redraw on seeks.
+   */
+  onChange?: () => void;
+}
+
+/**
+ * Media-synchronized progress driver that keeps the animation in lock-step with
+ * an HTMLMediaElement by mapping currentTime within a segment to progress [0,1].
+ * 
+ * The driver follows the media and never controls it: getProgress() reads currentTime
+ * directly, so the driver needs no frame loop of its own. Use isPlaying() and onChange
+ * to render only while the media plays.
+ * 
+ * @example
+ * ```typescript
+ * const video = document.querySelector('video');
+ * const driver = new MediaDriver({ media: video, startTime: 12, endTime: 20 });
+ * driver.start();
+ * 
+ * // In render loop
+ * const progress = driver.getProgress(); // 0 at 0:12, 1 at 0:20
+ * ```
+ */
+export class MediaDriver implements ProgressDriver {
+  private media: HTMLMediaElement;
+  private startTime: number;
+  private endTime: number | null;
+  private onChange: (() => void) | undefined;
+  private progress: number = 0;
+  private isRunning: boolean = false;
+  private isPaused: boolean = false;
+
+  /** Media events that change the playback position, state or segment length */
+  private static readonly SYNC_EVENTS = [
+    'play',
+    'playing',
+    'pause',
+    'seeked',
+    'seeking',
+    'ratechange',
+    'ended',
+    'loadedmetadata',
+    'durationchange',
+  ];
+
+  constructor(config: MediaDriverConfig) {
+    this.media = config.media;
+    this.startTime = config.startTime ?? 0;
+    this.endTime = config.endTime ?? null;
+    this.onChange = config.onChange;
+  }
+
+  /**
+   * Start following the media element.
+   */
+  start(): void {
+    if (this.isRunning && !this.isPaused) {
+      return; // Already running
+    }
+
+    if (this.isPaused) {
+      this.resume();
+      return;
+    }
+
+    this.isRunning = true;
+    this.isPaused = false;
+    this.attachListeners();
+    this.updateProgress();
+  }
+
+  /**
+   * Stop following the media and reset progress.
+   */
+  stop(): void {
+    this.isRunning = false;
+    this.isPaused = false;
+    this.progress = 0;
+    this.detachListeners();
+  }
+
+  /**
+   * Stop following the media, maintaining current progress.
+   * The media element itself keeps playing.
+   */
+  pause(): void {
+    if (!this.isRunning || this.isPaused) {
+      return;
+    }
+
+    this.updateProgress();
+    this.isPaused = true;
+    this.detachListeners();
+  }
+
+  /**
+   * Resume following the media and jump to its current position.
+   */
+  resume(): void {
+    if (!this.isRunning || !this.isPaused) {
+      return;
+    }
+
+    this.isPaused = false;
+    this.attachListeners();
+    this.updateProgress();
+  }
+
+  /**
+   * Get the current progress value [0,1] within the media segment.
+   * Reads currentTime while following the media; held while paused.
+   */
+  getProgress(): number {
+    if (this.isRunning && !this.isPaused) {
+      this.updateProgress();
+    }
+    return this.progress;
+  }
+
+  /**
+   * Whether the driver is following media that is currently playing, i.e. whether
+   * progress can change without a media event.
+   */
+  isPlaying(): boolean {
+    return (
+      this.isRunning &&
+      !this.isPaused &&
+      !this.media.paused &&
+      !this.media.ended
+    );
+  }
+
+  /**
+   * Clean up resources and remove event listeners.
+   */
+  destroy(): void {
+    this.stop();
+  }
+
+  private attachListeners(): void {
+    for (const type of MediaDriver.SYNC_EVENTS) {
+      this.media.addEventListener(type, this.onMediaEvent);
+    }
+  }
+
+  private detachListeners(): void {
+    for (const type of MediaDriver.SYNC_EVENTS) {
+      this.media.removeEventListener(type, this.onMediaEvent);
+    }
+  }
+
+  /**
+   * Media event handler: re-read the position and report the change.
+   */
+  private onMediaEvent = (): void => {
+    if (!this.isRunning || this.isPaused) {
+      return;
+    }
+
+    this.updateProgress();
+    this.onChange?.();
+  };
+
+  /**
+   * Map currentTime within [startTime, endTime] to progress, clamping outside it.
+   */
+  private updateProgress(): void {
+    const duration = this.media.duration;
+    const endTime = this.endTime ?? (Number.isFinite(duration) ? duration : NaN);
+    const length = endTime - this.startTime;
+
+    // Metadata not loaded yet or empty segment
+    if (!(length > 0)) {
+      this.progress = 0;
+      return;
+    }
+
+    const elapsed = this.media.currentTime - this.startTime;
+    this.progress = Math.max(0, Math.min(1, elapsed / length));
+  }
+}
+
+/**
+ * Externally controlled progress driver.
+ * 
+ * Progress only changes through setProgress(), which makes this driver the bridge
+ * to external timelines (GSAP, Framer Motion) and application state machines.
+ * 
+ * @example
+ * ```typescript
+ * const driver = new ManualDriver();
+ * driver.start();
+ * 
+ * gsapTimeline.eventCallback('onUpdate', () => {
+ *   driver.setProgress(gsapTimeline.progress());
+ * });
+ * ```
+ */
+export class ManualDriver implements ProgressDriver {
+  private progress: number;
+
+  constructor(initialProgress: number = 0) {
+    this.progress = initialProgress;
+  }
+
+  /**
+   * No-op: progress is only set externally.
+   */
+  start(): void {}
+
+  /**
+   * Reset progress to 0.
+   */
+  stop(): void {
+    this.progress = 0;
+  }
+
+  /**
+   * No-op: progress is only set externally.
+   */
+  pause(): void {}
+
+  /**
+   * No-op: progress is only set externally.
+   */
+  resume(): void {}
+
+  /**
+   * Set the current progress value.
+   * @param progress - Progress in [0,1]; values outside are clamped
+   */
+  setProgress(progress: number): void {
+    this.progress = Math.max(0, Math.min(1, progress));
+  }
+
+  /**
+   * Get the current progress value [0,1].
+   */
+  getProgress(): number {
+    return this.progress;
+  }
+
+  /**
+   * Nothing to clean up.
+   */
+  destroy(): void {}
 }
@@ -0,0 +1,202 @@
+/**
+ * Style Transitions
+ *
+ * Animates the light, ball style and shadow options from one configuration to
+ * another over time, so runtime config changes glide instead of jumping.
+ */
+
+import { browserClock } from './clock';
+import { mixColors } from './color';
+import type {
+  BallStyle,
+  Clock,
+  ColorSpace,
+  CurveFn,
+  LightSource,
+  ShadowOptions,
+} from '../types';
+
+/**
+ * Visual settings that can transition
+ */
+export interface TransitionStyle {
+  light: LightSource;
+  ballStyle: Required<BallStyle>;
+  shadow: Required<ShadowOptions>;
+}
+
+/**
+ * Configuration options for StyleTransition
+ */
+export interface StyleTransitionConfig {
+  /** Style at the start of the transition */
+  from: TransitionStyle;
+
+  /** Style at the end of the transition */
+  to: TransitionStyle;
+
+  /** Duration in milliseconds */
+  durationMs: number;
+
+  /** Maps elapsed time [0,1] to transition progress */
+  easing: CurveFn;
+
+  /** Color space colors are mixed in */
+  colorSpace: ColorSpace;
+
+  /** Called every frame with the interpolated style, last with `to` itself */
+  onUpdate: (style: TransitionStyle) => void;
+
+  /**
+   * Time source and frame scheduler.
+   * @default browser clock
+   */
+  clock?: Clock;
+}
+
+/**
+ * Interpolate between two styles: numbers linearly, colors with mixColors().
+ *
+ * @param from - Style at t = 0
+ * @param to - Style at t = 1
+ * @param t - Transition progress, usually [0,1]
+ * @param colorSpace - Color space colors are mixed in
+ */
+export function interpolateStyle(
+  from: TransitionStyle,
+  to: TransitionStyle,
+  t: number,
+  colorSpace: ColorSpace
+): TransitionStyle {
+  return {
+    light: interpolateFields(from.light, to.light, t, colorSpace),
+    ballStyle: interpolateFields(from.ballStyle, to.ballStyle, t, colorSpace),
+    shadow: interpolateFields(from.shadow, to.shadow, t, colorSpace),
+  };
+}
+
+/**
+ * Interpolate every number and color field of two objects with the same shape.
+ */
+function interpolateFields<T extends object>(
+  from: T,
+  to: T,
+  t: number,
+  colorSpace: ColorSpace
+): T {
+  const result = { ...to };
+
+  for (const key of Object.keys(to) as (keyof T)[]) {
+    const start = from[key];
+    const end = to[key];
+
+    if (typeof start === 'number' && typeof end === 'number') {
+      result[key] = (start + (end - start) * t) as T[keyof T];
+    } else if (typeof start === 'string' && typeof end === 'string') {
+      result[key] = mixColors(start, end, t, colorSpace) as T[keyof T];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Frame loop that moves a style from one value to another.
+ *
+ * Each frame, elapsed time is eased and the interpolated style is passed to onUpdate.
+ * The final frame passes `to` exactly. A transition that is cancelled reports where
+ * it got to, so a new transition can start from there without a jump.
+ *
+ * @example
+ * ```typescript
+ * const transition = new StyleTransition({
+ *   from: current,
+ *   to: target,
+ *   durationMs: 600,
+ *   easing: easeInOut,
+ *   colorSpace: 'oklab',
+ *   onUpdate: (style) => renderer.setLight(style.light),
+ * });
+ * transition.start();
+ * ```
+ */
+export class StyleTransition {
+  private config: StyleTransitionConfig;
+  private clock: Clock;
+  private current: TransitionStyle;
+  private startTime: number | null = null;
+  private rafId: number | null = null;
+  private isActive: boolean = false;
+
+  constructor(config: StyleTransitionConfig) {
+    this.config = config;
+    this.clock = config.clock ?? browserClock;
+    this.current = config.from;
+  }
+
+  /**
+   * Apply the starting style and start ticking.
+   * A zero duration applies the target immediately.
+   */
+  start(): void {
+    if (this.isActive) {
+      return;
+    }
+
+    this.isActive = true;
+    this.startTime = this.clock.now();
+    this.config.onUpdate(this.current);
+
+    if (this.config.durationMs <= 0) {
+      this.finish();
+      return;
+    }
+
+    this.rafId = this.clock.requestFrame(this.tick);
+  }
+
+  /**
+   * Stop without reaching the target.
+   * @returns The style applied by the last frame
+   */
+  cancel(): TransitionStyle {
+    this.isActive = false;
+    if (this.rafId !== null) {
+      this.clock.cancelFrame(this.rafId);
+      this.rafId = null;
+    }
+    return this.current;
+  }
+
+  /**
+   * Whether the transition is still moving towards its target.
+   */
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  private tick = (): void => {
+    this.rafId = null;
+    if (!this.isActive || this.startTime === null) {
+      return;
+    }
+
+    const elapsed = (this.clock.now() - this.startTime) / this.config.durationMs;
+    if (elapsed >= 1) {
+      this.finish();
+      return;
+    }
+
+    const { from, to, easing, colorSpace } = this.config;
+    this.current = interpolateStyle(from, to, easing(Math.max(0, elapsed)), colorSpace);
+    this.config.onUpdate(this.current);
+
+    this.rafId = this.clock.requestFrame(this.tick);
+  };
+
+  private finish(): void {
+    this.isActive = false;
+    this.current = this.config.to;
+    this.config.onUpdate(this.current);
+  }
+}
@@ -20,28 +20,95 @@
  * ```
  */
 
-import type { AnimationConfig, AnimationInstance, ProgressDriver, CurveFn, BallStyle } from './types';
+import type {
+  AnimationConfig,
+  AnimationEventMap,
+  AnimationInstance,
+  AnimationState,
+  PlayState,
+  ProgressDriver,
+  TransitionOptions,
+  CurveFn,
+  BallStyle,
+} from './types';
 import { createCanvasManager } from './core/canvas';
-import { TimeDriver, ScrollDriver } from './core/timeline';
+import {
+  TimeDriver,
+  ScrollDriver,
+  ViewDriver,
+  PointerDriver,
+  MediaDriver,
+  ManualDriver,
+} from './core/timeline';
 import { 
   getCurvePreset, 
   createCustomCurveAdapter, 
-  createKeypointCurve 
+  createKeypointCurve,
+  easeInOut,
 } from './core/curves';
 import { createShadowCalculator } from './core/shadow';
 import { Renderer } from './core/render';
+import type { RendererConfig } from './core/render';
 import { createInteractionManager } from './core/interactions';
-import { validateConfig, applyDefaults } from './core/config';
+import { AudioHeightSource } from './core/audio';
+import { createSegmentTimeline } from './core/segments';
+import { createCurveLookupTable } from './core/sampling';
+import { withNoise } from './core/noise';
+import { resolveCurveSource } from './core/expression';
+import { isCssEasing, parseCssEasing } from './core/easing';
+import { MarkerTracker } from './core/markers';
+import { EventEmitter } from './core/events';
+import { StyleTransition } from './core/transitions';
+import type { TransitionStyle } from './core/transitions';
+import {
+  validateConfig,
+  validateAnimationState,
+  applyDefaults,
+  ConfigValidationError,
+  CONFIG_DEFAULTS,
+} from './core/config';
 
 // Re-export types for convenience
 export type {
   AnimationConfig,
+  AnimationEventMap,
+  AnimationEventName,
   AnimationInstance,
+  AnimationState,
+  AudioAnalyser,
+  AudioMetric,
   LightSource,
   ShadowOptions,
   Keypoint,
+  KeypointInterpolation,
+  CurveSampling,
+  CurveSource,
+  NoiseModifiers,
+  NoiseOptions,
+  TimelineSegment,
   InteractiveZone,
+  MarkerDirection,
+  ProgressMarker,
   BallStyle,
+  Clock,
+  ColorSpace,
+  BounceCurveOptions,
+  CssEasing,
+  CurvePreset,
+  CurvePresetName,
+  ElasticCurveOptions,
+  GravityArcCurveOptions,
+  ParametricCurvePreset,
+  SpringCurveOptions,
+  PlaybackDirection,
+  PlayState,
+  PointerHeightSource,
+  ScrollAxis,
+  ScrollOffset,
+  ScrollSmoothing,
+  TimeDriverState,
+  TransitionOptions,
+  ViewOffset,
   Vec2,
   Vec3,
 } from './types';
@@ -59,20 +126,66 @@ export {
   cosine,
   easeInOut,
   bezier,
+  bounce,
+  elastic,
+  spring,
+  gravityArc,
+  sequence,
+  mirror,
+  repeat,
+  remap,
+  blend,
+  reverse,
 } from './core/curves';
-export { TimeDriver, ScrollDriver } from './core/timeline';
+export type { KeypointCurveOptions } from './core/curves';
+export {
+  TimeDriver,
+  ScrollDriver,
+  ViewDriver,
+  PointerDriver,
+  MediaDriver,
+  ManualDriver,
+  ProgressSmoother,
+} from './core/timeline';
 export { createInteractionManager } from './core/interactions';
+export { MarkerTracker } from './core/markers';
+export { EventEmitter } from './core/events';
+export type { EventHandler } from './core/events';
+export { AudioHeightSource } from './core/audio';
+export { createSegmentTimeline, SEGMENT_CONTINUITY_TOLERANCE } from './core/segments';
+export { StyleTransition, interpolateStyle } from './core/transitions';
+export { createCurveLookupTable } from './core/sampling';
+export type { CurveLookupTable } from './core/sampling';
+export { createGradientNoise, createFractalNoise, withNoise } from './core/noise';
+export { compileExpression, getExpressionError } from './core/expression';
+export type { TransitionStyle, StyleTransitionConfig } from './core/transitions';
+export { parseColor, formatColor, mixColors } from './core/color';
+export type { RGBA } from './core/color';
+export {
+  parseCssEasing,
+  createCubicBezierCurve,
+  createStepsCurve,
+  createLinearEasingCurve,
+} from './core/easing';
+export type { StepPosition, LinearEasingPoint } from './core/easing';
+export type { SegmentTimeline, SegmentFallback } from './core/segments';
+export { browserClock, ManualClock } from './core/clock';
+export type { ManualClockOptions } from './core/clock';
 
 /**
  * Create a ball animation instance.
  * 
  * This is the main factory function that integrates all modules:
  * - Canvas management with DPR scaling and coordinate transforms
- * - Progress driver (time or scroll based)
- * - Curve computation for height animation
+ * - Progress driver (time, scroll, viewport, pointer or media based)
+ * - Curve computation for height animation (or audio level, when configured)
  * - Shadow calculation and rendering
  * - Render loop with requestAnimationFrame
  * - Interactive zones with event callbacks
+ * - Progress markers that fire when progress passes them
+ * - Lifecycle events and a finished promise
+ * - State snapshots that can be stored and restored
+ * - Animated transitions between light, ball style and shadow settings
  * 
  * @param config - Animation configuration object
  * @returns AnimationInstance with control methods
@@ -102,6 +215,18 @@ export { createInteractionManager } from './core/interactions';
  * });
  * 
  * scrollAnimation.play();
+ * 
+ * // Viewport-based animation tied to a section of the page
+ * const viewAnimation = createBallAnimation({
+ *   mount: document.getElementById('container'),
+ *   driver: 'view',
+ *   viewTarget: document.getElementById('feature-section'),
+ *   viewStart: { element: 0, viewport: 0.8 },
+ *   viewEnd: { element: 1, viewport: 0.2 },
+ *   light: { x: 0.5, y: 0.5, z: 2.0 }
+ * });
+ * 
+ * viewAnimation.play();
  * ```
  */
 export function createBallAnimation(config: AnimationConfig): AnimationInstance {
@@ -111,39 +236,224 @@ export function createBallAnimation(config: AnimationConfig): AnimationInstance
   // Apply defaults
   const fullConfig = applyDefaults(config);
   
+  // Config as the user wrote it, with the fields that updateConfig() reconfigures merged in
+  let userConfig: AnimationConfig = { ...config };
+  
+  // Lifecycle events, emitted by the instance methods and the modules below
+  const events = new EventEmitter<AnimationEventMap>();
+  
+  // Deferred behind instance.finished, replaced when a settled run is played again
+  let finished!: Promise<AnimationInstance>;
+  let resolveFinished!: (instance: AnimationInstance) => void;
+  let rejectFinished!: (reason: DOMException) => void;
+  let isFinishedSettled = false;
+  
+  const resetFinished = (): void => {
+    isFinishedSettled = false;
+    finished = new Promise<AnimationInstance>((resolve, reject) => {
+      resolveFinished = resolve;
+      rejectFinished = reject;
+    });
+    // Like the Web Animations API, an abort nobody listens for is not reported
+    finished.catch(() => {});
+  };
+  
+  const abortFinished = (message: string): void => {
+    if (!isFinishedSettled) {
+      isFinishedSettled = true;
+      rejectFinished(new DOMException(message, 'AbortError'));
+    }
+  };
+  
+  resetFinished();
+  
+  // Play state of the configured driver and runtime config changes, for getState()
+  let playState: PlayState = 'idle';
+  const configOverrides: AnimationState['overrides'] = {};
+  
   // Create canvas manager
   const canvas = createCanvasManager({
     container: fullConfig.mount,
     width: fullConfig.width,
     height: fullConfig.height,
     fitMode: fullConfig.fitMode,
+    onResize: (width, height) => events.emit('resize', { width, height }),
   });
   
-  // Create progress driver based on driver type
-  let driver: ProgressDriver;
-  if (fullConfig.driver === 'time') {
-    driver = new TimeDriver({
-      durationMs: fullConfig.durationMs!,
-      loop: fullConfig.loop,
-    });
-  } else {
-    driver = new ScrollDriver({
-      scrollTarget: fullConfig.scrollTarget ?? null,
-    });
-  }
+  // Create progress driver based on driver type; recreated when updateConfig() swaps it
+  const createDriver = (): ProgressDriver => {
+    if (fullConfig.driver === 'time') {
+      return new TimeDriver({
+        durationMs: fullConfig.durationMs!,
+        loop: fullConfig.loop,
+        playbackRate: fullConfig.playbackRate,
+        direction: fullConfig.direction,
+        delayMs: fullConfig.delayMs,
+        endDelayMs: fullConfig.endDelayMs,
+        clock: fullConfig.clock,
+        onLoop: (iteration) => events.emit('loop', { iteration }),
+        onComplete: () => {
+          if (playState === 'finished') {
+            return; // Already finished, e.g. when a finished animation's driver is swapped
+          }
+          playState = 'finished';
+          events.emit('complete', undefined);
+          if (!isFinishedSettled) {
+            isFinishedSettled = true;
+            resolveFinished(instance);
+          }
+        },
+      });
+    } else if (fullConfig.driver === 'pointer') {
+      return new PointerDriver({
+        element: fullConfig.pointerTarget === 'window' ? null : canvas.element,
+        height: fullConfig.pointerHeight,
+        anchor: fullConfig.pointerAnchor,
+        maxSpeed: fullConfig.pointerMaxSpeed,
+        stiffness: fullConfig.pointerStiffness,
+        clock: fullConfig.clock,
+      });
+    } else if (fullConfig.driver === 'media') {
+      return new MediaDriver({
+        media: fullConfig.mediaElement,
+        startTime: fullConfig.mediaStart,
+        endTime: fullConfig.mediaEnd,
+        onChange: () => syncRenderLoop(),
+      });
+    } else if (fullConfig.driver === 'manual') {
+      return new ManualDriver();
+    } else if (fullConfig.driver === 'view') {
+      return new ViewDriver({
+        viewTarget: fullConfig.viewTarget,
+        root: fullConfig.scrollTarget ?? null,
+        start: fullConfig.viewStart,
+        end: fullConfig.viewEnd,
+        clock: fullConfig.clock,
+      });
+    } else {
+      return new ScrollDriver({
+        scrollTarget: fullConfig.scrollTarget ?? null,
+        scrollStart: fullConfig.scrollStart,
+        scrollEnd: fullConfig.scrollEnd,
+        axis: fullConfig.scrollAxis,
+        smoothing: fullConfig.scrollSmoothing,
+        clock: fullConfig.clock,
+      });
+    }
+  };
   
-  // Create curve function based on configuration priority:
-  // 1. Keypoints (highest priority)
-  // 2. Custom curve function
-  // 3. Preset curve (default)
-  let curveFn: CurveFn;
-  if (fullConfig.keypoints && fullConfig.keypoints.length > 0) {
-    curveFn = createKeypointCurve(fullConfig.keypoints);
-  } else if (fullConfig.customCurve) {
-    curveFn = createCustomCurveAdapter(fullConfig.customCurve);
-  } else {
-    curveFn = getCurvePreset(fullConfig.curvePreset);
-  }
+  let driver = createDriver();
+  
+  // Create curve and path functions from the config; rebuilt when updateConfig() changes them
+  const createCurves = (): Pick<RendererConfig, 'curveFn' | 'pathX' | 'pathY' | 'segmentLabelAt'> => {
+    // Curve function priority:
+    // 1. Keypoints (highest priority)
+    // 2. Custom curve function
+    // 3. Preset curve (default)
+    let curveFn: CurveFn;
+    if (fullConfig.keypoints && fullConfig.keypoints.length > 0) {
+      curveFn = createKeypointCurve(fullConfig.keypoints, {
+        oscillation: fullConfig.keypointOscillation,
+        interpolation: fullConfig.keypointInterpolation,
+      });
+    } else if (fullConfig.customCurve) {
+      curveFn = createCustomCurveAdapter(resolveCurveSource(fullConfig.customCurve));
+    } else {
+      curveFn = getCurvePreset(fullConfig.curvePreset);
+    }
+    
+    // Segments stitch their own curves and paths over slices of progress;
+    // the top-level curve and paths fill in whatever a segment leaves out
+    const pathX = resolveCurveSource(fullConfig.pathX);
+    const pathY = resolveCurveSource(fullConfig.pathY);
+    if (fullConfig.segments && fullConfig.segments.length > 0) {
+      const timeline = createSegmentTimeline(fullConfig.segments, {
+        curveFn,
+        pathX,
+        pathY,
+        keypointOscillation: fullConfig.keypointOscillation,
+        keypointInterpolation: fullConfig.keypointInterpolation,
+      });
+      return {
+        curveFn: timeline.curveFn,
+        pathX: timeline.pathX,
+        pathY: timeline.pathY,
+        segmentLabelAt: timeline.labelAt,
+      };
+    }
+    
+    return { curveFn, pathX, pathY, segmentLabelAt: undefined };
+  };
+  
+  // Replace the height curve with a lookup table when curveSampling is set
+  const sampleCurves = (
+    curves: Pick<RendererConfig, 'curveFn' | 'pathX' | 'pathY' | 'segmentLabelAt'>
+  ): Pick<RendererConfig, 'curveFn' | 'pathX' | 'pathY' | 'segmentLabelAt'> => {
+    const sampling = fullConfig.curveSampling;
+    if (!sampling) {
+      return curves;
+    }
+    
+    // Keypoints follow the ball's Y, which two-axis drivers move independently of progress
+    const usesKeypoints = (fullConfig.keypoints?.length ?? 0) > 0 ||
+      (fullConfig.segments ?? []).some(segment => (segment.keypoints?.length ?? 0) > 0);
+    const isTwoAxis = fullConfig.driver === 'pointer' ||
+      (fullConfig.driver === 'scroll' && fullConfig.scrollAxis === 'both');
+    if (usesKeypoints && isTwoAxis) {
+      console.warn(
+        '[Ball Animation] curveSampling is ignored for keypoint curves with a two-axis driver, because the ball\'s Y does not follow progress'
+      );
+      return curves;
+    }
+    
+    const table = createCurveLookupTable(
+      curves.curveFn,
+      sampling,
+      (t) => ({ x: curves.pathX(t), y: curves.pathY(t) })
+    );
+    if (fullConfig.debug) {
+      console.log(
+        `[Ball Animation] Height curve sampled at ${sampling.resolution} intervals (${sampling.interpolation ?? 'linear'}), max error ${table.maxError.toExponential(2)}`
+      );
+    }
+    return { ...curves, curveFn: table.curveFn };
+  };
+  
+  // Layer noise over the (possibly sampled) curve and paths. Noise is applied after
+  // sampling so it is not baked, and can change from one loop iteration to the next.
+  const buildCurves = (): Pick<RendererConfig, 'curveFn' | 'pathX' | 'pathY' | 'segmentLabelAt'> => {
+    const curves = sampleCurves(createCurves());
+    const noise = fullConfig.noise;
+    if (noise) {
+      // Reads the current driver, which updateConfig() may replace
+      const iteration = (): number => driver.getIteration?.() ?? 0;
+      // Default seeds are far apart so the channels wobble independently
+      if (noise.height) {
+        curves.curveFn = withNoise(curves.curveFn, { seed: 0, ...noise.height }, iteration);
+      }
+      if (noise.x) {
+        curves.pathX = withNoise(curves.pathX, { seed: 1000, ...noise.x }, iteration);
+      }
+      if (noise.y) {
+        curves.pathY = withNoise(curves.pathY, { seed: 2000, ...noise.y }, iteration);
+      }
+    }
+    return curves;
+  };
+  
+  // Audio-reactive height replaces the curve output when an audio input is configured
+  const heightSource = fullConfig.audioSource || fullConfig.audioAnalyser
+    ? new AudioHeightSource({
+        source: fullConfig.audioSource,
+        analyser: fullConfig.audioAnalyser,
+        metric: fullConfig.audioMetric,
+        band: fullConfig.audioBand,
+        attackMs: fullConfig.audioAttackMs,
+        releaseMs: fullConfig.audioReleaseMs,
+        gain: fullConfig.audioGain,
+        clock: fullConfig.clock,
+      })
+    : undefined;
   
   // Ensure ballStyle has all required fields
   const ballStyle: Required<BallStyle> = {
@@ -172,24 +482,160 @@ export function createBallAnimation(config: AnimationConfig): AnimationInstance
     }
   }
   
+  // Markers are checked against the progress rendered each frame
+  const markerTracker = new MarkerTracker(fullConfig.markers);
+  
+  // 'progress' fires only when the rendered progress changes
+  let lastRenderedProgress: number | null = null;
+  
   // Create renderer with interaction manager
   const renderer = new Renderer({
     canvas,
     driver,
-    curveFn,
-    pathX: fullConfig.pathX,
-    pathY: fullConfig.pathY,
+    ...buildCurves(),
+    heightSource,
     shadowCalculator,
     light: fullConfig.light,
     ballStyle,
     zones: fullConfig.zones,
     debug: fullConfig.debug,
     interactionManager,
+    markerTracker,
+    clock: fullConfig.clock,
+    onUpdate: (state) => {
+      if (state.t !== lastRenderedProgress) {
+        lastRenderedProgress = state.t;
+        events.emit('progress', { progress: state.t });
+      }
+    },
   });
   
   // Track if animation has been destroyed
   let isDestroyed = false;
   
+  // Light, ball style and shadow changes in progress; the config holds their targets
+  let styleTransition: StyleTransition | null = null;
+  
+  const getTargetStyle = (): TransitionStyle => ({
+    light: { ...fullConfig.light },
+    ballStyle: { ...ballStyle },
+    shadow: { ...CONFIG_DEFAULTS.shadow, ...fullConfig.shadow },
+  });
+  
+  const applyStyle = (style: TransitionStyle): void => {
+    renderer.setLight(style.light);
+    renderer.setBallStyle(style.ballStyle);
+    renderer.setShadowCalculator(createShadowCalculator(
+      style.shadow,
+      canvas.width,
+      canvas.height,
+      style.ballStyle.radiusAtGround
+    ));
+  };
+  
+  // setProgress() renders through a manual driver while the configured driver is paused.
+  // For the 'manual' driver type the configured driver is already manual.
+  let manualDriver = driver instanceof ManualDriver ? driver : new ManualDriver();
+  let isManualControl = driver === manualDriver;
+  
+  const setManualControl = (enabled: boolean): void => {
+    if (driver === manualDriver || enabled === isManualControl) {
+      return;
+    }
+    
+    isManualControl = enabled;
+    if (enabled) {
+      // Hold the ball where it is until the first setProgress()
+      manualDriver.setProgress(driver.getRenderProgress?.() ?? driver.getProgress());
+      driver.pause();
+      if (playState === 'running') {
+        playState = 'paused';
+      }
+      renderer.setDriver(manualDriver);
+    } else {
+      renderer.setDriver(driver);
+    }
+  };
+  
+  // Swap in a driver built from the current config, carrying over progress and play state
+  const replaceDriver = (): void => {
+    const previous = driver;
+    const wasManualType = previous === manualDriver;
+    const previousPlayState = playState;
+    const timelineProgress = previous.getRenderProgress?.() ?? previous.getProgress();
+    const renderedProgress = isManualControl ? manualDriver.getProgress() : timelineProgress;
+    const iteration = previous.getIteration?.() ?? 0;
+    
+    driver = createDriver();
+    if (previous instanceof TimeDriver && driver instanceof TimeDriver) {
+      driver.setPlaybackRate(previous.getPlaybackRate());
+    }
+    previous.stop();
+    previous.destroy();
+    
+    if (driver instanceof ManualDriver) {
+      // The manual driver type renders its own progress, so it replaces the helper
+      if (!wasManualType) {
+        manualDriver.destroy();
+      }
+      manualDriver = driver;
+      isManualControl = true;
+      manualDriver.setProgress(renderedProgress);
+    } else {
+      if (wasManualType) {
+        manualDriver = new ManualDriver();
+        isManualControl = false;
+      }
+      
+      if (previousPlayState !== 'idle') {
+        // A finished animation stays finished if the new driver ends at the same place
+        playState = previousPlayState === 'finished' ? 'finished' : 'paused';
+        if (driver.seekProgress) {
+          driver.seekProgress(timelineProgress, iteration);
+        } else {
+          // Scroll, view, pointer and media drivers take progress from their input
+          driver.start();
+          driver.pause();
+        }
+        
+        if (!(driver.isFinished?.() ?? false)) {
+          playState = 'paused';
+          if (previousPlayState === 'running' && !isManualControl) {
+            driver.start();
+            playState = 'running';
+          }
+        }
+      }
+    }
+    
+    const activeDriver: ProgressDriver = isManualControl ? manualDriver : driver;
+    renderer.setDriver(activeDriver);
+    syncRenderLoop();
+    
+    // Swapping drivers is a jump, not a pass through the markers in between
+    if (markerTracker.isTracking()) {
+      markerTracker.reset(
+        activeDriver.getRenderProgress?.() ?? activeDriver.getProgress(),
+        driver.getIteration?.() ?? 0
+      );
+    }
+  };
+  
+  // A media driver only moves while its media plays, so while the media is paused or
+  // ended the render loop is held and only draws seeks and config changes
+  const syncRenderLoop = (): void => {
+    if (isDestroyed || playState !== 'running') {
+      return;
+    }
+    
+    if (!isManualControl && driver instanceof MediaDriver && !driver.isPlaying()) {
+      renderer.hold();
+      renderer.invalidate();
+    } else {
+      renderer.start();
+    }
+  };
+  
   // Create animation instance with control methods
   const instance: AnimationInstance = {
     play(): void {
@@ -198,8 +644,29 @@ export function createBallAnimation(config: AnimationConfig): AnimationInstance
         return;
       }
       
+      setManualControl(false);
+      
+      // Playing a finished run again starts a new one with a new finished promise
+      if (isFinishedSettled) {
+        resetFinished();
+      }
+      
+      const isRestart = driver.isFinished?.() ?? false;
       driver.start();
+      playState = 'running';
+      
+      // Track markers from where playback starts, so markers passed before the first
+      // frame still fire; replaying a finished animation is a new run, not a jump back
+      if (isRestart || !markerTracker.isTracking()) {
+        markerTracker.reset(
+          driver.getRenderProgress?.() ?? driver.getProgress(),
+          driver.getIteration?.() ?? 0
+        );
+      }
+      
       renderer.start();
+      syncRenderLoop();
+      events.emit('play', undefined);
     },
     
     pause(): void {
@@ -209,7 +676,11 @@ export function createBallAnimation(config: AnimationConfig): AnimationInstance
       }
       
       driver.pause();
+      if (playState === 'running') {
+        playState = 'paused';
+      }
       // Renderer continues running to show paused state
+      events.emit('pause', undefined);
     },
     
     stop(): void {
@@ -218,8 +689,17 @@ export function createBallAnimation(config: AnimationConfig): AnimationInstance
         return;
       }
       
+      setManualControl(false);
       driver.stop();
+      manualDriver.stop();
       renderer.stop();
+      markerTracker.reset();
+      playState = 'idle';
+      
+      // Stopping cancels the run: reject its promise and wait for the next one
+      abortFinished('The animation was stopped before it finished');
+      resetFinished();
+      events.emit('stop', undefined);
     },
     
     setProgress(progress: number): void {
@@ -236,38 +716,126 @@ export function createBallAnimation(config: AnimationConfig): AnimationInstance
         );
       }
       
-      // Stop the current driver
-      driver.stop();
+      setManualControl(true);
+      manualDriver.setProgress(clampedProgress);
       
-      // Create a manual driver that returns the fixed progress
-      const manualDriver: ProgressDriver = {
-        start: () => {},
-        stop: () => {},
-        pause: () => {},
-        resume: () => {},
-        getProgress: () => clampedProgress,
-        destroy: () => {},
-      };
+      // Ensure renderer is running to show the new progress
+      renderer.start();
+    },
+    
+    setManualControl(enabled: boolean): void {
+      if (isDestroyed) {
+        console.warn('[Ball Animation] Cannot set manual control: animation has been destroyed');
+        return;
+      }
+      
+      setManualControl(enabled);
+    },
+    
+    setPlaybackRate(rate: number): void {
+      if (isDestroyed) {
+        console.warn('[Ball Animation] Cannot set playback rate: animation has been destroyed');
+        return;
+      }
       
-      // Replace the driver temporarily
-      // Note: This is a simplified implementation. A full implementation would
-      // need to properly manage driver lifecycle and allow resuming normal playback
-      (renderer as any).config.driver = manualDriver;
+      if (typeof rate !== 'number' || !Number.isFinite(rate)) {
+        console.warn(`[Ball Animation] Playback rate must be a finite number, ignoring ${rate}`);
+        return;
+      }
       
-      // Ensure renderer is running to show the new progress
-      if (!renderer['isRunning']) {
-        renderer.start();
+      if (!driver.setPlaybackRate) {
+        console.warn(`[Ball Animation] Playback rate has no effect on the "${fullConfig.driver}" driver`);
+        return;
       }
+      
+      driver.setPlaybackRate(rate);
     },
     
-    updateConfig(partialConfig: Partial<AnimationConfig>): void {
+    seek(ms: number): void {
+      if (isDestroyed) {
+        console.warn('[Ball Animation] Cannot seek: animation has been destroyed');
+        return;
+      }
+      
+      if (typeof ms !== 'number' || !Number.isFinite(ms)) {
+        console.warn(`[Ball Animation] Seek time must be a finite number, ignoring ${ms}`);
+        return;
+      }
+      
+      if (!driver.seek) {
+        console.warn(`[Ball Animation] Seeking has no effect on the "${fullConfig.driver}" driver`);
+        return;
+      }
+      
+      // Show the configured driver at its new position
+      setManualControl(false);
+      if (playState !== 'running') {
+        playState = 'paused'; // Seeking an idle or finished animation holds it there
+      }
+      driver.seek(ms);
+      renderer.start();
+    },
+    
+    seekProgress(progress: number): void {
+      if (isDestroyed) {
+        console.warn('[Ball Animation] Cannot seek: animation has been destroyed');
+        return;
+      }
+      
+      if (typeof progress !== 'number' || isNaN(progress)) {
+        console.warn(`[Ball Animation] Seek progress must be a number, ignoring ${progress}`);
+        return;
+      }
+      
+      // Validate progress value
+      const clampedProgress = Math.max(0, Math.min(1, progress));
+      if (clampedProgress !== progress) {
+        console.warn(
+          `[Ball Animation] Progress value ${progress} out of range [0,1], clamping to ${clampedProgress}`
+        );
+      }
+      
+      if (!driver.seekProgress) {
+        console.warn(`[Ball Animation] Seeking has no effect on the "${fullConfig.driver}" driver`);
+        return;
+      }
+      
+      // Show the configured driver at its new position
+      setManualControl(false);
+      if (playState !== 'running') {
+        playState = 'paused';
+      }
+      driver.seekProgress(clampedProgress);
+      renderer.start();
+    },
+    
+    updateConfig(partialConfig: Partial<AnimationConfig>, options?: TransitionOptions): void {
       if (isDestroyed) {
         console.warn('[Ball Animation] Cannot update config: animation has been destroyed');
         return;
       }
       
+      let transitionMs = options?.transitionMs ?? 0;
+      if (typeof transitionMs !== 'number' || !Number.isFinite(transitionMs) || transitionMs < 0) {
+        console.warn(
+          '[Ball Animation] transitionMs must be a non-negative finite number, applying the change immediately'
+        );
+        transitionMs = 0;
+      }
+      
       // Track which properties can be updated at runtime
-      const updatableProperties = ['debug', 'light', 'shadow', 'ballStyle', 'zones'];
+      const driverProperties: (keyof AnimationConfig)[] = [
+        'driver', 'durationMs', 'loop', 'mediaElement', 'mediaStart', 'mediaEnd', 'viewTarget', 'viewStart',
+        'viewEnd', 'scrollTarget', 'scrollStart', 'scrollEnd', 'scrollAxis', 'scrollSmoothing', 'pointerTarget',
+        'pointerHeight', 'pointerAnchor', 'pointerMaxSpeed', 'pointerStiffness',
+      ];
+      const reconfigurableProperties: (keyof AnimationConfig)[] = [
+        ...driverProperties, 'curvePreset', 'customCurve', 'keypoints', 'keypointOscillation',
+        'keypointInterpolation', 'curveSampling', 'noise', 'pathX', 'pathY', 'width', 'height', 'fitMode',
+      ];
+      const updatableProperties: string[] = [
+        'debug', 'light', 'shadow', 'ballStyle', 'zones', 'markers', ...reconfigurableProperties,
+      ];
       const requestedUpdates = Object.keys(partialConfig);
       const nonUpdatableRequests = requestedUpdates.filter(
         key => !updatableProperties.includes(key)
@@ -280,14 +848,86 @@ export function createBallAnimation(config: AnimationConfig): AnimationInstance
         );
       }
       
+      // Rebuild the driver, curves and canvas layout. The merged config is validated
+      // first, so an invalid update throws before anything changes.
+      const reconfigured = reconfigurableProperties.filter(key => key in partialConfig);
+      if (reconfigured.length > 0) {
+        const nextUserConfig: AnimationConfig = { ...userConfig };
+        for (const key of reconfigured) {
+          Object.assign(nextUserConfig, { [key]: partialConfig[key] });
+        }
+        validateConfig(nextUserConfig);
+        userConfig = nextUserConfig;
+        
+        // Record the changes for getState(); DOM targets and functions cannot be serialized
+        for (const key of reconfigured) {
+          const value = partialConfig[key];
+          if (isSerializable(value)) {
+            Object.assign(configOverrides, { [key]: copyData(value) });
+          } else {
+            delete configOverrides[key as keyof AnimationState['overrides']];
+          }
+        }
+        
+        // Defaults such as the pointer paths depend on the driver, so reapply them
+        const nextConfig = applyDefaults(userConfig);
+        for (const key of reconfigurableProperties) {
+          Object.assign(fullConfig, { [key]: nextConfig[key] });
+        }
+        
+        if (driverProperties.some(key => key in partialConfig)) {
+          replaceDriver();
+        }
+        
+        // The scroll axis decides whether sampled keypoint curves apply
+        const curveKeys = [
+          'driver', 'scrollAxis', 'curvePreset', 'customCurve', 'keypoints', 'keypointOscillation',
+          'keypointInterpolation', 'curveSampling', 'noise', 'pathX', 'pathY',
+        ];
+        if (curveKeys.some(key => key in partialConfig)) {
+          renderer.setCurves(buildCurves());
+        }
+        
+        if (['width', 'height', 'fitMode'].some(key => key in partialConfig)) {
+          canvas.setLayout({
+            width: fullConfig.width,
+            height: fullConfig.height,
+            fitMode: fullConfig.fitMode,
+          });
+          
+          // Shadow offsets are measured in canvas pixels
+          renderer.setShadowCalculator(createShadowCalculator(
+            fullConfig.shadow,
+            canvas.width,
+            canvas.height,
+            ballStyle.radiusAtGround
+          ));
+        }
+      }
+      
       // Update debug mode
       if (partialConfig.debug !== undefined) {
         renderer.setDebug(partialConfig.debug);
+        configOverrides.debug = partialConfig.debug;
+      }
+      
+      // Style on screen, which a transition starts from
+      const isStyleUpdate = partialConfig.light !== undefined ||
+        partialConfig.shadow !== undefined ||
+        partialConfig.ballStyle !== undefined;
+      let displayedStyle = getTargetStyle();
+      let wasTransitioning = false;
+      if (isStyleUpdate && styleTransition) {
+        displayedStyle = styleTransition.cancel();
+        styleTransition = null;
+        wasTransitioning = true;
       }
       
       // Update light position
       if (partialConfig.light !== undefined) {
+        fullConfig.light = partialConfig.light;
         renderer.setLight(partialConfig.light);
+        configOverrides.light = { ...partialConfig.light };
       }
       
       // Update shadow options
@@ -295,6 +935,7 @@ export function createBallAnimation(config: AnimationConfig): AnimationInstance
         // Merge with existing shadow options
         const mergedShadow = { ...fullConfig.shadow, ...partialConfig.shadow };
         fullConfig.shadow = mergedShadow;
+        configOverrides.shadow = { ...configOverrides.shadow, ...partialConfig.shadow };
         
         // Recreate shadow calculator with new options
         const newShadowCalculator = createShadowCalculator(
@@ -315,6 +956,7 @@ export function createBallAnimation(config: AnimationConfig): AnimationInstance
         
         // Update the local ballStyle reference
         Object.assign(ballStyle, updatedBallStyle);
+        configOverrides.ballStyle = { ...configOverrides.ballStyle, ...partialConfig.ballStyle };
         
         renderer.setBallStyle(updatedBallStyle);
         
@@ -330,6 +972,37 @@ export function createBallAnimation(config: AnimationConfig): AnimationInstance
         }
       }
       
+      if (isStyleUpdate && transitionMs > 0) {
+        const easing = options?.easing ?? 'easeInOut';
+        let easingFn: CurveFn = easeInOut;
+        if (typeof easing === 'function') {
+          easingFn = easing;
+        } else {
+          try {
+            // Transitions keep CSS easing overshoot, as CSS transitions do
+            easingFn = typeof easing === 'string' && isCssEasing(easing)
+              ? parseCssEasing(easing)
+              : getCurvePreset(easing);
+          } catch {
+            console.warn(`[Ball Animation] Unknown transition easing "${String(easing)}", using "easeInOut"`);
+          }
+        }
+        
+        styleTransition = new StyleTransition({
+          from: displayedStyle,
+          to: getTargetStyle(),
+          durationMs: transitionMs,
+          easing: easingFn,
+          colorSpace: options?.colorSpace ?? 'oklab',
+          clock: fullConfig.clock,
+          onUpdate: applyStyle,
+        });
+        styleTransition.start();
+      } else if (wasTransitioning) {
+        // An immediate change also finishes the transition that was running
+        applyStyle(getTargetStyle());
+      }
+      
       // Update zones
       if (partialConfig.zones !== undefined) {
         // Clear existing zones
@@ -345,6 +1018,140 @@ export function createBallAnimation(config: AnimationConfig): AnimationInstance
         renderer.setZones(partialConfig.zones);
         fullConfig.zones = partialConfig.zones;
       }
+      
+      // Update markers; the tracked position is kept so nothing fires retroactively
+      if (partialConfig.markers !== undefined) {
+        markerTracker.setMarkers(partialConfig.markers);
+        fullConfig.markers = partialConfig.markers;
+      }
+    },
+    
+    on(event, handler): void {
+      if (isDestroyed) {
+        console.warn('[Ball Animation] Cannot add listener: animation has been destroyed');
+        return;
+      }
+      
+      events.on(event, handler);
+    },
+    
+    off(event, handler): void {
+      events.off(event, handler);
+    },
+    
+    once(event, handler): void {
+      if (isDestroyed) {
+        console.warn('[Ball Animation] Cannot add listener: animation has been destroyed');
+        return;
+      }
+      
+      events.once(event, handler);
+    },
+    
+    get finished(): Promise<AnimationInstance> {
+      return finished;
+    },
+    
+    getState(): AnimationState {
+      const activeDriver: ProgressDriver = isManualControl ? manualDriver : driver;
+      
+      return {
+        driver: fullConfig.driver,
+        progress: activeDriver.getRenderProgress?.() ?? activeDriver.getProgress(),
+        iteration: driver.getIteration?.() ?? 0,
+        loopCount: driver instanceof TimeDriver ? driver.getCompletedLoops() : 0,
+        playState,
+        manualControl: isManualControl && driver !== manualDriver,
+        driverState: driver instanceof TimeDriver ? driver.getState() : null,
+        overrides: copyOverrides(configOverrides),
+      };
+    },
+    
+    restoreState(state: AnimationState): void {
+      if (isDestroyed) {
+        console.warn('[Ball Animation] Cannot restore state: animation has been destroyed');
+        return;
+      }
+      
+      try {
+        validateAnimationState(state);
+      } catch (error) {
+        if (error instanceof ConfigValidationError) {
+          console.warn(`[Ball Animation] Cannot restore state: ${error.message}`);
+          return;
+        }
+        throw error;
+      }
+      
+      // A driver swapped with updateConfig() is part of the overrides
+      const restoredDriver = state.overrides.driver ?? fullConfig.driver;
+      if (state.driver !== restoredDriver) {
+        console.warn(
+          `[Ball Animation] Cannot restore state captured from a "${state.driver}" animation ` +
+          `into a "${restoredDriver}" animation`
+        );
+        return;
+      }
+      
+      // Reconfigure first, so the position below is restored on the captured driver and curves
+      if (Object.keys(state.overrides).length > 0) {
+        try {
+          instance.updateConfig(copyOverrides(state.overrides));
+        } catch (error) {
+          if (error instanceof ConfigValidationError) {
+            console.warn(`[Ball Animation] Cannot restore state: ${error.message}`);
+            return;
+          }
+          throw error;
+        }
+      }
+      
+      // Reset quietly, without the 'stop' event, then rebuild the captured position
+      setManualControl(false);
+      driver.stop();
+      manualDriver.stop();
+      playState = 'idle';
+      if (isFinishedSettled) {
+        resetFinished();
+      }
+      
+      if (state.playState !== 'idle') {
+        playState = 'paused';
+        
+        if (driver instanceof TimeDriver && state.driverState) {
+          // Restoring the end of the timeline completes the animation
+          driver.restoreState(state.driverState);
+        } else {
+          driver.start();
+          driver.pause();
+        }
+        
+        if (state.playState === 'running' && !(driver.isFinished?.() ?? false)) {
+          driver.start();
+          playState = 'running';
+        }
+      }
+      
+      if (state.manualControl) {
+        setManualControl(true);
+      }
+      if (isManualControl) {
+        manualDriver.setProgress(state.progress);
+      }
+      
+      // Jumping to the restored position is not passing through the markers on the way
+      const activeDriver: ProgressDriver = isManualControl ? manualDriver : driver;
+      markerTracker.reset(
+        activeDriver.getRenderProgress?.() ?? activeDriver.getProgress(),
+        driver.getIteration?.() ?? 0
+      );
+      
+      if (playState !== 'idle' || isManualControl) {
+        renderer.start();
+        syncRenderLoop();
+      } else {
+        renderer.stop();
+      }
     },
     
     destroy(): void {
@@ -353,6 +1160,9 @@ export function createBallAnimation(config: AnimationConfig): AnimationInstance
       }
       
       isDestroyed = true;
+      events.emit('destroy', undefined);
+      styleTransition?.cancel();
+      abortFinished('The animation was destroyed before it finished');
       
       // Stop and clean up all modules in reverse order of creation
       renderer.stop();
@@ -362,12 +1172,55 @@ export function createBallAnimation(config: AnimationConfig): AnimationInstance
       
       driver.stop();
       driver.destroy();
+      manualDriver.destroy();
+      
+      heightSource?.destroy();
       
       canvas.destroy();
       
+      events.clear();
+      
       console.log('[Ball Animation] Animation instance destroyed');
     },
   };
   
   return instance;
 }
+
+/**
+ * Copy the overrides of an AnimationState so callers cannot mutate the instance's copy.
+ */
+function copyOverrides(overrides: AnimationState['overrides']): AnimationState['overrides'] {
+  return copyData(overrides);
+}
+
+/**
+ * Deep copy of plain data such as keypoints or noise options.
+ */
+function copyData<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(copyData) as unknown as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, copyData(entry)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Whether a config value survives serialization: no functions or DOM nodes at any depth.
+ */
+function isSerializable(value: unknown): boolean {
+  if (typeof value === 'function' || value instanceof Node) {
+    return false;
+  }
+  if (Array.isArray(value)) {
+    return value.every(isSerializable);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.values(value).every(isSerializable);
+  }
+  return true;
+}
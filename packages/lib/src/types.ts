@@ -89,6 +89,8 @@ export interface ShadowOptions {
 /**
  * Keypoint for defining height curves based on Y position.
  * The system interpolates smoothly between keypoints to create continuous motion.
+ * The ball's Y from pathY picks the keypoints, and keypointOscillation picks the
+ * height between each keypoint's zMin and zMax.
  * 
  * @example
  * ```typescript
@@ -106,6 +108,313 @@ export interface Keypoint {
   zMin: number;
   /** Maximum Z height at this keypoint [0,1] */
   zMax: number;
+  /**
+   * Slope of height over Y (dz/dy) at this keypoint, replacing the computed tangent.
+   * Pass { in, out } for different slopes on each side, e.g. a sharp landing.
+   * Ignored by 'linear' interpolation.
+   */
+  tangent?: number | { in: number; out: number };
+}
+
+/**
+ * How heights are interpolated between keypoints.
+ * - 'linear': straight lines with corners at the keypoints
+ * - 'catmull-rom': smooth cubic spans through every keypoint
+ * - 'monotone': smooth spans that never overshoot the keypoint heights
+ * - 'natural-spline': smoothest curve (continuous curvature), may overshoot
+ */
+export type KeypointInterpolation = 'linear' | 'catmull-rom' | 'monotone' | 'natural-spline';
+
+/**
+ * Curve or path given as a function of progress, or as an expression string of t
+ * such as "0.5 + 0.4 * sin(2 * pi * t)". Expressions are compiled once without
+ * eval(), so they are CSP-safe and can be stored in JSON configs.
+ * 
+ * @example
+ * ```typescript
+ * const asFunction: CurveSource = (t) => t * t;
+ * const asExpression: CurveSource = 't ^ 2';
+ * ```
+ */
+export type CurveSource = ((t: number) => number) | string;
+
+/**
+ * Lookup-table sampling for the height curve.
+ * The curve is evaluated at resolution + 1 evenly spaced progress values when it is
+ * built, and each frame reads the table instead of calling the curve.
+ * 
+ * @example
+ * ```typescript
+ * const sampling: CurveSampling = { resolution: 128, interpolation: 'cubic' };
+ * ```
+ */
+export interface CurveSampling {
+  /** Number of intervals between samples, a positive integer */
+  resolution: number;
+  
+  /**
+   * Lookup between samples: 'linear' never overshoots the samples, 'cubic'
+   * (Catmull-Rom) is smoother and more accurate for the same resolution, and is
+   * clamped to the lowest and highest sample.
+   * @default 'linear'
+   */
+  interpolation?: 'linear' | 'cubic';
+}
+
+/**
+ * Seeded gradient noise layered over a height curve or path.
+ * Noise follows progress, so the same progress always gets the same offset.
+ * 
+ * @example
+ * ```typescript
+ * const wobble: NoiseOptions = { amplitude: 0.05, frequency: 6, octaves: 3, seed: 7 };
+ * ```
+ */
+export interface NoiseOptions {
+  /** Largest offset added to the value, in normalized units */
+  amplitude: number;
+  
+  /**
+   * Noise cycles over the full progress range. Integer values are 0 at both ends,
+   * so alternate loops also join without a jump.
+   * @default 4
+   */
+  frequency?: number;
+  
+  /**
+   * Layers of finer detail, each at twice the frequency and half the amplitude.
+   * @default 1
+   */
+  octaves?: number;
+  
+  /**
+   * Integer seed; the same seed always produces the same noise.
+   * @default 0 for height, 1000 for x, 2000 for y
+   */
+  seed?: number;
+}
+
+/**
+ * Noise modifiers for the height curve and the X and Y paths
+ */
+export interface NoiseModifiers {
+  height?: NoiseOptions;
+  x?: NoiseOptions;
+  y?: NoiseOptions;
+}
+
+/**
+ * Name of a built-in height curve.
+ * The parametric presets (bounce, elastic, spring, gravityArc) use their default options.
+ */
+export type CurvePresetName =
+  | 'sine'
+  | 'cosine'
+  | 'easeInOut'
+  | 'linear'
+  | 'bezier'
+  | 'bounce'
+  | 'elastic'
+  | 'spring'
+  | 'gravityArc';
+
+/**
+ * Options for the bounce curve: a ball dropped from full height that loses
+ * energy on every impact and comes to rest at t = 1.
+ */
+export interface BounceCurveOptions {
+  /**
+   * Number of rebounds after the first impact (a non-negative integer).
+   * @default 3
+   */
+  bounces?: number;
+  
+  /**
+   * Fraction of speed kept on each impact, in (0,1). Each apex is restitution²
+   * times the previous one.
+   * @default 0.5
+   */
+  restitution?: number;
+}
+
+/**
+ * Options for the elastic curve: rises from 0 and overshoots in a decaying
+ * oscillation before settling. The highest overshoot is scaled to height 1.
+ */
+export interface ElasticCurveOptions {
+  /**
+   * Overshoot scale, at least 1. Larger values swing further past the rest height.
+   * @default 1
+   */
+  amplitude?: number;
+  
+  /**
+   * Length of one oscillation as a fraction of progress (positive).
+   * @default 0.3
+   */
+  period?: number;
+}
+
+/**
+ * Options for the spring curve: a damped spring pulled from 0 towards rest,
+ * where progress 1 is one second of motion. The first overshoot is scaled to height 1.
+ */
+export interface SpringCurveOptions {
+  /**
+   * Spring constant (positive). Stiffer springs oscillate faster.
+   * @default 100
+   */
+  stiffness?: number;
+  
+  /**
+   * Damping coefficient (non-negative). 0 oscillates forever.
+   * @default 10
+   */
+  damping?: number;
+  
+  /**
+   * Mass on the spring (positive).
+   * @default 1
+   */
+  mass?: number;
+}
+
+/**
+ * Options for the gravity arc curve: consecutive hops under constant gravity.
+ */
+export interface GravityArcCurveOptions {
+  /**
+   * Apex height of each hop, in (0,1]. Each hop starts and ends on the ground and
+   * lasts in proportion to the square root of its apex, as a real throw would.
+   * @default [1]
+   */
+  apexes?: number[];
+}
+
+/**
+ * Parametric height curve selected by type, with its options alongside.
+ * 
+ * @example
+ * ```typescript
+ * const curvePreset: ParametricCurvePreset = { type: 'bounce', bounces: 4, restitution: 0.6 };
+ * ```
+ */
+export type ParametricCurvePreset =
+  | ({ type: 'bounce' } & BounceCurveOptions)
+  | ({ type: 'elastic' } & ElasticCurveOptions)
+  | ({ type: 'spring' } & SpringCurveOptions)
+  | ({ type: 'gravityArc' } & GravityArcCurveOptions);
+
+/**
+ * CSS easing function string, as copied from a stylesheet or design tool.
+ * Named easings, cubic-bezier(), steps() and linear() are supported.
+ * 
+ * @example
+ * ```typescript
+ * const easings: CssEasing[] = [
+ *   'ease-out',
+ *   'cubic-bezier(0.34, 1.56, 0.64, 1)',
+ *   'steps(4, jump-end)',
+ *   'linear(0, 0.25 30%, 1)'
+ * ];
+ * ```
+ */
+export type CssEasing =
+  | 'ease'
+  | 'ease-in'
+  | 'ease-out'
+  | 'ease-in-out'
+  | 'step-start'
+  | 'step-end'
+  | `cubic-bezier(${string})`
+  | `steps(${string})`
+  | `linear(${string})`;
+
+/**
+ * Built-in curve name, CSS easing string or parametric curve.
+ */
+export type CurvePreset = CurvePresetName | CssEasing | ParametricCurvePreset;
+
+/**
+ * One beat of a multi-segment timeline.
+ * Each segment owns a share of overall progress and maps its local progress [0,1]
+ * through its own easing, height curve and path functions.
+ * Fields a segment leaves out fall back to the top-level curve and path functions,
+ * evaluated at overall progress.
+ * 
+ * @example
+ * ```typescript
+ * const segments: TimelineSegment[] = [
+ *   { label: 'drop', share: 1, customCurve: (t) => 1 - t * t },
+ *   { label: 'bounce', share: 2, customCurve: (t) => Math.sin(t * Math.PI) * 0.4 },
+ *   { label: 'roll', share: 1, customCurve: () => 0, pathX: (t) => 0.5 + t * 0.4 }
+ * ];
+ * ```
+ */
+export interface TimelineSegment {
+  /** Name reported in BallState.segment and to zone callbacks while this segment is active */
+  label: string;
+  
+  /**
+   * Relative share of overall progress. Shares are normalized across all segments.
+   * @default 1
+   */
+  share?: number;
+  
+  /**
+   * Maps local progress [0,1] before the curve and path functions are evaluated.
+   * @default (t) => t
+   */
+  easing?: (t: number) => number;
+  
+  /** Preset height curve or CSS easing string for this segment */
+  curvePreset?: CurvePreset;
+  
+  /** Custom height curve or expression for this segment. Overrides curvePreset. */
+  customCurve?: CurveSource;
+  
+  /** Keypoint height curve for this segment. Overrides curvePreset and customCurve. */
+  keypoints?: Keypoint[];
+  
+  /** Horizontal position over local progress, as a function or expression */
+  pathX?: CurveSource;
+  
+  /** Vertical position over local progress, as a function or expression */
+  pathY?: CurveSource;
+}
+
+/**
+ * Direction of travel when progress passes a marker.
+ */
+export type MarkerDirection = 'forward' | 'backward';
+
+/**
+ * Temporal trigger at a fixed progress value.
+ * Markers fire when progress reaches or crosses them in either direction, including
+ * across loop wraps and large jumps, independent of the ball's position.
+ * 
+ * @example
+ * ```typescript
+ * const marker: ProgressMarker = {
+ *   id: 'cta',
+ *   at: 0.25,
+ *   onPass: (marker, direction) => console.log(`Passed ${marker.id} going ${direction}`)
+ * };
+ * ```
+ */
+export interface ProgressMarker {
+  /** Unique identifier for this marker */
+  id: string;
+  
+  /** Progress value [0,1] at which the marker sits */
+  at: number;
+  
+  /**
+   * Called once each time progress reaches or crosses the marker.
+   * @param marker - The marker that was passed
+   * @param direction - 'forward' when progress was increasing, 'backward' when decreasing
+   */
+  onPass?: (marker: ProgressMarker, direction: MarkerDirection) => void;
 }
 
 /**
@@ -147,35 +456,131 @@ export interface InteractiveZone {
   /**
    * Called once when the ball enters the zone.
    * @param zone - The zone that was entered
+   * @param segment - Label of the active timeline segment, if segments are configured
    */
-  onEnter?: (zone: InteractiveZone) => void;
+  onEnter?: (zone: InteractiveZone, segment?: string) => void;
   
   /**
    * Called once when the ball exits the zone.
    * @param zone - The zone that was exited
+   * @param segment - Label of the active timeline segment, if segments are configured
    */
-  onExit?: (zone: InteractiveZone) => void;
+  onExit?: (zone: InteractiveZone, segment?: string) => void;
   
   /**
    * Called when the zone is clicked.
    * @param event - The mouse event
    * @param zone - The zone that was clicked
+   * @param segment - Label of the segment active in the last rendered frame, if segments are configured
    */
-  onClick?: (event: MouseEvent, zone: InteractiveZone) => void;
+  onClick?: (event: MouseEvent, zone: InteractiveZone, segment?: string) => void;
   
   /**
    * Called when the ball reaches a local maximum Z height within the zone.
    * @param z - The Z height at the peak
    * @param zone - The zone where the peak occurred
+   * @param segment - Label of the active timeline segment, if segments are configured
    */
-  onPeak?: (z: number, zone: InteractiveZone) => void;
+  onPeak?: (z: number, zone: InteractiveZone, segment?: string) => void;
   
   /**
    * Called when the ball reaches a local minimum Z height within the zone.
    * @param z - The Z height at the valley
    * @param zone - The zone where the valley occurred
+   * @param segment - Label of the active timeline segment, if segments are configured
+   */
+  onValley?: (z: number, zone: InteractiveZone, segment?: string) => void;
+}
+
+/**
+ * Scroll position marking one end of a scroll-driven animation's range.
+ * - number: Absolute scroll offset in pixels
+ * - percentage string: Fraction of the total scrollable distance (e.g. '25%')
+ * - HTMLElement: Scroll offset at which the element's top edge reaches the top of the scroll container
+ * 
+ * @example
+ * ```typescript
+ * const start: ScrollOffset = document.getElementById('chapter-2');
+ * const end: ScrollOffset = '75%';
+ * ```
+ */
+export type ScrollOffset = number | `${number}%` | HTMLElement;
+
+/**
+ * Time source and frame scheduler used by drivers and the render loop.
+ * The default reads performance.now() and schedules with requestAnimationFrame;
+ * ManualClock provides a virtual clock for deterministic tests and frame export.
+ */
+export interface Clock {
+  /** Current time in milliseconds */
+  now(): number;
+  
+  /**
+   * Schedule a callback for the next frame.
+   * @returns Handle for cancelFrame()
    */
-  onValley?: (z: number, zone: InteractiveZone) => void;
+  requestFrame(callback: (timestamp: number) => void): number;
+  
+  /** Cancel a scheduled frame callback */
+  cancelFrame(handle: number): void;
+}
+
+/**
+ * Iteration direction for time-based animations.
+ * - 'normal': Every iteration plays forward
+ * - 'reverse': Every iteration plays backward
+ * - 'alternate': Iterations alternate between forward and backward
+ */
+export type PlaybackDirection = 'normal' | 'reverse' | 'alternate';
+
+/**
+ * Scroll axis tracked by scroll-driven animations.
+ * - 'y': Vertical scrolling (scrollTop)
+ * - 'x': Horizontal scrolling (scrollLeft)
+ * - 'both': Both axes independently; horizontal progress drives pathX and vertical progress drives pathY
+ */
+export type ScrollAxis = 'y' | 'x' | 'both';
+
+/**
+ * Smoothing applied to scroll-driven progress before it is rendered.
+ * - lerp: Each 60fps frame covers `factor` of the remaining distance (0,1]
+ * - spring: Critically damped spring with the given stiffness (no overshoot)
+ * 
+ * @example
+ * ```typescript
+ * const gentle: ScrollSmoothing = { type: 'lerp', factor: 0.1 };
+ * const springy: ScrollSmoothing = { type: 'spring', stiffness: 120 };
+ * ```
+ */
+export type ScrollSmoothing =
+  | { type: 'lerp'; factor: number }
+  | { type: 'spring'; stiffness?: number };
+
+/**
+ * Source of the height input for pointer-driven animations.
+ * - 'speed': The ball lifts while it is moving to catch up with the pointer
+ * - 'distance': The ball rises the farther it is from the anchor point
+ */
+export type PointerHeightSource = 'speed' | 'distance';
+
+/**
+ * Offset pair describing when a 'view' driven animation starts or ends.
+ * The animation boundary is reached when the given point of the trigger element
+ * lines up with the given point of the viewport.
+ * 
+ * @example
+ * ```typescript
+ * // "top of element hits 80% of viewport"
+ * const start: ViewOffset = { element: 0, viewport: 0.8 };
+ * // "bottom of element hits 20% of viewport"
+ * const end: ViewOffset = { element: 1, viewport: 0.2 };
+ * ```
+ */
+export interface ViewOffset {
+  /** Point on the trigger element [0,1] where 0 is its top edge and 1 is its bottom edge */
+  element: number;
+  /** Point in the viewport [0,1] where 0 is its top edge and 1 is its bottom edge */
+  viewport: number;
 }
 
 /**
@@ -261,8 +666,12 @@ export interface AnimationConfig {
    * Animation driver type.
    * - 'time': Progress based on elapsed time
    * - 'scroll': Progress based on scroll position
+   * - 'view': Progress based on a trigger element's position in the viewport
+   * - 'pointer': Ball follows the cursor or touch point
+   * - 'media': Progress follows a video or audio element's playback position
+   * - 'manual': Progress only changes through setProgress()
    */
-  driver: 'time' | 'scroll';
+  driver: 'time' | 'scroll' | 'view' | 'pointer' | 'media' | 'manual';
   
   /**
    * Animation duration in milliseconds.
@@ -279,12 +688,196 @@ export interface AnimationConfig {
    */
   loop?: boolean | number;
   
+  /**
+   * Speed multiplier for time-based animations.
+   * Negative values play the timeline backwards, starting from its end.
+   * Can be changed at runtime with AnimationInstance.setPlaybackRate().
+   * @default 1
+   */
+  playbackRate?: number;
+  
+  /**
+   * Direction of each iteration for time-based animations.
+   * - 'normal': Every iteration plays from 0 to 1
+   * - 'reverse': Every iteration plays from 1 to 0
+   * - 'alternate': Iterations alternate between forward and reverse (yoyo)
+   * @default 'normal'
+   */
+  direction?: PlaybackDirection;
+  
+  /**
+   * Wait before the first iteration of a time-based animation starts, in milliseconds.
+   * @default 0
+   */
+  delayMs?: number;
+  
+  /**
+   * Hold at the end of each iteration of a time-based animation before the next
+   * iteration starts (or the animation completes), in milliseconds.
+   * @default 0
+   */
+  endDelayMs?: number;
+  
   /**
    * Scroll container element for scroll-based animations.
    * Required when driver is 'scroll'.
    */
   scrollTarget?: HTMLElement | null;
   
+  /**
+   * Scroll position at which a 'scroll' animation reaches progress 0.
+   * Progress is clamped to 0 before this point.
+   * @default 0
+   */
+  scrollStart?: ScrollOffset;
+  
+  /**
+   * Scroll position at which a 'scroll' animation reaches progress 1.
+   * Progress is clamped to 1 after this point.
+   * @default '100%'
+   */
+  scrollEnd?: ScrollOffset;
+  
+  /**
+   * Scroll axis that drives a 'scroll' animation.
+   * With 'both', scrollLeft progress feeds pathX and scrollTop progress feeds pathY,
+   * while the height curve follows the average of the two.
+   * @default 'y'
+   */
+  scrollAxis?: ScrollAxis;
+  
+  /**
+   * Ease the rendered progress toward the scroll position instead of snapping to it.
+   * The raw scroll progress is still reported by the driver's getProgress().
+   * Smoothing is disabled when omitted.
+   */
+  scrollSmoothing?: ScrollSmoothing;
+  
+  /**
+   * Trigger element whose travel through the viewport drives progress.
+   * Required when driver is 'view'. If scrollTarget is also given, it is used
+   * as the viewport instead of the browser window.
+   */
+  viewTarget?: HTMLElement;
+  
+  /**
+   * Point at which a 'view' animation reaches progress 0.
+   * @default { element: 0, viewport: 1 } (top of element enters at the bottom of the viewport)
+   */
+  viewStart?: ViewOffset;
+  
+  /**
+   * Point at which a 'view' animation reaches progress 1.
+   * @default { element: 1, viewport: 0 } (bottom of element leaves at the top of the viewport)
+   */
+  viewEnd?: ViewOffset;
+  
+  /**
+   * Area the pointer is tracked over for 'pointer' animations.
+   * - 'mount': Pointer position over the animation canvas
+   * - 'window': Pointer position over the whole window
+   * @default 'mount'
+   */
+  pointerTarget?: 'mount' | 'window';
+  
+  /**
+   * What drives the height curve for 'pointer' animations.
+   * @default 'speed'
+   */
+  pointerHeight?: PointerHeightSource;
+  
+  /**
+   * Anchor point for 'pointer' animations, used for 'distance' height and as the
+   * resting position before the pointer moves.
+   * @default { x: 0.5, y: 0.5 }
+   */
+  pointerAnchor?: Vec2;
+  
+  /**
+   * Ball speed (normalized units per second) at which 'speed' height reaches 1.
+   * @default 2
+   */
+  pointerMaxSpeed?: number;
+  
+  /**
+   * Stiffness of the spring the ball follows the pointer with. Higher values mean less lag.
+   * @default 170
+   */
+  pointerStiffness?: number;
+  
+  /**
+   * Video or audio element whose playback position drives progress.
+   * Required when driver is 'media'.
+   */
+  mediaElement?: HTMLMediaElement;
+  
+  /**
+   * Media time in seconds where a 'media' animation reaches progress 0.
+   * @default 0
+   */
+  mediaStart?: number;
+  
+  /**
+   * Media time in seconds where a 'media' animation reaches progress 1.
+   * @default the media duration
+   */
+  mediaEnd?: number;
+  
+  /**
+   * Audio to react to. When set (or when audioAnalyser is provided), the ball's
+   * height follows the audio level instead of the height curve, while X/Y keep
+   * following the progress driver.
+   * A media element is routed through a new AudioContext to the speakers; an
+   * AudioNode is tapped without changing its existing connections.
+   */
+  audioSource?: AudioNode | HTMLMediaElement;
+  
+  /**
+   * Analyser to read levels from instead of creating one from audioSource.
+   * Any object with the AnalyserNode reading methods works, which allows
+   * sharing an analyser or injecting a fake one in tests.
+   */
+  audioAnalyser?: AudioAnalyser;
+  
+  /**
+   * How the audio level is measured.
+   * - 'rms': Root-mean-square amplitude of the waveform
+   * - 'band': Average magnitude of the frequencies in audioBand
+   * @default 'rms'
+   */
+  audioMetric?: AudioMetric;
+  
+  /**
+   * Frequency range in Hz averaged by the 'band' metric.
+   * @default [20, 250]
+   */
+  audioBand?: [number, number];
+  
+  /**
+   * Time constant in milliseconds for the height to rise towards a louder level.
+   * @default 10
+   */
+  audioAttackMs?: number;
+  
+  /**
+   * Time constant in milliseconds for the height to fall towards a quieter level.
+   * @default 250
+   */
+  audioReleaseMs?: number;
+  
+  /**
+   * Multiplier applied to the measured level before clamping height to [0,1].
+   * @default 1
+   */
+  audioGain?: number;
+  
+  /**
+   * Clock used by the driver, render loop and audio smoothing for time and frames.
+   * Pass a ManualClock for deterministic, frame-exact playback.
+   * @default browser clock (performance.now and requestAnimationFrame)
+   */
+  clock?: Clock;
+  
   /**
    * Canvas width in CSS pixels.
    * If omitted, uses container width.
@@ -308,36 +901,82 @@ export interface AnimationConfig {
   
   /**
    * Preset curve name for height animation.
-   * Options: 'sine', 'cosine', 'easeInOut', 'linear', 'bezier'
+   * Options: 'sine', 'cosine', 'easeInOut', 'linear', 'bezier', 'bounce', 'elastic',
+   * 'spring', 'gravityArc', a parametric curve such as
+   * { type: 'bounce', bounces: 4, restitution: 0.6 }, or a CSS easing string such as
+   * 'ease-out', 'cubic-bezier(0.34, 1.56, 0.64, 1)', 'steps(4)' or 'linear(0, 0.25 30%, 1)'
    */
-  curvePreset?: 'sine' | 'cosine' | 'easeInOut' | 'linear' | 'bezier';
+  curvePreset?: CurvePreset;
   
   /**
    * Custom curve function for height animation.
    * Takes progress t in [0,1] and returns height z in [0,1].
+   * An expression string such as "t * t" works the same and survives JSON.
    * If provided, overrides curvePreset.
    */
-  customCurve?: (t: number) => number;
+  customCurve?: CurveSource;
   
   /**
    * Keypoints for defining height curve based on Y position.
+   * Evaluated at the ball's actual Y from pathY, so they follow any path.
    * If provided, overrides curvePreset and customCurve.
    */
   keypoints?: Keypoint[];
   
+  /**
+   * Where the height sits within each keypoint's zMin–zMax band over time.
+   * Takes progress t in [0,1] and returns 0 for zMin up to 1 for zMax.
+   * Segment keypoints use it with the segment's local progress.
+   * @default (t) => t
+   */
+  keypointOscillation?: (t: number) => number;
+  
+  /**
+   * How keypoint heights are interpolated between keypoints, for top-level and
+   * segment keypoints.
+   * Options: 'linear', 'catmull-rom', 'monotone', 'natural-spline'
+   * @default 'catmull-rom'
+   */
+  keypointInterpolation?: KeypointInterpolation;
+  
+  /**
+   * Bake the height curve, including keypoint, segment and custom curves, into a
+   * lookup table instead of evaluating it every frame.
+   * Keypoint curves are baked along pathY, so they are not sampled for two-axis
+   * drivers ('pointer' and scrollAxis 'both'). Sampling is disabled when omitted.
+   */
+  curveSampling?: CurveSampling;
+  
+  /**
+   * Seeded noise layered over the height curve and the paths, on top of presets,
+   * keypoints, custom curves and segments. Results are clamped to [0,1].
+   * Disabled when omitted.
+   */
+  noise?: NoiseModifiers;
+  
   /**
    * Custom function for horizontal position over time.
    * Takes progress t in [0,1] and returns x position in [0,1].
-   * @default (t) => 0.5 (centered)
+   * Accepts an expression string such as "0.5 + 0.4 * sin(2 * pi * t)".
+   * @default (t) => 0.5 (centered), or (x) => x for the 'pointer' driver
    */
-  pathX?: (t: number) => number;
+  pathX?: CurveSource;
   
   /**
    * Custom function for vertical position over time.
    * Takes progress t in [0,1] and returns y position in [0,1].
-   * @default (t) => t (top to bottom)
+   * Accepts an expression string such as "t ^ 2".
+   * @default (t) => t (top to bottom), or (y) => y for the 'pointer' driver
    */
-  pathY?: (t: number) => number;
+  pathY?: CurveSource;
+  
+  /**
+   * Split the animation into consecutive segments, each with its own share of
+   * progress, easing, height curve and path functions.
+   * Boundaries where neighbouring segments do not meet are reported with a warning.
+   * When provided, the top-level curve and paths only fill in fields a segment omits.
+   */
+  segments?: TimelineSegment[];
   
   /**
    * Light source configuration for shadow calculations.
@@ -360,6 +999,12 @@ export interface AnimationConfig {
    */
   zones?: InteractiveZone[];
   
+  /**
+   * Progress markers that fire callbacks when progress passes them,
+   * independent of the ball's position.
+   */
+  markers?: ProgressMarker[];
+  
   /**
    * Enable debug mode to visualize zones, light position, and guides.
    * @default false
@@ -395,6 +1040,7 @@ export interface AnimationInstance {
    * Start or resume the animation.
    * For time-based animations, begins the timeline.
    * For scroll-based animations, enables scroll tracking.
+   * After setProgress(), hands control back to the configured driver.
    */
   play(): void;
   
@@ -411,16 +1057,102 @@ export interface AnimationInstance {
   
   /**
    * Manually set the animation progress.
+   * Takes manual control: the configured driver is paused until play() or
+   * setManualControl(false) hands control back to it.
    * @param progress - Progress value in [0,1]
    */
   setProgress(progress: number): void;
   
+  /**
+   * Switch between manual control and the configured driver.
+   * Enabling holds the current progress and pauses the configured driver;
+   * disabling renders the configured driver again at its own position, still
+   * paused until play() is called.
+   * Has no effect for the 'manual' driver, which is always manually controlled.
+   * @param enabled - true for manual control, false for the configured driver
+   */
+  setManualControl(enabled: boolean): void;
+  
+  /**
+   * Change the playback speed of a time-based animation without a jump in progress.
+   * Negative values play backwards. Has no effect for other drivers.
+   * @param rate - Speed multiplier
+   */
+  setPlaybackRate(rate: number): void;
+  
+  /**
+   * Jump to a time on a time-based animation's timeline, while playing or paused.
+   * The time includes delayMs and spans all loop iterations.
+   * Has no effect for other drivers.
+   * @param ms - Time since the start in milliseconds
+   */
+  seek(ms: number): void;
+  
+  /**
+   * Jump to a progress value within the current iteration of a time-based
+   * animation, while playing or paused. Unlike setProgress(), the animation
+   * keeps playing from the new position.
+   * Has no effect for other drivers.
+   * @param progress - Progress value in [0,1]
+   */
+  seekProgress(progress: number): void;
+  
   /**
    * Update configuration at runtime.
-   * Not all properties can be changed after initialization.
+   * Not all properties can be changed after initialization. Changing the driver or its
+   * options, duration, loop, curves, paths or canvas size keeps the current progress and
+   * play state. Pass a driver's required fields, such as mediaElement, along with it.
+   * With transition options, light, ballStyle and shadow changes animate from the
+   * values on screen instead of jumping; other changes still apply immediately.
    * @param config - Partial configuration to merge with current config
+   * @param options - Duration, easing and color space of the transition
+   * @throws {ConfigValidationError} If the driver, curve, path or size changes make the config invalid
+   */
+  updateConfig(config: Partial<AnimationConfig>, options?: TransitionOptions): void;
+  
+  /**
+   * Add a listener for a lifecycle event.
+   * @param event - Event name
+   * @param handler - Called with the event payload
+   */
+  on<K extends AnimationEventName>(event: K, handler: (payload: AnimationEventMap[K]) => void): void;
+  
+  /**
+   * Remove a listener added with on() or once().
+   * @param event - Event name
+   * @param handler - The handler to remove
+   */
+  off<K extends AnimationEventName>(event: K, handler: (payload: AnimationEventMap[K]) => void): void;
+  
+  /**
+   * Add a listener that is removed after its first call.
+   * @param event - Event name
+   * @param handler - Called with the event payload
    */
-  updateConfig(config: Partial<AnimationConfig>): void;
+  once<K extends AnimationEventName>(event: K, handler: (payload: AnimationEventMap[K]) => void): void;
+  
+  /**
+   * Resolves with the instance when the animation completes, like
+   * Animation.finished in the Web Animations API. Rejects with an "AbortError"
+   * DOMException when the animation is stopped or destroyed first. A new promise
+   * is created whenever a finished or stopped animation is played again.
+   */
+  readonly finished: Promise<AnimationInstance>;
+  
+  /**
+   * Capture where the animation is: progress, loop count, play state, the time
+   * driver's timeline position and config changed with updateConfig().
+   * The result is plain data that survives JSON.stringify().
+   */
+  getState(): AnimationState;
+  
+  /**
+   * Resume from a state returned by getState(), e.g. after navigating back to a page.
+   * Markers between the current position and the restored one do not fire.
+   * Invalid states and states captured from another driver type are ignored with a warning.
+   * @param state - State captured from an animation with the same driver type
+   */
+  restoreState(state: AnimationState): void;
   
   /**
    * Destroy the animation instance and clean up all resources.
@@ -430,13 +1162,150 @@ export interface AnimationInstance {
   destroy(): void;
 }
 
+/**
+ * Payloads of the lifecycle events emitted by AnimationInstance.
+ * - play / pause / stop: The corresponding method was called
+ * - progress: Rendered progress changed (at most once per frame)
+ * - loop: A time-based animation moved into another iteration
+ * - complete: A time-based animation reached the end of its timeline
+ * - resize: The canvas was resized
+ * - destroy: The instance is being destroyed; listeners are removed afterwards
+ */
+export interface AnimationEventMap {
+  play: void;
+  pause: void;
+  stop: void;
+  progress: { progress: number };
+  loop: { iteration: number };
+  complete: void;
+  resize: { width: number; height: number };
+  destroy: void;
+}
+
+/**
+ * Name of an AnimationInstance lifecycle event.
+ */
+export type AnimationEventName = keyof AnimationEventMap;
+
+/**
+ * Color space that color transitions are mixed in.
+ * - srgb: Mix the channels as written; the midpoint of two saturated colors can look muddy
+ * - oklab: Mix in a perceptual space, so brightness changes evenly
+ */
+export type ColorSpace = 'srgb' | 'oklab';
+
+/**
+ * Options for animating an updateConfig() change.
+ * 
+ * @example
+ * ```typescript
+ * animation.updateConfig(
+ *   { light: { x: 0.8, y: 0.2, z: 2.5 }, ballStyle: { fill: '#1e293b' } },
+ *   { transitionMs: 600, easing: 'easeInOut' }
+ * );
+ * ```
+ */
+export interface TransitionOptions {
+  /** Transition duration in milliseconds; 0 applies the change immediately */
+  transitionMs: number;
+  
+  /**
+   * Curve preset name or function mapping elapsed time [0,1] to transition progress.
+   * @default 'easeInOut'
+   */
+  easing?: AnimationConfig['curvePreset'] | CurveFn;
+  
+  /**
+   * Color space for fill and stroke transitions.
+   * @default 'oklab'
+   */
+  colorSpace?: ColorSpace;
+}
+
+/**
+ * Play state of an animation instance.
+ * - idle: Not started, or stopped
+ * - running: Playing
+ * - paused: Paused, or held by setProgress() or seeking
+ * - finished: A time-based animation reached the end of its timeline
+ */
+export type PlayState = 'idle' | 'running' | 'paused' | 'finished';
+
+/**
+ * Position of a time-based animation on its timeline.
+ */
+export interface TimeDriverState {
+  /** Position on the timeline in milliseconds, including delayMs */
+  timeMs: number;
+  
+  /** Current playback rate */
+  playbackRate: number;
+  
+  /** Iterations skipped by an infinite loop playing backwards past its start */
+  wrappedLoops: number;
+}
+
+/**
+ * Serializable snapshot of an animation instance, from getState().
+ * Scroll, view, pointer and media drivers follow their input, so for them only the
+ * play state is restored; progress comes from the page or media element again.
+ * 
+ * @example
+ * ```typescript
+ * sessionStorage.setItem('hero-ball', JSON.stringify(animation.getState()));
+ * 
+ * // Later, on a new instance with the same config
+ * const saved = sessionStorage.getItem('hero-ball');
+ * if (saved) animation.restoreState(JSON.parse(saved));
+ * ```
+ */
+export interface AnimationState {
+  /** Driver type the state was captured from */
+  driver: AnimationConfig['driver'];
+  
+  /** Rendered progress [0,1] */
+  progress: number;
+  
+  /** Index of the current iteration for looping drivers, 0 otherwise */
+  iteration: number;
+  
+  /** Number of completed loop iterations */
+  loopCount: number;
+  
+  /** Play state of the configured driver */
+  playState: PlayState;
+  
+  /** Whether setProgress() had taken manual control */
+  manualControl: boolean;
+  
+  /** Timeline position for the 'time' driver, null for other drivers */
+  driverState: TimeDriverState | null;
+  
+  /**
+   * Config changed with updateConfig() since creation. Zones and markers hold
+   * callbacks and cannot be serialized, so they are not included; neither are DOM
+   * targets such as mediaElement, or curves and paths given as functions.
+   */
+  overrides: Partial<Pick<
+    AnimationConfig,
+    | 'debug' | 'light' | 'shadow' | 'ballStyle'
+    | 'driver' | 'durationMs' | 'loop'
+    | 'mediaStart' | 'mediaEnd' | 'viewStart' | 'viewEnd'
+    | 'scrollStart' | 'scrollEnd' | 'scrollAxis' | 'scrollSmoothing'
+    | 'pointerTarget' | 'pointerHeight' | 'pointerAnchor' | 'pointerMaxSpeed' | 'pointerStiffness'
+    | 'curvePreset' | 'customCurve' | 'keypoints' | 'keypointOscillation' | 'keypointInterpolation'
+    | 'curveSampling' | 'noise' | 'pathX' | 'pathY'
+    | 'width' | 'height' | 'fitMode'
+  >>;
+}
+
 // ============================================================================
 // INTERNAL TYPES - Used within library implementation
 // ============================================================================
 
 /**
  * Abstract interface for progress drivers.
- * Drivers map external inputs (time or scroll) to normalized progress [0,1].
+ * Drivers map external inputs (time, scroll, viewport position, pointer, media playback or manual control) to normalized progress [0,1].
  * @internal
  */
 export interface ProgressDriver {
@@ -466,18 +1335,123 @@ export interface ProgressDriver {
    */
   getProgress(): number;
   
+  /**
+   * Get independent per-axis progress for two-dimensional drivers.
+   * When a vector is returned, the renderer feeds x into pathX and y into pathY
+   * instead of the scalar progress.
+   * @returns Progress in [0,1] for each axis, or null for one-dimensional drivers
+   */
+  getProgressVector?(): Vec2 | null;
+  
+  /**
+   * Get the progress value to render this frame.
+   * Drivers that smooth their output return the eased value here, while
+   * getProgress() keeps returning the raw target. Defaults to getProgress().
+   * @returns Progress in [0,1]
+   */
+  getRenderProgress?(): number;
+  
+  /**
+   * Render-facing counterpart of getProgressVector() for smoothing drivers.
+   * Defaults to getProgressVector().
+   * @returns Progress in [0,1] for each axis, or null for one-dimensional drivers
+   */
+  getRenderProgressVector?(): Vec2 | null;
+  
+  /**
+   * Change the playback speed for drivers that advance on their own.
+   * @param rate - Speed multiplier; negative values play backwards
+   */
+  setPlaybackRate?(rate: number): void;
+  
+  /**
+   * Jump to a time on the driver's timeline.
+   * @param ms - Time since the start in milliseconds
+   */
+  seek?(ms: number): void;
+  
+  /**
+   * Jump to a progress value within the current iteration.
+   * @param progress - Progress in [0,1]
+   * @param iteration - Iteration to jump into instead of the current one, for looping drivers
+   */
+  seekProgress?(progress: number, iteration?: number): void;
+  
+  /**
+   * Get the index of the current iteration for drivers that loop.
+   * Lets observers reconstruct the path travelled across loop wraps.
+   * @returns Iteration index (negative when an infinite loop wraps backwards)
+   */
+  getIteration?(): number;
+  
+  /**
+   * Whether an iteration maps its time to progress in reverse (1 → 0).
+   * @param iteration - Iteration index as returned by getIteration()
+   */
+  isIterationReversed?(iteration: number): boolean;
+  
+  /**
+   * Whether the driver has reached the end of its timeline and stopped advancing.
+   */
+  isFinished?(): boolean;
+  
   /**
    * Clean up resources and remove event listeners.
    */
   destroy(): void;
 }
 
+/**
+ * Audio level measurement used for audio-reactive height.
+ */
+export type AudioMetric = 'rms' | 'band';
+
+/**
+ * The subset of AnalyserNode used to measure audio levels.
+ * A real AnalyserNode satisfies this interface.
+ */
+export interface AudioAnalyser {
+  /** FFT size; also the number of waveform samples read per frame */
+  fftSize: number;
+  
+  /** Number of frequency bins (half of fftSize) */
+  readonly frequencyBinCount: number;
+  
+  /** Context the analyser belongs to, used to map bins to Hz */
+  readonly context: { readonly sampleRate: number };
+  
+  /** Copy the current waveform, in [-1,1], into the array */
+  getFloatTimeDomainData(array: Float32Array): void;
+  
+  /** Copy the current frequency magnitudes, in [0,255], into the array */
+  getByteFrequencyData(array: Uint8Array): void;
+}
+
+/**
+ * Source of ball height that replaces the curve function output.
+ * @internal
+ */
+export interface HeightSource {
+  /**
+   * Sample the source and get the height for this frame.
+   * @returns Height in [0,1]
+   */
+  getHeight(): number;
+  
+  /**
+   * Release resources held by the source.
+   */
+  destroy(): void;
+}
+
 /**
  * Curve function signature.
  * Maps progress t to height z, both in normalized range [0,1].
+ * Height curves are also given the ball's position for this frame, so curves
+ * defined over position (such as keypoints) can follow any path.
  * @internal
  */
-export type CurveFn = (t: number) => number;
+export type CurveFn = (t: number, position?: Vec2) => number;
 
 /**
  * Canvas manager interface for handling canvas lifecycle and coordinate transforms.
@@ -506,6 +1480,17 @@ export interface CanvasManager {
    */
   resize(width?: number, height?: number): void;
   
+  /**
+   * Replace the configured size and fit mode, then resize.
+   * Omitted dimensions follow the container again.
+   * @param layout - New logical size in CSS pixels and fit mode
+   */
+  setLayout(layout: {
+    width?: number;
+    height?: number;
+    fitMode?: 'contain' | 'cover' | 'stretch';
+  }): void;
+  
   /**
    * Convert CSS pixel coordinates to normalized world coordinates.
    * @param cssX - X coordinate in CSS pixels
@@ -584,8 +1569,9 @@ export interface InteractionManager {
    * Update ball position and check for zone interactions.
    * @param ballPos - Ball position in 2D world space
    * @param ballZ - Ball height [0,1]
+   * @param segment - Label of the active timeline segment (optional)
    */
-  update(ballPos: Vec2, ballZ: number): void;
+  update(ballPos: Vec2, ballZ: number, segment?: string): void;
   
   /**
    * Handle click events on the canvas.
@@ -616,6 +1602,9 @@ export interface BallState {
   /** Height in normalized world space [0,1] */
   z: number;
   
+  /** Label of the active timeline segment, when segments are configured */
+  segment?: string;
+  
   /** Ball radius in canvas pixels */
   radius: number;
   
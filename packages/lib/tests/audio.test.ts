@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AudioHeightSource } from '../src/core/audio';
+import type { AudioAnalyser } from '../src/types';
+
+/**
+ * Fake analyser that serves a constant waveform amplitude and spectrum.
+ * 2048-point FFT at 48kHz gives 23.4375Hz per bin.
+ */
+const createFakeAnalyser = () => {
+  const signal = { amplitude: 0, spectrum: new Uint8Array(1024) };
+  const analyser: AudioAnalyser = {
+    fftSize: 2048,
+    frequencyBinCount: 1024,
+    context: { sampleRate: 48000 },
+    getFloatTimeDomainData: (array) => {
+      // Square wave: RMS equals the amplitude
+      for (let i = 0; i < array.length; i++) {
+        array[i] = i % 2 === 0 ? signal.amplitude : -signal.amplitude;
+      }
+    },
+    getByteFrequencyData: (array) => {
+      array.set(signal.spectrum.subarray(0, array.length));
+    },
+  };
+  return { analyser, signal };
+};
+
+describe('AudioHeightSource', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Sample once per 60fps frame
+  const sampleFrames = (source: AudioHeightSource, count: number) => {
+    let height = source.getHeight();
+    for (let i = 0; i < count; i++) {
+      now += 1000 / 60;
+      height = source.getHeight();
+    }
+    return height;
+  };
+
+  describe('Metrics', () => {
+    it('should follow the RMS level of the waveform', () => {
+      const { analyser, signal } = createFakeAnalyser();
+      const source = new AudioHeightSource({ analyser, attackMs: 0 });
+
+      signal.amplitude = 0.4;
+      expect(source.getHeight()).toBeCloseTo(0.4, 5);
+    });
+
+    it('should average only the bins inside the configured band', () => {
+      const { analyser, signal } = createFakeAnalyser();
+      const source = new AudioHeightSource({
+        analyser,
+        metric: 'band',
+        band: [100, 200],
+        attackMs: 0,
+        releaseMs: 0,
+      });
+
+      // Bins 4..9 cover 93.75Hz to 210.9Hz
+      signal.spectrum.fill(255, 4, 10);
+      signal.spectrum.fill(0, 10);
+      expect(source.getHeight()).toBeCloseTo(1, 5);
+
+      // Energy outside the band is ignored
+      signal.spectrum.fill(0);
+      signal.spectrum.fill(255, 100, 200);
+      expect(source.getHeight()).toBe(0);
+    });
+
+    it('should scale by gain and clamp to 1', () => {
+      const { analyser, signal } = createFakeAnalyser();
+      const source = new AudioHeightSource({ analyser, gain: 4, attackMs: 0 });
+
+      signal.amplitude = 0.1;
+      expect(source.getHeight()).toBeCloseTo(0.4, 5);
+
+      signal.amplitude = 0.5;
+      expect(source.getHeight()).toBe(1);
+    });
+  });
+
+  describe('Attack and release', () => {
+    it('should rise with the attack time and fall with the release time', () => {
+      const { analyser, signal } = createFakeAnalyser();
+      const source = new AudioHeightSource({
+        analyser,
+        attackMs: 50,
+        releaseMs: 500,
+      });
+
+      signal.amplitude = 1;
+      // 100ms is two attack time constants: 1 - e^-2
+      const attacked = sampleFrames(source, 6);
+      expect(attacked).toBeCloseTo(1 - Math.exp(-2), 2);
+
+      sampleFrames(source, 60);
+      signal.amplitude = 0;
+      // 100ms is a fifth of a release time constant: e^-0.2
+      const released = sampleFrames(source, 6);
+      expect(released).toBeCloseTo(Math.exp(-0.2), 2);
+    });
+
+    it('should start at rest', () => {
+      const { analyser, signal } = createFakeAnalyser();
+      const source = new AudioHeightSource({ analyser });
+
+      signal.amplitude = 1;
+      expect(source.getHeight()).toBe(0);
+    });
+  });
+
+  describe('Audio graph', () => {
+    it('should tap an AudioNode with a new analyser', () => {
+      const { analyser } = createFakeAnalyser();
+      const node = {
+        context: { createAnalyser: vi.fn(() => analyser) },
+        connect: vi.fn(),
+        disconnect: vi.fn(),
+      } as unknown as AudioNode;
+
+      const source = new AudioHeightSource({ source: node });
+      expect(node.connect).toHaveBeenCalledWith(analyser);
+
+      source.destroy();
+      expect(node.disconnect).toHaveBeenCalledWith(analyser);
+    });
+
+    describe('Media elements', () => {
+      // Fake Web Audio context that starts suspended, as browsers do without a gesture
+      const contexts: Array<{
+        state: string;
+        resume: ReturnType<typeof vi.fn>;
+        close: ReturnType<typeof vi.fn>;
+        createMediaElementSource: ReturnType<typeof vi.fn>;
+        createAnalyser: ReturnType<typeof vi.fn>;
+      }> = [];
+
+      beforeEach(() => {
+        contexts.length = 0;
+        vi.stubGlobal(
+          'AudioContext',
+          vi.fn(function (this: (typeof contexts)[number]) {
+            this.state = 'suspended';
+            this.resume = vi.fn(() => {
+              this.state = 'running';
+              return Promise.resolve();
+            });
+            this.close = vi.fn(() => Promise.resolve());
+            this.createMediaElementSource = vi.fn(() => ({
+              context: this,
+              connect: vi.fn(),
+              disconnect: vi.fn(),
+            }));
+            this.createAnalyser = vi.fn(() => createFakeAnalyser().analyser);
+            contexts.push(this);
+          })
+        );
+      });
+
+      afterEach(() => {
+        vi.unstubAllGlobals();
+      });
+
+      it('should resume a suspended context, and again when the media plays', () => {
+        const audio = document.createElement('audio');
+        const source = new AudioHeightSource({ source: audio });
+        const context = contexts[0]!;
+        expect(context.resume).toHaveBeenCalledTimes(1);
+
+        // Suspended again, e.g. resume was refused before a user gesture
+        context.state = 'suspended';
+        audio.dispatchEvent(new Event('play'));
+        expect(context.resume).toHaveBeenCalledTimes(2);
+
+        source.destroy();
+        context.state = 'suspended';
+        audio.dispatchEvent(new Event('play'));
+        expect(context.resume).toHaveBeenCalledTimes(2);
+      });
+
+      it('should reuse the routing of an element and keep its context open', () => {
+        const audio = document.createElement('audio');
+        const first = new AudioHeightSource({ source: audio });
+        first.destroy();
+
+        const second = new AudioHeightSource({ source: audio });
+        expect(contexts).toHaveLength(1);
+        const context = contexts[0]!;
+        expect(context.createMediaElementSource).toHaveBeenCalledTimes(1);
+        expect(context.createAnalyser).toHaveBeenCalledTimes(2);
+        expect(context.close).not.toHaveBeenCalled();
+
+        // The element stays connected to the speakers after every source is gone
+        second.destroy();
+        const node = context.createMediaElementSource.mock.results[0]!.value;
+        expect(node.connect).toHaveBeenCalledWith(context.destination);
+        expect(node.disconnect).toHaveBeenCalledTimes(2);
+        expect(node.disconnect).not.toHaveBeenCalledWith();
+      });
+
+      it('should route each element through its own context', () => {
+        new AudioHeightSource({ source: document.createElement('audio') });
+        new AudioHeightSource({ source: document.createElement('video') });
+        expect(contexts).toHaveLength(2);
+      });
+    });
+
+    it('should prefer an injected analyser over the source', () => {
+      const { analyser } = createFakeAnalyser();
+      const node = { connect: vi.fn() } as unknown as AudioNode;
+
+      const source = new AudioHeightSource({ source: node, analyser });
+      expect(node.connect).not.toHaveBeenCalled();
+      source.destroy();
+    });
+
+    it('should throw without a source or analyser', () => {
+      expect(() => new AudioHeightSource({})).toThrow(
+        'requires a source or an analyser'
+      );
+    });
+  });
+});
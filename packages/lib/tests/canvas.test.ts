@@ -249,6 +249,40 @@ describe('Canvas Management Module', () => {
       
       manager.destroy();
     });
+    
+    it('should report the new size after resizing', () => {
+      const onResize = vi.fn();
+      const manager = createCanvasManager({
+        container,
+        width: 800,
+        height: 600,
+        onResize
+      });
+      
+      manager.resize(1024, 768);
+      
+      expect(onResize).toHaveBeenCalledWith(1024, 768);
+      
+      manager.destroy();
+    });
+    it('should keep a new layout across later resizes', () => {
+      const onResize = vi.fn();
+      const manager = createCanvasManager({
+        container,
+        width: 800,
+        height: 600,
+        onResize
+      });
+      
+      manager.setLayout({ width: 640, height: 480, fitMode: 'stretch' });
+      manager.resize();
+      
+      expect(manager.width).toBe(640);
+      expect(manager.height).toBe(480);
+      expect(onResize).toHaveBeenLastCalledWith(640, 480);
+      
+      manager.destroy();
+    });
   });
   
   describe('Fit Modes', () => {
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ManualClock, browserClock } from '../src/core/clock';
+import { TimeDriver, PointerDriver } from '../src/core/timeline';
+
+describe('ManualClock', () => {
+  it('should only move time when advanced', () => {
+    const clock = new ManualClock({ startTime: 100 });
+    expect(clock.now()).toBe(100);
+
+    clock.advance(50);
+    expect(clock.now()).toBe(150);
+  });
+
+  it('should run queued callbacks once per frame with the frame time', () => {
+    const clock = new ManualClock({ frameMs: 10 });
+    const timestamps: number[] = [];
+    const loop = (timestamp: number) => {
+      timestamps.push(timestamp);
+      clock.requestFrame(loop);
+    };
+    clock.requestFrame(loop);
+
+    clock.advance(35);
+
+    expect(timestamps).toEqual([10, 20, 30]);
+    expect(clock.now()).toBe(35);
+    expect(clock.pendingFrames).toBe(1);
+  });
+
+  it('should not run cancelled callbacks', () => {
+    const clock = new ManualClock();
+    const callback = vi.fn();
+
+    const handle = clock.requestFrame(callback);
+    clock.cancelFrame(handle);
+    clock.frame();
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(clock.pendingFrames).toBe(0);
+  });
+});
+
+describe('browserClock', () => {
+  it('should delegate to performance.now and requestAnimationFrame', () => {
+    const nowSpy = vi.spyOn(performance, 'now').mockReturnValue(42);
+    const rafSpy = vi.spyOn(window, 'requestAnimationFrame');
+
+    expect(browserClock.now()).toBe(42);
+    const handle = browserClock.requestFrame(() => {});
+    browserClock.cancelFrame(handle);
+
+    expect(rafSpy).toHaveBeenCalledTimes(1);
+    nowSpy.mockRestore();
+    rafSpy.mockRestore();
+  });
+});
+
+describe('Drivers on a manual clock', () => {
+  it('should advance a time driver frame by frame', () => {
+    const clock = new ManualClock({ frameMs: 100 });
+    const driver = new TimeDriver({ durationMs: 1000, clock });
+    driver.start();
+
+    clock.advance(300);
+    expect(driver.getProgress()).toBeCloseTo(0.3, 10);
+
+    clock.advance(1000);
+    expect(driver.getProgress()).toBe(1);
+    expect(clock.pendingFrames).toBe(0);
+  });
+
+  it('should run spring loops without real frames', () => {
+    const rafSpy = vi.spyOn(window, 'requestAnimationFrame');
+    const clock = new ManualClock();
+    const surface = document.createElement('div');
+    vi.spyOn(surface, 'getBoundingClientRect').mockReturnValue({
+      top: 0,
+      left: 0,
+      bottom: 100,
+      right: 100,
+      width: 100,
+      height: 100,
+      x: 0,
+      y: 0,
+      toJSON: () => ({}),
+    } as DOMRect);
+    const driver = new PointerDriver({ element: surface, clock });
+    driver.start();
+
+    surface.dispatchEvent(
+      new MouseEvent('pointermove', { clientX: 100, clientY: 100 })
+    );
+    clock.advance(2000);
+
+    expect(driver.getProgressVector().x).toBeCloseTo(1, 2);
+    expect(rafSpy).not.toHaveBeenCalled();
+    driver.destroy();
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { parseColor, formatColor, mixColors } from '../src/core/color';
+
+describe('Color', () => {
+  describe('parseColor', () => {
+    it('should parse hex colors in all four lengths', () => {
+      expect(parseColor('#3b82f6')).toEqual({ r: 59, g: 130, b: 246, a: 1 });
+      expect(parseColor('#FFF')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+      expect(parseColor('#f008')).toEqual({ r: 255, g: 0, b: 0, a: 136 / 255 });
+      expect(parseColor('#00000080')).toEqual({
+        r: 0,
+        g: 0,
+        b: 0,
+        a: 128 / 255,
+      });
+    });
+
+    it('should parse comma and space separated rgb() colors', () => {
+      expect(parseColor('rgb(10, 20, 30)')).toEqual({
+        r: 10,
+        g: 20,
+        b: 30,
+        a: 1,
+      });
+      expect(parseColor('rgba(10, 20, 30, 0.5)')).toEqual({
+        r: 10,
+        g: 20,
+        b: 30,
+        a: 0.5,
+      });
+      expect(parseColor('rgb(100% 0% 50% / 25%)')).toEqual({
+        r: 255,
+        g: 0,
+        b: 127.5,
+        a: 0.25,
+      });
+    });
+
+    it('should parse named colors', () => {
+      expect(parseColor('white')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+      expect(parseColor(' RebeccaPurple ')).toEqual({ r: 102, g: 51, b: 153, a: 1 });
+      expect(parseColor('grey')).toEqual(parseColor('gray'));
+    });
+
+    it('should parse hsl() colors with any hue unit', () => {
+      expect(parseColor('hsl(0, 100%, 50%)')).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+      expect(parseColor('hsl(240 100% 50% / 0.5)')).toEqual({ r: 0, g: 0, b: 255, a: 0.5 });
+      expect(parseColor('hsla(120deg, 100%, 25%, 50%)')).toEqual({ r: 0, g: 127.5, b: 0, a: 0.5 });
+      expect(parseColor('hsl(0.5turn 100 50)')).toEqual(parseColor('cyan'));
+      expect(parseColor('hsl(-120, 100%, 50%)')).toEqual(parseColor('blue'));
+      expect(parseColor('hsl(0 0% 100%)')).toEqual(parseColor('white'));
+    });
+
+    it('should return null for notations it does not understand', () => {
+      expect(parseColor('currentColor')).toBeNull();
+      expect(parseColor('oklch(0.7 0.1 200)')).toBeNull();
+      expect(parseColor('hsl(red 50% 50%)')).toBeNull();
+      expect(parseColor('#12345')).toBeNull();
+      expect(parseColor('rgb(1, 2)')).toBeNull();
+    });
+  });
+
+  describe('formatColor', () => {
+    it('should round channels and omit an opaque alpha', () => {
+      expect(formatColor({ r: 12.4, g: 99.6, b: 300, a: 1 })).toBe(
+        'rgb(12, 100, 255)'
+      );
+      expect(formatColor({ r: 0, g: 0, b: 0, a: 0.33333 })).toBe(
+        'rgba(0, 0, 0, 0.333)'
+      );
+    });
+  });
+
+  describe('mixColors', () => {
+    it('should return the exact endpoints', () => {
+      expect(mixColors('#000', 'white', 0, 'oklab')).toBe('#000');
+      expect(mixColors('#000', 'white', 1, 'oklab')).toBe('white');
+    });
+
+    it('should mix channels in sRGB', () => {
+      expect(mixColors('#000000', '#ffffff', 0.5, 'srgb')).toBe(
+        'rgb(128, 128, 128)'
+      );
+      expect(mixColors('#ff0000', '#0000ff', 0.25, 'srgb')).toBe(
+        'rgb(191, 0, 64)'
+      );
+    });
+
+    it('should mix in OKLab for even perceived brightness', () => {
+      expect(mixColors('#000000', '#ffffff', 0.5, 'oklab')).toBe(
+        'rgb(99, 99, 99)'
+      );
+
+      // Round trip through OKLab keeps the color
+      expect(mixColors('#3b82f6', '#3b82f6ff', 0.5, 'oklab')).toBe(
+        'rgb(59, 130, 246)'
+      );
+    });
+
+    it('should fade in from none and transparent', () => {
+      expect(mixColors('none', '#ff0000', 0.5, 'srgb')).toBe(
+        'rgba(255, 0, 0, 0.5)'
+      );
+      expect(mixColors('#ff0000', 'transparent', 0.25, 'oklab')).toBe(
+        'rgba(255, 0, 0, 0.75)'
+      );
+    });
+
+    it('should mix named and hsl() colors', () => {
+      expect(mixColors('white', 'black', 0.5, 'srgb')).toBe('rgb(128, 128, 128)');
+      expect(mixColors('hsl(0 100% 50%)', 'blue', 0.25, 'srgb')).toBe('rgb(191, 0, 64)');
+    });
+
+    it('should switch halfway between colors it cannot parse', () => {
+      expect(mixColors('currentColor', '#0000ff', 0.49, 'oklab')).toBe('currentColor');
+      expect(mixColors('currentColor', '#0000ff', 0.5, 'oklab')).toBe('#0000ff');
+    });
+  });
+});
@@ -3,8 +3,15 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { validateConfig, applyDefaults, ConfigValidationError, CONFIG_DEFAULTS } from '../src/core/config';
-import type { AnimationConfig } from '../src/types';
+import {
+  validateConfig,
+  validateAnimationState,
+  applyDefaults,
+  ConfigValidationError,
+  CONFIG_DEFAULTS,
+} from '../src/core/config';
+import { ManualClock } from '../src/core/clock';
+import type { AnimationConfig, AnimationState } from '../src/types';
 
 describe('Config Validation', () => {
   let mockElement: HTMLElement;
@@ -58,7 +65,7 @@ describe('Config Validation', () => {
         
         expect(() => validateConfig(config)).toThrow(ConfigValidationError);
         expect(() => validateConfig(config)).toThrow('Invalid field "driver"');
-        expect(() => validateConfig(config)).toThrow('"time" or "scroll"');
+        expect(() => validateConfig(config)).toThrow('"time", "scroll", "view", "pointer", "media", or "manual"');
       });
       
       it('should throw error when light is missing', () => {
@@ -179,6 +186,32 @@ describe('Config Validation', () => {
         
         expect(() => validateConfig(config)).not.toThrow();
       });
+      
+      it('should validate playbackRate and direction', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        } as any;
+        
+        expect(() => validateConfig({ ...config, playbackRate: -2, direction: 'alternate' })).not.toThrow();
+        expect(() => validateConfig({ ...config, playbackRate: Infinity })).toThrow('Invalid field "playbackRate"');
+        expect(() => validateConfig({ ...config, direction: 'backwards' })).toThrow('Invalid field "direction"');
+      });
+      
+      it('should validate delayMs and endDelayMs', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        } as any;
+        
+        expect(() => validateConfig({ ...config, delayMs: 250, endDelayMs: 0 })).not.toThrow();
+        expect(() => validateConfig({ ...config, delayMs: -1 })).toThrow('Invalid field "delayMs"');
+        expect(() => validateConfig({ ...config, endDelayMs: '500' })).toThrow('Invalid field "endDelayMs"');
+      });
     });
     
     describe('conditional validation - scroll driver', () => {
@@ -229,6 +262,244 @@ describe('Config Validation', () => {
       });
     });
     
+    describe('scroll range offsets', () => {
+      it('should accept pixel, percentage and element offsets', () => {
+        const config: AnimationConfig = {
+          mount: mockElement,
+          driver: 'scroll',
+          scrollTarget: null,
+          scrollStart: document.createElement('section'),
+          scrollEnd: '80%',
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        };
+        
+        expect(() => validateConfig(config)).not.toThrow();
+        expect(() => validateConfig({ ...config, scrollStart: 120 })).not.toThrow();
+      });
+      
+      it('should throw error for malformed percentage strings', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'scroll',
+          scrollTarget: null,
+          scrollEnd: '80 percent',
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        } as any;
+        
+        expect(() => validateConfig(config)).toThrow(ConfigValidationError);
+        expect(() => validateConfig(config)).toThrow('Invalid field "scrollEnd"');
+      });
+      
+      it('should validate scrollAxis', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'scroll',
+          scrollTarget: null,
+          scrollAxis: 'diagonal',
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        } as any;
+        
+        expect(() => validateConfig(config)).toThrow('Invalid field "scrollAxis"');
+        expect(() => validateConfig({ ...config, scrollAxis: 'both' })).not.toThrow();
+      });
+      
+      it('should validate scrollSmoothing', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'scroll',
+          scrollTarget: null,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        } as any;
+        
+        expect(() => validateConfig({ ...config, scrollSmoothing: { type: 'lerp', factor: 0.15 } })).not.toThrow();
+        expect(() => validateConfig({ ...config, scrollSmoothing: { type: 'spring' } })).not.toThrow();
+        expect(() => validateConfig({ ...config, scrollSmoothing: { type: 'lerp', factor: 0 } })).toThrow(
+          'Invalid field "scrollSmoothing.factor"'
+        );
+        expect(() => validateConfig({ ...config, scrollSmoothing: { type: 'spring', stiffness: -1 } })).toThrow(
+          'Invalid field "scrollSmoothing.stiffness"'
+        );
+        expect(() => validateConfig({ ...config, scrollSmoothing: { type: 'bouncy' } })).toThrow(
+          'Invalid field "scrollSmoothing.type"'
+        );
+      });
+      
+      it('should throw error for unsupported offset types', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'scroll',
+          scrollTarget: null,
+          scrollStart: { top: 100 },
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        } as any;
+        
+        expect(() => validateConfig(config)).toThrow('Invalid field "scrollStart"');
+      });
+    });
+    
+    describe('conditional validation - pointer driver', () => {
+      it('should accept a minimal pointer driver configuration', () => {
+        const config: AnimationConfig = {
+          mount: mockElement,
+          driver: 'pointer',
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        };
+        
+        expect(() => validateConfig(config)).not.toThrow();
+      });
+      
+      it('should throw error for invalid pointer options', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'pointer',
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        } as any;
+        
+        expect(() => validateConfig({ ...config, pointerTarget: 'document' })).toThrow('Invalid field "pointerTarget"');
+        expect(() => validateConfig({ ...config, pointerHeight: 'pressure' })).toThrow('Invalid field "pointerHeight"');
+        expect(() => validateConfig({ ...config, pointerAnchor: { x: 0.5 } })).toThrow('Invalid field "pointerAnchor"');
+        expect(() => validateConfig({ ...config, pointerStiffness: 0 })).toThrow('Invalid field "pointerStiffness"');
+        expect(() => validateConfig({ ...config, pointerMaxSpeed: -1 })).toThrow('Invalid field "pointerMaxSpeed"');
+      });
+      
+      it('should default path functions to pass pointer coordinates through', () => {
+        const result = applyDefaults({
+          mount: mockElement,
+          driver: 'pointer',
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        });
+        
+        expect(result.pathX(0.3)).toBe(0.3);
+        expect(result.pathY(0.7)).toBe(0.7);
+        expect(result.pointerTarget).toBe('mount');
+        expect(result.pointerHeight).toBe('speed');
+      });
+    });
+    
+    describe('conditional validation - media driver', () => {
+      const mediaConfig = () => ({
+        mount: mockElement,
+        driver: 'media',
+        mediaElement: document.createElement('video'),
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      }) as any;
+      
+      it('should accept a media driver with a segment', () => {
+        expect(() => validateConfig({ ...mediaConfig(), mediaStart: 2, mediaEnd: 8 })).not.toThrow();
+      });
+      
+      it('should throw error when mediaElement is missing or not a media element', () => {
+        expect(() => validateConfig({ ...mediaConfig(), mediaElement: undefined })).toThrow('Missing required field "mediaElement"');
+        expect(() => validateConfig({ ...mediaConfig(), mediaElement: document.createElement('div') })).toThrow('Invalid field "mediaElement"');
+      });
+      
+      it('should throw error for invalid segment times', () => {
+        expect(() => validateConfig({ ...mediaConfig(), mediaStart: -1 })).toThrow('Invalid field "mediaStart"');
+        expect(() => validateConfig({ ...mediaConfig(), mediaEnd: NaN })).toThrow('Invalid field "mediaEnd"');
+        expect(() => validateConfig({ ...mediaConfig(), mediaStart: 5, mediaEnd: 5 })).toThrow('Expected a time after mediaStart');
+      });
+    });
+    
+    describe('conditional validation - view driver', () => {
+      it('should throw error when viewTarget is missing for view driver', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'view',
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        } as any;
+        
+        expect(() => validateConfig(config)).toThrow(ConfigValidationError);
+        expect(() => validateConfig(config)).toThrow('Missing required field "viewTarget"');
+      });
+      
+      it('should throw error when viewTarget is not an HTMLElement', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'view',
+          viewTarget: 'not-an-element',
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        } as any;
+        
+        expect(() => validateConfig(config)).toThrow(ConfigValidationError);
+        expect(() => validateConfig(config)).toThrow('Invalid field "viewTarget"');
+      });
+      
+      it('should throw error when view offsets are invalid', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'view',
+          viewTarget: document.createElement('section'),
+          viewStart: { element: 0, viewport: 'bottom' },
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        } as any;
+        
+        expect(() => validateConfig(config)).toThrow(ConfigValidationError);
+        expect(() => validateConfig(config)).toThrow('Invalid field "viewStart.viewport"');
+      });
+      
+      it('should accept valid view driver configuration', () => {
+        const config: AnimationConfig = {
+          mount: mockElement,
+          driver: 'view',
+          viewTarget: document.createElement('section'),
+          viewStart: { element: 0, viewport: 0.8 },
+          viewEnd: { element: 1, viewport: 0.2 },
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        };
+        
+        expect(() => validateConfig(config)).not.toThrow();
+      });
+    });
+    
+    describe('audio-reactive height validation', () => {
+      const timeConfig = () => ({
+        mount: mockElement,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      }) as any;
+      
+      const analyser = {
+        fftSize: 2048,
+        frequencyBinCount: 1024,
+        context: { sampleRate: 48000 },
+        getFloatTimeDomainData: () => {},
+        getByteFrequencyData: () => {},
+      };
+      
+      it('should accept a media element source or an injected analyser', () => {
+        expect(() => validateConfig({ ...timeConfig(), audioSource: document.createElement('audio') })).not.toThrow();
+        expect(() => validateConfig({ ...timeConfig(), audioAnalyser: analyser, audioMetric: 'band', audioBand: [40, 120] })).not.toThrow();
+      });
+      
+      it('should throw error for invalid audio inputs', () => {
+        expect(() => validateConfig({ ...timeConfig(), audioSource: document.createElement('div') })).toThrow('Invalid field "audioSource"');
+        expect(() => validateConfig({ ...timeConfig(), audioAnalyser: {} })).toThrow('Invalid field "audioAnalyser"');
+      });
+      
+      it('should throw error for invalid audio options', () => {
+        expect(() => validateConfig({ ...timeConfig(), audioMetric: 'peak' })).toThrow('Invalid field "audioMetric"');
+        expect(() => validateConfig({ ...timeConfig(), audioBand: [200, 100] })).toThrow('Invalid field "audioBand"');
+        expect(() => validateConfig({ ...timeConfig(), audioAttackMs: -5 })).toThrow('Invalid field "audioAttackMs"');
+        expect(() => validateConfig({ ...timeConfig(), audioReleaseMs: NaN })).toThrow('Invalid field "audioReleaseMs"');
+        expect(() => validateConfig({ ...timeConfig(), audioGain: 0 })).toThrow('Invalid field "audioGain"');
+      });
+    });
+    
+    describe('clock validation', () => {
+      it('should accept a manual clock and reject incomplete clocks', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+        } as any;
+        
+        expect(() => validateConfig({ ...config, clock: new ManualClock() })).not.toThrow();
+        expect(() => validateConfig({ ...config, clock: { now: () => 0 } })).toThrow('Invalid field "clock"');
+      });
+    });
+    
     describe('optional field validation', () => {
       it('should throw error for invalid width', () => {
         const config = {
@@ -283,6 +554,84 @@ describe('Config Validation', () => {
         expect(() => validateConfig(config)).toThrow('Invalid field "curvePreset"');
       });
       
+      it('should accept CSS easing strings as curvePreset', () => {
+        const easings = ['ease-out', 'cubic-bezier(0.34, 1.56, 0.64, 1)', 'steps(4, jump-start)', 'linear(0, 0.25 30%, 1)'];
+        
+        for (const curvePreset of easings) {
+          const config = {
+            mount: mockElement,
+            driver: 'time',
+            durationMs: 1000,
+            light: { x: 0.5, y: 0.5, z: 2.0 },
+            curvePreset,
+          } as any;
+          
+          expect(() => validateConfig(config)).not.toThrow();
+        }
+      });
+      
+      it('should explain why a CSS easing curvePreset is invalid', () => {
+        const withPreset = (curvePreset: string) => ({
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+          curvePreset,
+        }) as any;
+        
+        expect(() => validateConfig(withPreset('cubic-bezier(1.2, 0, 0.5, 1)'))).toThrow(
+          'Invalid field "curvePreset". Expected a valid CSS easing, but got "cubic-bezier(1.2, 0, 0.5, 1)": Cubic Bezier x coordinates must be between 0 and 1'
+        );
+        expect(() => validateConfig(withPreset('steps(0)'))).toThrow('Step count must be an integer');
+        expect(() => validateConfig(withPreset('linear(0)'))).toThrow('linear() needs at least 2 stops');
+        expect(() => validateConfig(withPreset('spring(1, 2)'))).toThrow('unknown easing function "spring()"');
+      });
+      
+      it('should accept parametric curve presets', () => {
+        const presets = [
+          'bounce',
+          { type: 'bounce', bounces: 4, restitution: 0.6 },
+          { type: 'elastic', amplitude: 1.5, period: 0.4 },
+          { type: 'spring', stiffness: 180, damping: 12, mass: 1 },
+          { type: 'gravityArc', apexes: [1, 0.5] },
+        ];
+        
+        for (const curvePreset of presets) {
+          const config = {
+            mount: mockElement,
+            driver: 'time',
+            durationMs: 1000,
+            light: { x: 0.5, y: 0.5, z: 2.0 },
+            curvePreset,
+          } as any;
+          
+          expect(() => validateConfig(config)).not.toThrow();
+        }
+      });
+      
+      it('should name the invalid option of a parametric curve preset', () => {
+        const withPreset = (curvePreset: object) => ({
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+          curvePreset,
+        }) as any;
+        
+        expect(() => validateConfig(withPreset({ type: 'bounce', restitution: 1.2 }))).toThrow(
+          'Invalid field "curvePreset.restitution". Expected a number in (0,1), but got 1.2.'
+        );
+        expect(() => validateConfig(withPreset({ type: 'bounce', bounces: -1 }))).toThrow('"curvePreset.bounces"');
+        expect(() => validateConfig(withPreset({ type: 'elastic', amplitude: 0.5 }))).toThrow('"curvePreset.amplitude"');
+        expect(() => validateConfig(withPreset({ type: 'spring', damping: NaN }))).toThrow('"curvePreset.damping"');
+        expect(() => validateConfig(withPreset({ type: 'gravityArc', apexes: [1, 2] }))).toThrow(
+          'Invalid field "curvePreset.apexes". Expected a non-empty array of numbers in (0,1], but got [1,2].'
+        );
+        expect(() => validateConfig(withPreset({ type: 'wobble' }))).toThrow(
+          'Invalid field "curvePreset.type". Expected one of bounce, elastic, spring, gravityArc, but got "wobble".'
+        );
+      });
+      
       it('should throw error when customCurve is not a function', () => {
         const config = {
           mount: mockElement,
@@ -296,6 +645,111 @@ describe('Config Validation', () => {
         expect(() => validateConfig(config)).toThrow('Invalid field "customCurve"');
       });
       
+      it('should throw error when keypointOscillation is not a function', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+          keypointOscillation: 0.5,
+        } as any;
+        
+        expect(() => validateConfig(config)).toThrow('Invalid field "keypointOscillation". Expected a function, but got number.');
+      });
+      
+      it('should accept curveSampling with a resolution and interpolation', () => {
+        const config: AnimationConfig = {
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+          curveSampling: { resolution: 128, interpolation: 'cubic' },
+        };
+        
+        expect(() => validateConfig(config)).not.toThrow();
+      });
+      
+      it('should throw error when curveSampling is invalid', () => {
+        const withSampling = (curveSampling: unknown) => ({
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+          curveSampling,
+        }) as any;
+        
+        expect(() => validateConfig(withSampling(64))).toThrow(
+          'Invalid field "curveSampling". Expected an object with a resolution.'
+        );
+        expect(() => validateConfig(withSampling({ resolution: 0 }))).toThrow(
+          'Invalid field "curveSampling.resolution". Expected a positive integer, but got 0.'
+        );
+        expect(() => validateConfig(withSampling({}))).toThrow(
+          'Invalid field "curveSampling.resolution". Expected a positive integer, but got undefined.'
+        );
+        expect(() => validateConfig(withSampling({ resolution: 64, interpolation: 'quadratic' }))).toThrow(
+          'Invalid field "curveSampling.interpolation". Expected "linear" or "cubic", but got "quadratic".'
+        );
+      });
+      
+      it('should accept noise modifiers for height, x and y', () => {
+        const config: AnimationConfig = {
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+          noise: {
+            height: { amplitude: 0.05, frequency: 6, octaves: 3, seed: 7 },
+            x: { amplitude: 0.02 },
+          },
+        };
+        
+        expect(() => validateConfig(config)).not.toThrow();
+      });
+      
+      it('should throw error when a noise modifier is invalid', () => {
+        const withNoise = (noise: unknown) => ({
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+          noise,
+        }) as any;
+        
+        expect(() => validateConfig(withNoise(0.1))).toThrow(
+          'Invalid field "noise". Expected an object with height, x or y noise options.'
+        );
+        expect(() => validateConfig(withNoise({ y: 0.1 }))).toThrow(
+          'Invalid field "noise.y". Expected an object with an amplitude.'
+        );
+        expect(() => validateConfig(withNoise({ height: {} }))).toThrow(
+          'Invalid field "noise.height.amplitude". Expected a non-negative number, but got undefined.'
+        );
+        expect(() => validateConfig(withNoise({ x: { amplitude: 0.1, frequency: -2 } }))).toThrow(
+          'Invalid field "noise.x.frequency". Expected a positive number, but got -2.'
+        );
+        expect(() => validateConfig(withNoise({ x: { amplitude: 0.1, octaves: 0 } }))).toThrow(
+          'Invalid field "noise.x.octaves". Expected a positive integer, but got 0.'
+        );
+        expect(() => validateConfig(withNoise({ height: { amplitude: 0.1, seed: 0.5 } }))).toThrow(
+          'Invalid field "noise.height.seed". Expected an integer, but got 0.5.'
+        );
+      });
+      
+      it('should throw error when keypointInterpolation is unknown', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+          keypointInterpolation: 'cubic',
+        } as any;
+        
+        expect(() => validateConfig(config)).toThrow(
+          'Invalid field "keypointInterpolation". Expected one of linear, catmull-rom, monotone, natural-spline, but got "cubic".'
+        );
+      });
+      
       it('should throw error when pathX is not a function', () => {
         const config = {
           mount: mockElement,
@@ -322,6 +776,37 @@ describe('Config Validation', () => {
         expect(() => validateConfig(config)).toThrow('Invalid field "pathY"');
       });
       
+      it('should accept expression strings for customCurve, pathX and pathY', () => {
+        const config: AnimationConfig = {
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+          customCurve: '1 - (2 * t - 1) ^ 2',
+          pathX: '0.5 + 0.4 * sin(2 * pi * t)',
+          pathY: 't',
+        };
+        
+        expect(() => validateConfig(config)).not.toThrow();
+      });
+      
+      it('should throw error when an expression string is invalid', () => {
+        const config = {
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+          customCurve: 'sin(2 * pi * t',
+        } as any;
+        
+        expect(() => validateConfig(config)).toThrow(
+          'Invalid field "customCurve". Expected a valid expression, but got "sin(2 * pi * t": expected ")", but got end of expression.'
+        );
+        expect(() => validateConfig({ ...config, customCurve: undefined, pathY: 123 })).toThrow(
+          'Invalid field "pathY". Expected a function or an expression string, but got number.'
+        );
+      });
+      
       it('should throw error when loop is invalid type', () => {
         const config = {
           mount: mockElement,
@@ -454,6 +939,145 @@ describe('Config Validation', () => {
         
         expect(() => validateConfig(config)).not.toThrow();
       });
+      
+      it('should accept numeric and split keypoint tangents', () => {
+        const config: AnimationConfig = {
+          mount: mockElement,
+          driver: 'time',
+          durationMs: 1000,
+          light: { x: 0.5, y: 0.5, z: 2.0 },
+          keypoints: [
+            { y: 0.0, zMin: 0.8, zMax: 0.8, tangent: 0 },
+            { y: 0.5, zMin: 0.0, zMax: 0.0, tangent: { in: -3, out: 3 } },
+            { y: 1.0, zMin: 0.8, zMax: 0.8 },
+          ],
+        };
+        
+        expect(() => validateConfig(config)).not.toThrow();
+      });
+      
+      it('should throw error when a keypoint tangent is invalid', () => {
+        for (const tangent of [NaN, 'steep', { in: 1 }, { in: 1, out: Infinity }]) {
+          const config = {
+            mount: mockElement,
+            driver: 'time',
+            durationMs: 1000,
+            light: { x: 0.5, y: 0.5, z: 2.0 },
+            keypoints: [{ y: 0.5, zMin: 0, zMax: 1, tangent }],
+          } as any;
+          
+          expect(() => validateConfig(config)).toThrow(
+            'Invalid keypoint at index 0. Field "tangent" must be a finite number or an object with finite "in" and "out" numbers.'
+          );
+        }
+      });
+    });
+    
+    describe('markers validation', () => {
+      const timeConfig = () => ({
+        mount: mockElement,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      }) as any;
+      
+      it('should accept markers with ids, positions and callbacks', () => {
+        const markers = [
+          { id: 'start', at: 0 },
+          { id: 'cta', at: 0.25, onPass: () => {} },
+        ];
+        
+        expect(() => validateConfig({ ...timeConfig(), markers })).not.toThrow();
+      });
+      
+      it('should throw error when markers is not an array', () => {
+        expect(() => validateConfig({ ...timeConfig(), markers: 'cta' })).toThrow('Invalid field "markers"');
+      });
+      
+      it('should throw error for invalid markers', () => {
+        expect(() => validateConfig({ ...timeConfig(), markers: [{ at: 0.5 }] })).toThrow(
+          'Invalid marker at index 0. Missing required field "id".'
+        );
+        expect(() => validateConfig({ ...timeConfig(), markers: [{ id: 'a', at: 1.5 }] })).toThrow('Field "at" must be a number in [0,1]');
+        expect(() => validateConfig({ ...timeConfig(), markers: [{ id: 'a', at: 0.5, onPass: true }] })).toThrow('Field "onPass" must be a function');
+      });
+    });
+    
+    describe('segments validation', () => {
+      const timeConfig = () => ({
+        mount: mockElement,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      }) as any;
+      
+      it('should accept labelled segments with shares, curves and paths', () => {
+        const segments = [
+          { label: 'drop', share: 1, customCurve: (t: number) => 1 - t },
+          { label: 'bounce', share: 2, curvePreset: 'sine', easing: (t: number) => t },
+          { label: 'roll', keypoints: [{ y: 0, zMin: 0, zMax: 0 }], pathX: (t: number) => t },
+        ];
+        
+        expect(() => validateConfig({ ...timeConfig(), segments })).not.toThrow();
+      });
+      
+      it('should throw error when segments is not an array', () => {
+        expect(() => validateConfig({ ...timeConfig(), segments: {} })).toThrow('Invalid field "segments"');
+      });
+      
+      it('should throw error for missing or duplicate labels', () => {
+        expect(() => validateConfig({ ...timeConfig(), segments: [{ share: 1 }] })).toThrow(
+          'Invalid segment at index 0. Missing required field "label".'
+        );
+        expect(() => validateConfig({ ...timeConfig(), segments: [{ label: 'a' }, { label: 'a' }] })).toThrow(
+          'Invalid segment at index 1. Duplicate label "a".'
+        );
+      });
+      
+      it('should throw error for non-positive shares', () => {
+        expect(() => validateConfig({ ...timeConfig(), segments: [{ label: 'a', share: 0 }] })).toThrow('Field "share"');
+        expect(() => validateConfig({ ...timeConfig(), segments: [{ label: 'a', share: Infinity }] })).toThrow('Field "share"');
+      });
+      
+      it('should throw error for invalid segment curves and paths', () => {
+        expect(() => validateConfig({ ...timeConfig(), segments: [{ label: 'a', curvePreset: 'wobble' }] })).toThrow('Field "curvePreset"');
+        expect(() => validateConfig({ ...timeConfig(), segments: [{ label: 'a', curvePreset: 'steps(2, jump-sideways)' }] })).toThrow('Field "curvePreset" must be a valid CSS easing');
+        expect(() => validateConfig({ ...timeConfig(), segments: [{ label: 'a', curvePreset: { type: 'spring', mass: 0 } }] })).toThrow('Field "curvePreset.mass" must be a positive number');
+        expect(() => validateConfig({ ...timeConfig(), segments: [{ label: 'a', easing: 'ease-in' }] })).toThrow('Field "easing" must be a function');
+        expect(() => validateConfig({ ...timeConfig(), segments: [{ label: 'a', pathY: 0.5 }] })).toThrow('Field "pathY" must be a function');
+        expect(() => validateConfig({ ...timeConfig(), segments: [{ label: 'a', keypoints: {} }] })).toThrow('Field "keypoints" must be an array');
+        expect(() => validateConfig({ ...timeConfig(), segments: [{ label: 'a', pathX: 'y / 2' }] })).toThrow(
+          'Invalid segment at index 0. Field "pathX" must be a valid expression, but got "y / 2": unknown name "y" at position 1.'
+        );
+      });
+      
+      it('should check each segment keypoint like top-level keypoints', () => {
+        const withKeypoints = (keypoints: unknown[]) => ({
+          ...timeConfig(),
+          segments: [{ label: 'a' }, { label: 'b', keypoints }],
+        }) as any;
+        
+        expect(() => validateConfig(withKeypoints([{ y: 0, zMin: 0, zMax: 1 }, { y: 'high', zMin: 0, zMax: 1 }]))).toThrow(
+          'Invalid segment at index 1. Field "keypoints[1].y" must be a number.'
+        );
+        expect(() => validateConfig(withKeypoints([{ y: 0, zMin: NaN, zMax: 1 }]))).toThrow(
+          'Invalid segment at index 1. Field "keypoints[0].zMin" must be a number.'
+        );
+        expect(() => validateConfig(withKeypoints([{ y: 0, zMin: 0, zMax: 1, tangent: { in: 1 } }]))).toThrow(
+          'Invalid segment at index 1. Field "keypoints[0].tangent" must be a finite number or an object with finite "in" and "out" numbers.'
+        );
+        expect(() => validateConfig(withKeypoints([null]))).toThrow(
+          'Invalid segment at index 1. Field "keypoints[0]" must be an object.'
+        );
+        expect(() => validateConfig(withKeypoints([{ y: 0, zMin: 0, zMax: 1, tangent: 2 }]))).not.toThrow();
+      });
+      
+      it('should accept segment expression strings', () => {
+        expect(() => validateConfig({
+          ...timeConfig(),
+          segments: [{ label: 'a', customCurve: 't ^ 2', pathX: '0.5', pathY: '1 - t' }],
+        })).not.toThrow();
+      });
     });
     
     describe('zones validation', () => {
@@ -588,6 +1212,46 @@ describe('Config Validation', () => {
     });
   });
   
+  describe('validateAnimationState', () => {
+    const state: AnimationState = {
+      driver: 'time',
+      progress: 0.5,
+      iteration: 1,
+      loopCount: 1,
+      playState: 'paused',
+      manualControl: false,
+      driverState: { timeMs: 1500, playbackRate: 1, wrappedLoops: 0 },
+      overrides: { light: { x: 0.2, y: 0.2, z: 2 } },
+    };
+    
+    it('should accept a state that went through JSON', () => {
+      expect(() => validateAnimationState(JSON.parse(JSON.stringify(state)))).not.toThrow();
+      expect(() => validateAnimationState({ ...state, driverState: null })).not.toThrow();
+    });
+    
+    it('should reject values that are not states', () => {
+      expect(() => validateAnimationState(null as unknown as AnimationState)).toThrow(ConfigValidationError);
+      expect(() => validateAnimationState('paused' as unknown as AnimationState)).toThrow(
+        'Expected an object returned by getState()'
+      );
+    });
+    
+    it('should reject invalid fields', () => {
+      expect(() => validateAnimationState({ ...state, progress: NaN })).toThrow(
+        'Invalid state field "progress"'
+      );
+      expect(() => validateAnimationState({ ...state, playState: 'stopped' as 'idle' })).toThrow(
+        'Invalid state field "playState"'
+      );
+      expect(() =>
+        validateAnimationState({ ...state, driverState: { timeMs: 1500 } as AnimationState['driverState'] })
+      ).toThrow('Invalid state field "driverState"');
+      expect(() =>
+        validateAnimationState({ ...state, overrides: { light: { x: 0.2, y: 0.2 } as AnimationConfig['light'] } })
+      ).toThrow('Invalid state field "overrides.light"');
+    });
+  });
+  
   describe('applyDefaults', () => {
     let baseConfig: AnimationConfig;
     
@@ -677,6 +1341,17 @@ describe('Config Validation', () => {
       expect(result.pathY(0.5)).toBe(0.5);
     });
     
+    it('should apply default keypointOscillation', () => {
+      const result = applyDefaults(baseConfig);
+      expect(result.keypointOscillation).toBe(CONFIG_DEFAULTS.keypointOscillation);
+      expect(result.keypointOscillation(0.3)).toBe(0.3);
+    });
+    
+    it('should apply default keypointInterpolation', () => {
+      const result = applyDefaults(baseConfig);
+      expect(result.keypointInterpolation).toBe('catmull-rom');
+    });
+    
     it('should preserve user-provided values', () => {
       const config: AnimationConfig = {
         ...baseConfig,
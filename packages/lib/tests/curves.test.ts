@@ -9,11 +9,22 @@ import {
   cosine,
   easeInOut,
   bezier,
+  bounce,
+  elastic,
+  spring,
+  gravityArc,
   getCurvePreset,
   CURVE_PRESETS,
   createCustomCurveAdapter,
   createKeypointCurve,
+  sequence,
+  mirror,
+  repeat,
+  remap,
+  blend,
+  reverse,
 } from '../src/core/curves';
+import { parseCssEasing } from '../src/core/easing';
 
 describe('Curve Presets', () => {
   describe('linear', () => {
@@ -229,6 +240,127 @@ describe('Curve Presets', () => {
     });
   });
 
+  describe('bounce', () => {
+    it('should drop from full height and rest on the ground at the end', () => {
+      const curve = bounce();
+      expect(curve(0)).toBe(1);
+      expect(curve(1)).toBeCloseTo(0, 10);
+    });
+
+    it('should reach apexes of restitution squared times the previous one', () => {
+      // Drop takes 1 time unit, rebounds take 2 * 0.5 and 2 * 0.25: total 2.5
+      const curve = bounce({ bounces: 2, restitution: 0.5 });
+      expect(curve(1 / 2.5)).toBeCloseTo(0, 10);
+      expect(curve(1.5 / 2.5)).toBeCloseTo(0.25, 10);
+      expect(curve(2 / 2.5)).toBeCloseTo(0, 10);
+      expect(curve(2.25 / 2.5)).toBeCloseTo(0.0625, 10);
+    });
+
+    it('should stay within [0,1]', () => {
+      const curve = bounce({ bounces: 5, restitution: 0.8 });
+      for (let t = 0; t <= 1; t += 0.01) {
+        expect(curve(t)).toBeGreaterThanOrEqual(0);
+        expect(curve(t)).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => bounce({ bounces: 1.5 })).toThrow('non-negative integer');
+      expect(() => bounce({ restitution: 1 })).toThrow('between 0 and 1');
+    });
+  });
+
+  describe('elastic', () => {
+    it('should start at 0, peak at 1 and settle below the peak', () => {
+      const curve = elastic();
+      expect(curve(0)).toBe(0);
+
+      let peak = 0;
+      for (let t = 0; t <= 1; t += 0.001) {
+        peak = Math.max(peak, curve(t));
+      }
+      expect(peak).toBeCloseTo(1, 3);
+      expect(curve(1)).toBeLessThan(1);
+      expect(curve(1)).toBeGreaterThan(0.5);
+    });
+
+    it('should hold swings below the ground at 0', () => {
+      const curve = elastic({ amplitude: 10 });
+      for (let t = 0; t <= 1; t += 0.01) {
+        expect(curve(t)).toBeGreaterThanOrEqual(0);
+      }
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => elastic({ amplitude: 0.5 })).toThrow('at least 1');
+      expect(() => elastic({ period: 0 })).toThrow('must be positive');
+    });
+  });
+
+  describe('spring', () => {
+    it('should start at rest at 0', () => {
+      const curve = spring();
+      expect(curve(0)).toBe(0);
+      expect(curve(0.001)).toBeCloseTo(0, 3);
+    });
+
+    it('should scale an underdamped spring so its first overshoot is 1', () => {
+      // stiffness 100, mass 1, damping 10: omega 10, zeta 0.5
+      const curve = spring();
+      const omegaD = 10 * Math.sqrt(0.75);
+      expect(curve(Math.PI / omegaD)).toBeCloseTo(1, 10);
+
+      const rest = 1 / (1 + Math.exp((-5 * Math.PI) / omegaD));
+      expect(curve(1)).toBeCloseTo(rest, 2);
+    });
+
+    it('should rise without overshoot when critically damped', () => {
+      // damping 20 is critical for stiffness 100, mass 1
+      const curve = spring({ stiffness: 100, damping: 20, mass: 1 });
+      expect(curve(0.1)).toBeCloseTo(1 - Math.exp(-1) * 2, 10);
+
+      let previous = 0;
+      for (let t = 0.01; t <= 1; t += 0.01) {
+        expect(curve(t)).toBeGreaterThanOrEqual(previous);
+        previous = curve(t);
+      }
+      expect(previous).toBeLessThanOrEqual(1);
+    });
+
+    it('should stay within [0,1] without damping', () => {
+      const curve = spring({ damping: 0 });
+      for (let t = 0; t <= 1; t += 0.01) {
+        expect(curve(t)).toBeGreaterThanOrEqual(0);
+        expect(curve(t)).toBeLessThanOrEqual(1 + 1e-12);
+      }
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => spring({ stiffness: 0 })).toThrow(
+        'stiffness must be positive'
+      );
+      expect(() => spring({ damping: -1 })).toThrow('non-negative');
+      expect(() => spring({ mass: 0 })).toThrow('mass must be positive');
+    });
+  });
+
+  describe('gravityArc', () => {
+    it('should hop from the ground through each apex and land', () => {
+      // Hops last 2 * sqrt(apex): 2 and 1, total 3
+      const curve = gravityArc({ apexes: [1, 0.25] });
+      expect(curve(0)).toBe(0);
+      expect(curve(1 / 3)).toBeCloseTo(1, 10);
+      expect(curve(2 / 3)).toBeCloseTo(0, 10);
+      expect(curve(2.5 / 3)).toBeCloseTo(0.25, 10);
+      expect(curve(1)).toBeCloseTo(0, 10);
+    });
+
+    it('should reject invalid apexes', () => {
+      expect(() => gravityArc({ apexes: [] })).toThrow('at least one apex');
+      expect(() => gravityArc({ apexes: [1.5] })).toThrow('must be in (0,1]');
+    });
+  });
+
   describe('getCurvePreset', () => {
     it('should return linear curve for "linear"', () => {
       const curve = getCurvePreset('linear');
@@ -271,6 +403,36 @@ describe('Curve Presets', () => {
         'linear, sine, cosine, easeInOut, bezier'
       );
     });
+
+    it('should parse CSS easing strings', () => {
+      const curve = getCurvePreset('cubic-bezier(0, 0, 1, 1)');
+      expect(curve(0.3)).toBeCloseTo(0.3, 5);
+      expect(getCurvePreset('steps(4)')(0.3)).toBe(0.25);
+      expect(getCurvePreset('ease-in')(0.5)).toBeLessThan(0.5);
+    });
+
+    it('should clamp CSS easings that leave [0,1] to the height range', () => {
+      expect(getCurvePreset('linear(0, -2, 1)')(0.5)).toBe(0);
+      expect(getCurvePreset('cubic-bezier(0.3, 1.8, 0.6, 1)')(0.5)).toBe(1);
+      expect(parseCssEasing('linear(0, -2, 1)')(0.5)).toBe(-2);
+    });
+
+    it('should build parametric presets from their options', () => {
+      const curve = getCurvePreset({ type: 'gravityArc', apexes: [0.25] });
+      expect(curve(0.5)).toBeCloseTo(0.25, 10);
+    });
+
+    it('should throw for unknown parametric preset types', () => {
+      expect(() => getCurvePreset({ type: 'wobble' } as any)).toThrow(
+        'Invalid curve preset type: "wobble"'
+      );
+    });
+
+    it('should report why a CSS easing string is invalid', () => {
+      expect(() => getCurvePreset('steps(2, sideways)')).toThrow(
+        'Invalid CSS easing "steps(2, sideways)": step position must be one of'
+      );
+    });
   });
 
   describe('CURVE_PRESETS', () => {
@@ -280,10 +442,14 @@ describe('Curve Presets', () => {
       expect(CURVE_PRESETS).toHaveProperty('cosine');
       expect(CURVE_PRESETS).toHaveProperty('easeInOut');
       expect(CURVE_PRESETS).toHaveProperty('bezier');
+      expect(CURVE_PRESETS).toHaveProperty('bounce');
+      expect(CURVE_PRESETS).toHaveProperty('elastic');
+      expect(CURVE_PRESETS).toHaveProperty('spring');
+      expect(CURVE_PRESETS).toHaveProperty('gravityArc');
     });
 
-    it('should have exactly 5 presets', () => {
-      expect(Object.keys(CURVE_PRESETS)).toHaveLength(5);
+    it('should have exactly 9 presets', () => {
+      expect(Object.keys(CURVE_PRESETS)).toHaveLength(9);
     });
 
     it('all presets should be functions', () => {
@@ -304,6 +470,141 @@ describe('Curve Presets', () => {
   });
 });
 
+describe('Curve Combinators', () => {
+  describe('sequence', () => {
+    it('should give each part a share of the progress proportional to its weight', () => {
+      const curve = sequence([[linear, 1], [(t) => 1 - t, 3]]);
+      expect(curve(0)).toBe(0);
+      expect(curve(0.125)).toBeCloseTo(0.5, 10);
+      expect(curve(0.25)).toBeCloseTo(1, 10);
+      expect(curve(0.625)).toBeCloseTo(0.5, 10);
+      expect(curve(1)).toBe(0);
+    });
+
+    it('should clamp progress outside [0,1] to the first and last part', () => {
+      const curve = sequence([[linear, 1], [linear, 1]]);
+      expect(curve(-0.5)).toBe(0);
+      expect(curve(1.5)).toBe(1);
+    });
+
+    it('should forward the ball position to every part', () => {
+      const part = vi.fn(() => 0.5);
+      sequence([[part, 1]])(0.3, { x: 0.1, y: 0.2 });
+      expect(part).toHaveBeenCalledWith(expect.closeTo(0.3, 10), { x: 0.1, y: 0.2 });
+    });
+
+    it('should reject empty sequences and invalid weights', () => {
+      expect(() => sequence([])).toThrow('Curve sequence must have at least one part');
+      expect(() => sequence([[linear, 0]])).toThrow('Curve sequence weights must be positive numbers, but got 0');
+      expect(() => sequence([[linear, NaN]])).toThrow('Curve sequence weights must be positive numbers');
+      expect(() => sequence([[linear, Infinity]])).toThrow('Curve sequence weights must be positive numbers');
+    });
+  });
+
+  describe('mirror', () => {
+    it('should play the curve forward then backward', () => {
+      const curve = mirror(linear);
+      expect(curve(0)).toBe(0);
+      expect(curve(0.25)).toBe(0.5);
+      expect(curve(0.5)).toBe(1);
+      expect(curve(0.75)).toBe(0.5);
+      expect(curve(1)).toBe(0);
+    });
+  });
+
+  describe('repeat', () => {
+    it('should restart the curve every 1/count of the progress', () => {
+      const curve = repeat(linear, 4);
+      expect(curve(0)).toBe(0);
+      expect(curve(0.125)).toBeCloseTo(0.5, 10);
+      expect(curve(0.25)).toBeCloseTo(0, 10);
+      expect(curve(0.375)).toBeCloseTo(0.5, 10);
+      expect(curve(1)).toBe(1);
+    });
+
+    it('should end every repetition of a mirrored curve on the ground', () => {
+      const hops = repeat(mirror(easeInOut), 3);
+      for (const t of [0, 1 / 3, 2 / 3, 1]) {
+        expect(hops(t)).toBeCloseTo(0, 10);
+      }
+      expect(hops(1 / 6)).toBeCloseTo(1, 10);
+    });
+
+    it('should reject counts that are not positive integers', () => {
+      expect(() => repeat(linear, 0)).toThrow('Curve repeat count must be a positive integer, but got 0');
+      expect(() => repeat(linear, 1.5)).toThrow('Curve repeat count must be a positive integer, but got 1.5');
+    });
+  });
+
+  describe('remap', () => {
+    it('should play the curve over the input range and hold outside it', () => {
+      const curve = remap(linear, [0.2, 0.6]);
+      expect(curve(0)).toBe(0);
+      expect(curve(0.4)).toBeCloseTo(0.5, 10);
+      expect(curve(0.8)).toBe(1);
+    });
+
+    it('should scale heights into the output range', () => {
+      const curve = remap(linear, [0, 1], [0.2, 0.6]);
+      expect(curve(0)).toBeCloseTo(0.2, 10);
+      expect(curve(0.5)).toBeCloseTo(0.4, 10);
+      expect(curve(1)).toBeCloseTo(0.6, 10);
+    });
+
+    it('should accept reversed ranges', () => {
+      expect(remap(linear, [1, 0])(0.25)).toBeCloseTo(0.75, 10);
+      expect(remap(linear, [0, 1], [1, 0])(0.25)).toBeCloseTo(0.75, 10);
+    });
+
+    it('should reject empty and non-finite ranges', () => {
+      expect(() => remap(linear, [0.5, 0.5])).toThrow('Curve remap input range must not be empty, but got [0.5, 0.5]');
+      expect(() => remap(linear, [0, 1], [0, Infinity])).toThrow('Curve remap ranges must be finite numbers');
+    });
+  });
+
+  describe('blend', () => {
+    it('should mix two curves by a fixed amount', () => {
+      const curve = blend(linear, () => 1, 0.25);
+      expect(curve(0)).toBeCloseTo(0.25, 10);
+      expect(curve(1)).toBeCloseTo(1, 10);
+    });
+
+    it('should crossfade when the mix is a curve', () => {
+      const curve = blend(() => 0, () => 1, linear);
+      expect(curve(0)).toBe(0);
+      expect(curve(0.3)).toBeCloseTo(0.3, 10);
+      expect(curve(1)).toBe(1);
+    });
+
+    it('should clamp a mix curve to [0,1] and treat invalid values as 0', () => {
+      expect(blend(() => 0, () => 1, () => 2)(0.5)).toBe(1);
+      expect(blend(() => 0, () => 1, () => NaN)(0.5)).toBe(0);
+    });
+
+    it('should reject a fixed mix outside [0,1]', () => {
+      expect(() => blend(linear, sine, 1.5)).toThrow('Curve blend mix must be between 0 and 1, but got 1.5');
+    });
+  });
+
+  describe('reverse', () => {
+    it('should play the curve backward', () => {
+      const curve = reverse(easeInOut);
+      expect(curve(0)).toBe(1);
+      expect(curve(0.25)).toBeCloseTo(easeInOut(0.75), 10);
+      expect(curve(1)).toBe(0);
+    });
+  });
+
+  it('should compose into curves that work as customCurve', () => {
+    const curve = createCustomCurveAdapter(blend(repeat(mirror(easeInOut), 2), reverse(bounce()), 0.5));
+    for (let t = 0; t <= 1; t += 0.05) {
+      const z = curve(t);
+      expect(z).toBeGreaterThanOrEqual(0);
+      expect(z).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
 describe('Custom Curve Adapter', () => {
   describe('createCustomCurveAdapter', () => {
     it('should pass through valid values unchanged', () => {
@@ -723,5 +1024,153 @@ describe('Keypoint Interpolation', () => {
         prevZ = z;
       }
     });
+
+    it('should look keypoints up by the position passed in rather than progress', () => {
+      const keypoints = [
+        { y: 0.0, zMin: 0.0, zMax: 0.0 },
+        { y: 0.5, zMin: 1.0, zMax: 1.0 },
+        { y: 1.0, zMin: 0.0, zMax: 0.0 }
+      ];
+      const curve = createKeypointCurve(keypoints);
+      
+      // Progress is near the end, but the ball is at the peak keypoint
+      expect(curve(0.9, { x: 0.5, y: 0.5 })).toBeCloseTo(1, 6);
+      // Progress is at the peak, but the ball is back at the start
+      expect(curve(0.5, { x: 0.5, y: 0 })).toBeCloseTo(0, 6);
+      // Without a position, progress stands in for Y
+      expect(curve(0.5)).toBeCloseTo(1, 6);
+    });
+
+    it('should place height within each band by the oscillation input', () => {
+      const keypoints = [
+        { y: 0.0, zMin: 0.2, zMax: 0.6 },
+        { y: 1.0, zMin: 0.2, zMax: 0.6 }
+      ];
+      const oscillation = vi.fn(() => 0.25);
+      const curve = createKeypointCurve(keypoints, { oscillation });
+      
+      expect(curve(0.8, { x: 0.5, y: 0.3 })).toBeCloseTo(0.3, 6);
+      expect(oscillation).toHaveBeenCalledWith(0.8);
+    });
+
+    it('should keep the oscillation input inside the band', () => {
+      const keypoints = [{ y: 0.5, zMin: 0.2, zMax: 0.6 }];
+      
+      expect(createKeypointCurve(keypoints, { oscillation: () => 3 })(0.5)).toBeCloseTo(0.6, 6);
+      expect(createKeypointCurve(keypoints, { oscillation: () => -1 })(0.5)).toBeCloseTo(0.2, 6);
+      expect(createKeypointCurve(keypoints, { oscillation: () => NaN })(0.5)).toBeCloseTo(0.2, 6);
+    });
+  });
+
+  describe('interpolation modes', () => {
+    const at = (y: number) => ({ x: 0.5, y });
+    const slope = (curve: (t: number, position?: { x: number; y: number }) => number, y: number, side: number) => {
+      const h = 1e-5;
+      return side < 0
+        ? (curve(1, at(y)) - curve(1, at(y - h))) / h
+        : (curve(1, at(y + h)) - curve(1, at(y))) / h;
+    };
+    
+    // Bands differ in width, so heights at full oscillation differ from the band midpoints
+    const keypoints = [
+      { y: 0.0, zMin: 0.0, zMax: 0.1 },
+      { y: 0.3, zMin: 0.2, zMax: 0.9 },
+      { y: 0.7, zMin: 0.4, zMax: 0.5 },
+      { y: 1.0, zMin: 0.0, zMax: 0.2 }
+    ];
+
+    it('should pass through every keypoint in every mode', () => {
+      for (const interpolation of ['linear', 'catmull-rom', 'monotone', 'natural-spline'] as const) {
+        const curve = createKeypointCurve(keypoints, { oscillation: () => 1, interpolation });
+        expect(curve(1, at(0.3))).toBeCloseTo(0.9, 10);
+        expect(curve(1, at(0.7))).toBeCloseTo(0.5, 10);
+      }
+    });
+
+    it('should draw straight lines in linear mode', () => {
+      const curve = createKeypointCurve(keypoints, { oscillation: () => 1, interpolation: 'linear' });
+      expect(curve(1, at(0.5))).toBeCloseTo(0.7, 10);
+    });
+
+    it('should have matching slopes on both sides of each keypoint in smooth modes', () => {
+      for (const interpolation of ['catmull-rom', 'monotone', 'natural-spline'] as const) {
+        const curve = createKeypointCurve(keypoints, { oscillation: () => 1, interpolation });
+        for (const y of [0.3, 0.7]) {
+          expect(slope(curve, y, -1)).toBeCloseTo(slope(curve, y, 1), 2);
+        }
+      }
+    });
+
+    it('should default to catmull-rom', () => {
+      const curve = createKeypointCurve(keypoints, { oscillation: () => 1 });
+      const catmullRom = createKeypointCurve(keypoints, { oscillation: () => 1, interpolation: 'catmull-rom' });
+      expect(curve(1, at(0.5))).toBe(catmullRom(1, at(0.5)));
+    });
+
+    it('should not overshoot plateaus in monotone mode', () => {
+      const plateau = [
+        { y: 0.0, zMin: 0.1, zMax: 0.1 },
+        { y: 0.3, zMin: 0.6, zMax: 0.6 },
+        { y: 0.6, zMin: 0.6, zMax: 0.6 },
+        { y: 1.0, zMin: 0.1, zMax: 0.1 }
+      ];
+      const monotone = createKeypointCurve(plateau, { interpolation: 'monotone' });
+      const catmullRom = createKeypointCurve(plateau, { interpolation: 'catmull-rom' });
+      
+      expect(catmullRom(0, at(0.45))).toBeGreaterThan(0.6);
+      for (let y = 0; y <= 1; y += 0.01) {
+        expect(monotone(0, at(y))).toBeLessThanOrEqual(0.6 + 1e-12);
+        expect(monotone(0, at(y))).toBeGreaterThanOrEqual(0.1 - 1e-12);
+      }
+    });
+
+    it('should have continuous curvature and straight ends as a natural spline', () => {
+      const curve = createKeypointCurve(keypoints, { oscillation: () => 1, interpolation: 'natural-spline' });
+      const curvature = (y: number) => {
+        const h = 1e-3;
+        return (curve(1, at(y + h)) - 2 * curve(1, at(y)) + curve(1, at(y - h))) / (h * h);
+      };
+      
+      expect(curvature(0.3 - 0.002)).toBeCloseTo(curvature(0.3 + 0.002), 0);
+      expect(Math.abs(curvature(0.002))).toBeLessThan(0.5);
+    });
+
+    it('should reproduce a straight line in every mode', () => {
+      const line = [
+        { y: 0.0, zMin: 0.0, zMax: 0.0 },
+        { y: 0.2, zMin: 0.2, zMax: 0.2 },
+        { y: 0.7, zMin: 0.7, zMax: 0.7 },
+        { y: 1.0, zMin: 1.0, zMax: 1.0 }
+      ];
+      for (const interpolation of ['linear', 'catmull-rom', 'monotone', 'natural-spline'] as const) {
+        const curve = createKeypointCurve(line, { interpolation });
+        expect(curve(0, at(0.45))).toBeCloseTo(0.45, 10);
+      }
+    });
+
+    it('should use tangent overrides, with separate sides for a sharp landing', () => {
+      const landing = [
+        { y: 0.0, zMin: 0.8, zMax: 0.8 },
+        { y: 0.5, zMin: 0.0, zMax: 0.0, tangent: { in: -3, out: 3 } },
+        { y: 1.0, zMin: 0.8, zMax: 0.8 }
+      ];
+      const curve = createKeypointCurve(landing, { interpolation: 'monotone' });
+      
+      expect(slope(curve, 0.5, -1)).toBeCloseTo(-3, 2);
+      expect(slope(curve, 0.5, 1)).toBeCloseTo(3, 2);
+      
+      const flat = createKeypointCurve(
+        [landing[0]!, { ...landing[1]!, tangent: 0 }, landing[2]!],
+        { interpolation: 'catmull-rom' }
+      );
+      expect(slope(flat, 0.5, 1)).toBeCloseTo(0, 2);
+    });
+
+    it('should recompute tangents as the oscillation moves the heights', () => {
+      const curve = createKeypointCurve(keypoints, { oscillation: (t) => t, interpolation: 'monotone' });
+      expect(curve(0, at(0.3))).toBeCloseTo(0.2, 10);
+      expect(curve(1, at(0.3))).toBeCloseTo(0.9, 10);
+      expect(curve(0, at(0.3))).toBeCloseTo(0.2, 10);
+    });
   });
 });
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCubicBezierCurve,
+  createStepsCurve,
+  createLinearEasingCurve,
+  parseCssEasing,
+  getCssEasingError,
+  isCssEasing,
+} from '../src/core/easing';
+
+describe('CSS Easing', () => {
+  describe('createCubicBezierCurve', () => {
+    it('should pin the end points', () => {
+      const curve = createCubicBezierCurve(0.25, 0.1, 0.25, 1);
+      expect(curve(0)).toBe(0);
+      expect(curve(1)).toBe(1);
+    });
+
+    it('should match known values of the CSS ease curve', () => {
+      const ease = createCubicBezierCurve(0.25, 0.1, 0.25, 1);
+      expect(ease(0.25)).toBeCloseTo(0.4085, 3);
+      expect(ease(0.5)).toBeCloseTo(0.8024, 3);
+    });
+
+    it('should allow y control points outside [0,1] to overshoot', () => {
+      const easeOutBack = createCubicBezierCurve(0.34, 1.56, 0.64, 1);
+      expect(easeOutBack(0.6)).toBeGreaterThan(1);
+    });
+
+    it('should solve flat slopes by bisection', () => {
+      const curve = createCubicBezierCurve(1, 0, 0, 1);
+      for (let t = 0.05; t < 1; t += 0.05) {
+        const value = curve(t);
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThanOrEqual(1);
+      }
+      expect(curve(0.5)).toBeCloseTo(0.5, 5);
+    });
+
+    it('should reject x coordinates outside [0,1]', () => {
+      expect(() => createCubicBezierCurve(-0.1, 0, 0.5, 1)).toThrow(
+        'x coordinates must be between 0 and 1'
+      );
+      expect(() => createCubicBezierCurve(0.5, NaN, 0.5, 1)).toThrow(
+        'finite numbers'
+      );
+    });
+  });
+
+  describe('createStepsCurve', () => {
+    it('should jump at the end of each step by default', () => {
+      const curve = createStepsCurve(4);
+      expect(curve(0)).toBe(0);
+      expect(curve(0.3)).toBe(0.25);
+      expect(curve(0.99)).toBe(0.75);
+      expect(curve(1)).toBe(1);
+    });
+
+    it('should support every jump position', () => {
+      expect(createStepsCurve(4, 'jump-start')(0)).toBe(0.25);
+      expect(createStepsCurve(4, 'start')(0.3)).toBe(0.5);
+      expect(createStepsCurve(3, 'jump-none')(0)).toBe(0);
+      expect(createStepsCurve(3, 'jump-none')(0.5)).toBe(0.5);
+      expect(createStepsCurve(3, 'jump-none')(1)).toBe(1);
+      expect(createStepsCurve(3, 'jump-both')(0)).toBe(0.25);
+      expect(createStepsCurve(3, 'jump-both')(1)).toBe(1);
+    });
+
+    it('should reject invalid step counts', () => {
+      expect(() => createStepsCurve(0)).toThrow('at least 1');
+      expect(() => createStepsCurve(2.5)).toThrow('integer');
+      expect(() => createStepsCurve(1, 'jump-none')).toThrow('at least 2');
+    });
+  });
+
+  describe('createLinearEasingCurve', () => {
+    it('should interpolate between points and hold outside them', () => {
+      const curve = createLinearEasingCurve([
+        { input: 0.2, output: 0 },
+        { input: 0.6, output: 1 },
+      ]);
+      expect(curve(0)).toBe(0);
+      expect(curve(0.4)).toBeCloseTo(0.5, 10);
+      expect(curve(1)).toBe(1);
+    });
+
+    it('should take the later output where points share an input', () => {
+      const curve = createLinearEasingCurve([
+        { input: 0, output: 0 },
+        { input: 0.5, output: 0.2 },
+        { input: 0.5, output: 0.8 },
+        { input: 1, output: 1 },
+      ]);
+      expect(curve(0.49)).toBeCloseTo(0.196, 10);
+      expect(curve(0.5)).toBe(0.8);
+    });
+
+    it('should reject fewer than two points', () => {
+      expect(() => createLinearEasingCurve([{ input: 0, output: 0 }])).toThrow(
+        'at least 2 points'
+      );
+    });
+  });
+
+  describe('parseCssEasing', () => {
+    it('should parse the named easings', () => {
+      expect(parseCssEasing('linear')(0.3)).toBe(0.3);
+      expect(parseCssEasing('ease')(0.5)).toBeCloseTo(0.8024, 3);
+      expect(parseCssEasing('ease-in-out')(0.5)).toBeCloseTo(0.5, 5);
+      expect(parseCssEasing('step-start')(0)).toBe(1);
+      expect(parseCssEasing('step-end')(0.99)).toBe(0);
+    });
+
+    it('should ignore case and whitespace', () => {
+      const curve = parseCssEasing('  Cubic-Bezier( 0 , 0 , 1 , 1 ) ');
+      expect(curve(0.25)).toBeCloseTo(0.25, 5);
+    });
+
+    it('should parse steps() with and without a position', () => {
+      expect(parseCssEasing('steps(4)')(0.3)).toBe(0.25);
+      expect(parseCssEasing('steps(4, jump-start)')(0.3)).toBe(0.5);
+    });
+
+    it('should spread linear() stops without inputs evenly', () => {
+      const curve = parseCssEasing('linear(0, 0.25 30%, 0.5, 1)');
+      expect(curve(0.3)).toBeCloseTo(0.25, 10);
+      // 0.5 sits halfway between 30% and 100%
+      expect(curve(0.65)).toBeCloseTo(0.5, 10);
+      expect(curve(1)).toBe(1);
+    });
+
+    it('should expand stops with two inputs into a flat run', () => {
+      const curve = parseCssEasing('linear(0, 0.5 25% 75%, 1)');
+      expect(curve(0.25)).toBe(0.5);
+      expect(curve(0.5)).toBe(0.5);
+      expect(curve(0.875)).toBeCloseTo(0.75, 10);
+    });
+
+    it('should clamp inputs that go backwards', () => {
+      const curve = parseCssEasing('linear(0, 1 60%, 0 40%, 1)');
+      // The 40% input is raised to 60%, making a jump back to 0
+      expect(curve(0.6)).toBe(0);
+      expect(curve(0.8)).toBeCloseTo(0.5, 10);
+    });
+
+    it('should name the easing and the problem when parsing fails', () => {
+      expect(() => parseCssEasing('cubic-bezier(0, 0, 1)')).toThrow(
+        'Invalid CSS easing "cubic-bezier(0, 0, 1)": cubic-bezier() takes 4 numbers, but got 3'
+      );
+      expect(() => parseCssEasing('linear(0, 1 50)')).toThrow(
+        'expected a percentage, but got "50"'
+      );
+      expect(() => parseCssEasing('steps(two)')).toThrow(
+        'expected a number, but got "two"'
+      );
+      expect(() => parseCssEasing('bounce')).toThrow(
+        'expected a keyword, cubic-bezier(), steps() or linear()'
+      );
+    });
+  });
+
+  describe('getCssEasingError', () => {
+    it('should return null for valid easings and the reason otherwise', () => {
+      expect(getCssEasingError('ease-out')).toBeNull();
+      expect(getCssEasingError('steps(0)')).toContain('at least 1');
+    });
+  });
+
+  describe('isCssEasing', () => {
+    it('should recognize keywords and function syntax', () => {
+      expect(isCssEasing('ease-in')).toBe(true);
+      expect(isCssEasing('steps(0)')).toBe(true);
+      expect(isCssEasing('easeInOut')).toBe(false);
+      expect(isCssEasing('constructor')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the typed event emitter
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventEmitter } from '../src/core/events';
+
+interface TestEvents {
+  tick: { n: number };
+  done: void;
+}
+
+describe('EventEmitter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should call listeners in registration order with the payload', () => {
+    const events = new EventEmitter<TestEvents>();
+    const calls: string[] = [];
+    events.on('tick', ({ n }) => calls.push(`a${n}`));
+    events.on('tick', ({ n }) => calls.push(`b${n}`));
+
+    events.emit('tick', { n: 1 });
+
+    expect(calls).toEqual(['a1', 'b1']);
+  });
+
+  it('should remove listeners with off', () => {
+    const events = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    events.on('done', handler);
+    events.off('done', handler);
+
+    events.emit('done', undefined);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should call once listeners a single time, even on re-entrant emits', () => {
+    const events = new EventEmitter<TestEvents>();
+    const handler = vi.fn(() => events.emit('done', undefined));
+    events.once('done', handler);
+
+    events.emit('done', undefined);
+    events.emit('done', undefined);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove once listeners with off before they fire', () => {
+    const events = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    events.once('done', handler);
+    events.off('done', handler);
+
+    events.emit('done', undefined);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should not call listeners added during an emit until the next one', () => {
+    const events = new EventEmitter<TestEvents>();
+    const late = vi.fn();
+    events.on('done', () => events.on('done', late));
+
+    events.emit('done', undefined);
+    expect(late).not.toHaveBeenCalled();
+
+    events.emit('done', undefined);
+    expect(late).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log listener errors and keep calling the rest', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const events = new EventEmitter<TestEvents>();
+    const after = vi.fn();
+    events.on('done', () => {
+      throw new Error('boom');
+    });
+    events.on('done', after);
+
+    events.emit('done', undefined);
+
+    expect(consoleSpy).toHaveBeenCalledWith(
+      'Error in "done" event listener:',
+      expect.any(Error)
+    );
+    expect(after).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove every listener on clear', () => {
+    const events = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    events.on('tick', handler);
+    events.clear();
+
+    events.emit('tick', { n: 1 });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
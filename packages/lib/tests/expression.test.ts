@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileExpression,
+  getExpressionError,
+  resolveCurveSource,
+} from '../src/core/expression';
+
+describe('Curve Expressions', () => {
+  const evaluate = (source: string, t = 0) => compileExpression(source)(t);
+
+  describe('compileExpression', () => {
+    it('should evaluate the variable t', () => {
+      const curve = compileExpression('0.5 + 0.4 * sin(2 * pi * t)');
+      expect(curve(0)).toBeCloseTo(0.5, 12);
+      expect(curve(0.25)).toBeCloseTo(0.9, 12);
+      expect(curve(0.75)).toBeCloseTo(0.1, 12);
+    });
+
+    it('should parse number formats', () => {
+      expect(evaluate('2')).toBe(2);
+      expect(evaluate('0.25')).toBe(0.25);
+      expect(evaluate('.5')).toBe(0.5);
+      expect(evaluate('3.')).toBe(3);
+      expect(evaluate('1e-3')).toBe(0.001);
+      expect(evaluate('2.5E2')).toBe(250);
+    });
+
+    it('should apply the usual operator precedence', () => {
+      expect(evaluate('1 + 2 * 3')).toBe(7);
+      expect(evaluate('(1 + 2) * 3')).toBe(9);
+      expect(evaluate('10 - 4 - 3')).toBe(3);
+      expect(evaluate('12 / 3 / 2')).toBe(2);
+      expect(evaluate('7 % 4')).toBe(3);
+      expect(evaluate('2 * 3 ^ 2')).toBe(18);
+    });
+
+    it('should treat ^ as right-associative power below unary minus', () => {
+      expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+      expect(evaluate('-t ^ 2', 3)).toBe(-9);
+      expect(evaluate('2 ^ -t', 1)).toBe(0.5);
+      expect(evaluate('--t', 2)).toBe(2);
+      expect(evaluate('+t', 2)).toBe(2);
+    });
+
+    it('should provide constants', () => {
+      expect(evaluate('pi')).toBe(Math.PI);
+      expect(evaluate('tau')).toBe(2 * Math.PI);
+      expect(evaluate('e')).toBe(Math.E);
+    });
+
+    it('should provide math functions', () => {
+      expect(evaluate('sqrt(16) + abs(-2)')).toBe(6);
+      expect(evaluate('pow(2, 10)')).toBe(1024);
+      expect(evaluate('atan2(1, 1)')).toBeCloseTo(Math.PI / 4, 12);
+      expect(evaluate('min(3, 1, 2) + max(4, 5)')).toBe(6);
+      expect(evaluate('clamp(t, 0.2, 0.8)', 1)).toBe(0.8);
+      expect(evaluate('mix(2, 4, t)', 0.25)).toBe(2.5);
+      expect(evaluate('step(0.5, t)', 0.4)).toBe(0);
+      expect(evaluate('step(0.5, t)', 0.5)).toBe(1);
+      expect(evaluate('smoothstep(0, 1, t)', 0.5)).toBe(0.5);
+      expect(evaluate('fract(t)', 2.75)).toBe(0.75);
+      expect(evaluate('log(e) + log10(100) + log2(8)')).toBe(6);
+    });
+
+    it('should ignore whitespace', () => {
+      expect(evaluate('  1+\n2\t*t ', 2)).toBe(5);
+    });
+
+    it('should be evaluable many times after compiling once', () => {
+      const curve = compileExpression('t * t');
+      for (let t = 0; t <= 1; t += 0.1) {
+        expect(curve(t)).toBeCloseTo(t * t, 12);
+      }
+    });
+
+    it('should reuse the curve for text it has already compiled', () => {
+      expect(getExpressionError('0.5 * t + 0.25')).toBeNull();
+      const curve = compileExpression('0.5 * t + 0.25');
+      expect(compileExpression('0.5 * t + 0.25')).toBe(curve);
+      expect(() => compileExpression('t +')).toThrow('Invalid expression "t +"');
+      expect(() => compileExpression('t +')).toThrow('Invalid expression "t +"');
+    });
+
+    it('should not clamp results', () => {
+      expect(evaluate('1 / t', 0)).toBe(Infinity);
+      expect(evaluate('sqrt(-1)')).toBeNaN();
+    });
+
+    it('should throw with the expression and the reason', () => {
+      expect(() => compileExpression('sin(')).toThrow(
+        'Invalid expression "sin(": expected a number, name or "(", but got end of expression'
+      );
+    });
+  });
+
+  describe('getExpressionError', () => {
+    it('should return null for valid expressions', () => {
+      expect(getExpressionError('t')).toBeNull();
+      expect(getExpressionError('1 - (t - 1) ^ 2')).toBeNull();
+    });
+
+    it('should name the problem and its position', () => {
+      expect(getExpressionError('')).toBe('expression is empty');
+      expect(getExpressionError('   ')).toBe('expression is empty');
+      expect(getExpressionError('2t')).toBe('unexpected "t" at position 2');
+      expect(getExpressionError('t +')).toBe(
+        'expected a number, name or "(", but got end of expression'
+      );
+      expect(getExpressionError('(t + 1')).toBe(
+        'expected ")", but got end of expression'
+      );
+      expect(getExpressionError('t)')).toBe('unexpected ")" at position 2');
+      expect(getExpressionError('t # 2')).toBe(
+        'unexpected character "#" at position 3'
+      );
+      expect(getExpressionError('x * 2')).toBe(
+        'unknown name "x" at position 1'
+      );
+      expect(getExpressionError('PI')).toBe('unknown name "PI" at position 1');
+      expect(getExpressionError('sine(t)')).toBe(
+        'unknown function "sine" at position 1'
+      );
+      expect(getExpressionError('sin * 2')).toBe(
+        'function "sin" at position 1 must be called with parentheses'
+      );
+    });
+
+    it('should check argument counts', () => {
+      expect(getExpressionError('sin(t, 2)')).toBe(
+        'sin() at position 1 takes 1 argument, but got 2'
+      );
+      expect(getExpressionError('t + pow(t)')).toBe(
+        'pow() at position 5 takes 2 arguments, but got 1'
+      );
+      expect(getExpressionError('max()')).toBe(
+        'max() at position 1 takes at least 1 argument, but got 0'
+      );
+    });
+
+    it('should not reach into JavaScript globals or object properties', () => {
+      expect(getExpressionError('constructor')).toBe(
+        'unknown name "constructor" at position 1'
+      );
+      expect(getExpressionError('toString(t)')).toBe(
+        'unknown function "toString" at position 1'
+      );
+      expect(getExpressionError('Math.sin(t)')).toBe(
+        'unexpected character "." at position 5'
+      );
+      expect(getExpressionError('alert(1)')).toBe(
+        'unknown function "alert" at position 1'
+      );
+    });
+
+    it('should limit length and nesting', () => {
+      expect(getExpressionError('t+'.repeat(600) + 't')).toBe(
+        'expression is longer than 1000 characters'
+      );
+      expect(getExpressionError('('.repeat(40) + 't' + ')'.repeat(40))).toBe(
+        'expression is nested more than 32 levels deep'
+      );
+      expect(getExpressionError('-'.repeat(40) + 't')).toBe(
+        'expression is nested more than 32 levels deep'
+      );
+    });
+  });
+
+  describe('resolveCurveSource', () => {
+    it('should pass functions through and compile strings', () => {
+      const fn = (t: number) => t;
+      expect(resolveCurveSource(fn)).toBe(fn);
+      expect(resolveCurveSource('1 - t')(0.25)).toBe(0.75);
+    });
+  });
+});
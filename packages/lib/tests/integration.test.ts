@@ -6,8 +6,17 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { createBallAnimation } from '../src/index';
-import type { AnimationConfig } from '../src/types';
+import {
+  createBallAnimation,
+  Renderer,
+  TimeDriver,
+  ManualDriver,
+  ManualClock,
+  withNoise,
+  ConfigValidationError,
+} from '../src/index';
+import { InteractionManager } from '../src/core/interactions';
+import type { AnimationConfig, AnimationState } from '../src/types';
 
 describe('createBallAnimation', () => {
   let container: HTMLElement;
@@ -75,6 +84,158 @@ describe('createBallAnimation', () => {
       document.body.removeChild(scrollContainer);
     });
 
+    it('should create an animation instance with view driver', () => {
+      const section = document.createElement('section');
+      document.body.appendChild(section);
+
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'view',
+        viewTarget: section,
+        viewStart: { element: 0, viewport: 0.8 },
+        viewEnd: { element: 1, viewport: 0.2 },
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      };
+
+      const animation = createBallAnimation(config);
+
+      expect(animation).toBeDefined();
+      expect(() => animation.play()).not.toThrow();
+
+      animation.destroy();
+      document.body.removeChild(section);
+    });
+
+    it('should create an animation instance with pointer driver', () => {
+      const removeEventListenerSpy = vi.spyOn(HTMLCanvasElement.prototype, 'removeEventListener');
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'pointer',
+        pointerHeight: 'distance',
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      };
+
+      const animation = createBallAnimation(config);
+      animation.play();
+      animation.destroy();
+
+      expect(removeEventListenerSpy).toHaveBeenCalledWith('pointermove', expect.any(Function));
+    });
+
+    it('should create an animation instance with media driver', () => {
+      const video = document.createElement('video');
+      const removeEventListenerSpy = vi.spyOn(video, 'removeEventListener');
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'media',
+        mediaElement: video,
+        mediaStart: 1,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      };
+
+      const animation = createBallAnimation(config);
+      animation.play();
+      animation.destroy();
+
+      expect(removeEventListenerSpy).toHaveBeenCalledWith('seeked', expect.any(Function));
+    });
+
+    it('should run no frames while the media is paused', () => {
+      const clock = new ManualClock({ frameMs: 100 });
+      const media = { currentTime: 0, paused: true };
+      const video = document.createElement('video');
+      Object.defineProperty(video, 'duration', { get: () => 10 });
+      Object.defineProperty(video, 'currentTime', { get: () => media.currentTime });
+      Object.defineProperty(video, 'paused', { get: () => media.paused });
+      const drawSpy = vi.spyOn(Renderer.prototype as any, 'draw');
+      const startSpy = vi.spyOn(Renderer.prototype, 'start');
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'media',
+        mediaElement: video,
+        clock,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+      animation.play();
+      const renderer = startSpy.mock.instances[0] as Renderer;
+
+      // Paused media: the current position is drawn once, then nothing runs
+      clock.advance(1000);
+      expect(drawSpy).toHaveBeenCalledTimes(1);
+      expect(clock.pendingFrames).toBe(0);
+
+      // A seek while paused draws the new position once
+      media.currentTime = 2;
+      video.dispatchEvent(new Event('seeked'));
+      clock.advance(1000);
+      expect(drawSpy).toHaveBeenCalledTimes(2);
+      expect(renderer.getCurrentState()?.t).toBeCloseTo(0.2, 10);
+
+      // Playing media renders every frame
+      media.paused = false;
+      video.dispatchEvent(new Event('play'));
+      media.currentTime = 3;
+      clock.advance(300);
+      expect(drawSpy).toHaveBeenCalledTimes(5);
+      expect(renderer.getCurrentState()?.t).toBeCloseTo(0.3, 10);
+
+      media.paused = true;
+      video.dispatchEvent(new Event('pause'));
+      clock.advance(1000);
+      expect(drawSpy).toHaveBeenCalledTimes(6);
+      expect(clock.pendingFrames).toBe(0);
+
+      animation.destroy();
+    });
+
+    it('should drive height from an injected audio analyser', () => {
+      const getFloatTimeDomainData = vi.fn((array: Float32Array) => array.fill(0.5));
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        audioAnalyser: {
+          fftSize: 256,
+          frequencyBinCount: 128,
+          context: { sampleRate: 48000 },
+          getFloatTimeDomainData,
+          getByteFrequencyData: vi.fn(),
+        },
+        audioAttackMs: 0,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      };
+
+      const animation = createBallAnimation(config);
+      animation.play();
+      vi.advanceTimersByTime(50);
+
+      expect(getFloatTimeDomainData).toHaveBeenCalled();
+
+      animation.destroy();
+    });
+
+    it('should run the driver and render loop on an injected clock', () => {
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame');
+      const clock = new ManualClock();
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        clock,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      };
+
+      const animation = createBallAnimation(config);
+      animation.play();
+      expect(clock.pendingFrames).toBe(2);
+
+      clock.advance(500);
+      animation.destroy();
+
+      expect(clock.pendingFrames).toBe(0);
+      expect(rafSpy).not.toHaveBeenCalled();
+    });
+
     it('should create canvas element in mount container', () => {
       const config: AnimationConfig = {
         mount: container,
@@ -419,104 +580,533 @@ describe('createBallAnimation', () => {
     });
   });
 
-  describe('setProgress Method', () => {
-    it('should set progress to a specific value', () => {
+  describe('Segments', () => {
+    it('should pass the active segment label to zone callbacks', () => {
+      const clock = new ManualClock();
+      const onEnter = vi.fn();
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'manual',
+        clock,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+        segments: [
+          { label: 'drop', customCurve: (t) => 1 - t, pathX: (t) => t * 0.5, pathY: () => 0.5 },
+          { label: 'roll', customCurve: () => 0, pathX: (t) => 0.5 + t * 0.5, pathY: () => 0.5 },
+        ],
+        zones: [
+          { id: 'finish', shape: 'circle', bounds: { x: 0.875, y: 0.5, radius: 0.05 }, onEnter },
+        ],
+      };
+
+      const animation = createBallAnimation(config);
+      animation.setProgress(0.875);
+      clock.frame();
+
+      expect(onEnter).toHaveBeenCalledWith(config.zones?.[0], 'roll');
+
+      animation.destroy();
+    });
+
+    it('should fall back to the top-level path for segments that omit one', () => {
+      const updateSpy = vi.spyOn(InteractionManager.prototype, 'update');
+      const clock = new ManualClock();
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'manual',
+        clock,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+        pathY: (t) => t,
+        segments: [
+          { label: 'drop', share: 3, customCurve: (t) => 1 - t },
+          { label: 'roll', customCurve: () => 0 },
+        ],
+      };
+
+      const animation = createBallAnimation(config);
+      animation.setProgress(0.5);
+      clock.frame();
+
+      // Overall 0.5 is two thirds of the way through 'drop'
+      const [position, z, segment] = updateSpy.mock.lastCall ?? [];
+      expect(position).toEqual({ x: 0.5, y: 0.5 });
+      expect(z).toBeCloseTo(1 / 3, 6);
+      expect(segment).toBe('drop');
+
+      animation.destroy();
+    });
+  });
+
+  describe('Markers', () => {
+    it('should fire markers in order across loop wraps', () => {
+      const clock = new ManualClock({ frameMs: 400 });
+      const passes: string[] = [];
+      const onPass = (marker: { id: string }, direction: string) => {
+        passes.push(`${marker.id}:${direction}`);
+      };
       const config: AnimationConfig = {
         mount: container,
         driver: 'time',
         durationMs: 1000,
+        loop: true,
+        clock,
         light: { x: 0.5, y: 0.5, z: 2.0 },
+        markers: [
+          { id: 'late', at: 0.9, onPass },
+          { id: 'early', at: 0.1, onPass },
+        ],
       };
 
       const animation = createBallAnimation(config);
+      animation.play();
 
-      expect(() => animation.setProgress(0.5)).not.toThrow();
+      // Frames at 0.4, 0.8, 1.2 (wrap) and 1.6 iterations
+      clock.advance(1600);
+
+      expect(passes).toEqual(['early:forward', 'late:forward', 'early:forward']);
 
       animation.destroy();
     });
 
-    it('should clamp progress values to [0,1]', () => {
+    it('should not fire when a finished animation is replayed', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const onPass = vi.fn();
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        clock,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+        markers: [{ id: 'middle', at: 0.5, onPass }],
+      };
+
+      const animation = createBallAnimation(config);
+      animation.play();
+      clock.advance(1500);
+      expect(onPass).toHaveBeenCalledTimes(1);
+
+      animation.play();
+      clock.advance(250);
+      expect(onPass).toHaveBeenCalledTimes(1);
+
+      clock.advance(500);
+      expect(onPass).toHaveBeenCalledTimes(2);
+      expect(onPass).toHaveBeenLastCalledWith(config.markers?.[0], 'forward');
+
+      animation.destroy();
+    });
+
+    it('should fire markers crossed by setProgress', () => {
+      const clock = new ManualClock();
+      const onPass = vi.fn();
       const config: AnimationConfig = {
         mount: container,
         driver: 'time',
         durationMs: 1000,
+        clock,
         light: { x: 0.5, y: 0.5, z: 2.0 },
+        markers: [{ id: 'middle', at: 0.5, onPass }],
       };
 
       const animation = createBallAnimation(config);
+      animation.setProgress(0.2);
+      clock.frame();
+      animation.setProgress(0.8);
+      clock.frame();
+
+      expect(onPass).toHaveBeenCalledWith(config.markers?.[0], 'forward');
+
+      animation.setProgress(0.1);
+      clock.frame();
+
+      expect(onPass).toHaveBeenLastCalledWith(config.markers?.[0], 'backward');
+      expect(onPass).toHaveBeenCalledTimes(2);
+
+      animation.destroy();
+    });
+  });
+
+  describe('Lifecycle Events', () => {
+    const timeConfig = (clock: InstanceType<typeof ManualClock>): AnimationConfig => ({
+      mount: container,
+      driver: 'time',
+      durationMs: 1000,
+      clock,
+      light: { x: 0.5, y: 0.5, z: 2.0 },
+    });
+
+    it('should emit control events and remove listeners with off', () => {
+      const animation = createBallAnimation(timeConfig(new ManualClock()));
+      const calls: string[] = [];
+      const onPause = () => calls.push('pause');
+      animation.on('play', () => calls.push('play'));
+      animation.on('pause', onPause);
+      animation.on('stop', () => calls.push('stop'));
+      animation.once('destroy', () => calls.push('destroy'));
+
+      animation.play();
+      animation.pause();
+      animation.off('pause', onPause);
+      animation.pause();
+      animation.stop();
+      animation.destroy();
+
+      expect(calls).toEqual(['play', 'pause', 'stop', 'destroy']);
+    });
+
+    it('should emit progress only when the rendered progress changes', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const animation = createBallAnimation(timeConfig(clock));
+      const progress: number[] = [];
+      animation.on('progress', (event) => progress.push(event.progress));
+
+      animation.play();
+      clock.advance(500);
+      animation.pause();
+      clock.advance(500);
+
+      expect(progress).toEqual([0.25, 0.5]);
+
+      animation.destroy();
+    });
+
+    it('should emit loop and complete events and resolve finished', async () => {
+      const clock = new ManualClock({ frameMs: 400 });
+      const animation = createBallAnimation({ ...timeConfig(clock), loop: 2 });
+      const calls: string[] = [];
+      animation.on('loop', ({ iteration }) => calls.push(`loop ${iteration}`));
+      animation.on('complete', () => calls.push('complete'));
+
+      animation.play();
+      const finished = animation.finished;
+      clock.advance(2400);
+
+      expect(calls).toEqual(['loop 1', 'complete']);
+      await expect(finished).resolves.toBe(animation);
+
+      animation.destroy();
+    });
+
+    it('should reject finished when stopped and create a new promise', async () => {
+      const animation = createBallAnimation(timeConfig(new ManualClock()));
+      animation.play();
+      const first = animation.finished;
+
+      animation.stop();
+
+      await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+      expect(animation.finished).not.toBe(first);
+
+      animation.destroy();
+    });
+
+    it('should create a new finished promise when a finished animation is replayed', async () => {
+      const clock = new ManualClock({ frameMs: 500 });
+      const animation = createBallAnimation(timeConfig(clock));
+      animation.play();
+      clock.advance(1500);
+      const first = animation.finished;
+      await expect(first).resolves.toBe(animation);
+
+      animation.play();
+      const second = animation.finished;
+      expect(second).not.toBe(first);
+
+      clock.advance(1500);
+      await expect(second).resolves.toBe(animation);
+
+      animation.destroy();
+    });
+
+    it('should reject finished on destroy and warn when adding listeners afterwards', async () => {
+      const animation = createBallAnimation(timeConfig(new ManualClock()));
+      const finished = animation.finished;
+      animation.destroy();
+
+      await expect(finished).rejects.toMatchObject({ name: 'AbortError' });
+
       const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      animation.on('play', () => {});
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Cannot add listener')
+      );
+    });
+  });
 
-      animation.setProgress(1.5);
+  describe('State Snapshots', () => {
+    const timeConfig = (clock: InstanceType<typeof ManualClock>): AnimationConfig => ({
+      mount: container,
+      driver: 'time',
+      durationMs: 1000,
+      loop: 3,
+      clock,
+      light: { x: 0.5, y: 0.5, z: 2.0 },
+    });
+
+    it('should capture progress, loop count, play state and overrides', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const animation = createBallAnimation(timeConfig(clock));
+      expect(animation.getState().playState).toBe('idle');
+
+      animation.updateConfig({ light: { x: 0.1, y: 0.2, z: 3 }, shadow: { softness: 0.9 } });
+      animation.play();
+      clock.advance(1500);
+      animation.pause();
+
+      const state = animation.getState();
+      expect(state).toEqual({
+        driver: 'time',
+        progress: 0.5,
+        iteration: 1,
+        loopCount: 1,
+        playState: 'paused',
+        manualControl: false,
+        driverState: { timeMs: 1500, playbackRate: 1, wrappedLoops: 0 },
+        overrides: { light: { x: 0.1, y: 0.2, z: 3 }, shadow: { softness: 0.9 } },
+      });
+      expect(JSON.parse(JSON.stringify(state))).toEqual(state);
+
+      animation.destroy();
+    });
+
+    it('should resume a running animation in a new instance exactly there', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const first = createBallAnimation(timeConfig(clock));
+      first.updateConfig({ light: { x: 0.1, y: 0.2, z: 3 } });
+      first.play();
+      clock.advance(1250);
+      const saved = JSON.stringify(first.getState());
+      first.destroy();
+
+      const second = createBallAnimation(timeConfig(clock));
+      second.restoreState(JSON.parse(saved) as AnimationState);
+
+      const restored = second.getState();
+      expect(restored.playState).toBe('running');
+      expect(restored.progress).toBeCloseTo(0.25, 5);
+      expect(restored.loopCount).toBe(1);
+      expect(restored.overrides.light).toEqual({ x: 0.1, y: 0.2, z: 3 });
+
+      clock.advance(500);
+      expect(second.getState().progress).toBeCloseTo(0.75, 5);
+
+      second.destroy();
+    });
+
+    it('should restore a changed duration in a new instance', () => {
+      const clock = new ManualClock({ frameMs: 200 });
+      const onComplete = vi.fn();
+      const config = { ...timeConfig(clock), loop: false };
+      const first = createBallAnimation(config);
+      first.updateConfig({ durationMs: 2000 });
+      first.play();
+      clock.advance(1200);
+      const saved = JSON.stringify(first.getState());
+      first.destroy();
+
+      const second = createBallAnimation(config);
+      second.on('complete', onComplete);
+      second.restoreState(JSON.parse(saved) as AnimationState);
+
+      expect(second.getState()).toMatchObject({
+        playState: 'running',
+        overrides: { durationMs: 2000 },
+      });
+      expect(second.getState().progress).toBeCloseTo(0.6, 5);
+      clock.advance(400);
+      expect(second.getState().progress).toBeCloseTo(0.8, 5);
+      expect(onComplete).not.toHaveBeenCalled();
+
+      second.destroy();
+    });
+
+    it('should restore a swapped driver and curve in a new instance', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const first = createBallAnimation(timeConfig(clock));
+      first.updateConfig({
+        driver: 'manual',
+        curvePreset: 'linear',
+        keypoints: [{ y: 0, zMin: 0, zMax: 1 }, { y: 1, zMin: 0, zMax: 0.5 }],
+      });
+      first.setProgress(0.4);
+      const saved = JSON.stringify(first.getState());
+      first.destroy();
+
+      const second = createBallAnimation(timeConfig(clock));
+      second.restoreState(JSON.parse(saved) as AnimationState);
+
+      expect(second.getState()).toMatchObject({
+        driver: 'manual',
+        progress: 0.4,
+        overrides: {
+          driver: 'manual',
+          curvePreset: 'linear',
+          keypoints: [{ y: 0, zMin: 0, zMax: 1 }, { y: 1, zMin: 0, zMax: 0.5 }],
+        },
+      });
+
+      second.destroy();
+    });
+
+    it('should leave DOM targets and functions out of the overrides', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const video = document.createElement('video');
+      const first = createBallAnimation(timeConfig(new ManualClock()));
+      first.updateConfig({ customCurve: 't * t' });
+      first.updateConfig({ driver: 'media', mediaElement: video, mediaStart: 1, customCurve: (t) => t });
+      const state = first.getState();
+      first.destroy();
+
+      expect(state.overrides).toEqual({ driver: 'media', mediaStart: 1 });
+
+      // The new instance has no media element to follow, so the state is ignored
+      const second = createBallAnimation(timeConfig(new ManualClock()));
+      second.restoreState(state);
       expect(warnSpy).toHaveBeenCalledWith(
-        expect.stringContaining('out of range')
+        expect.stringContaining('Cannot restore state: Missing required field "mediaElement"')
       );
+      expect(second.getState()).toMatchObject({ driver: 'time', overrides: {} });
+
+      second.destroy();
+    });
+
+    it('should not fire markers between the old and the restored position', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const onPass = vi.fn();
+      const animation = createBallAnimation({
+        ...timeConfig(clock),
+        markers: [{ id: 'middle', at: 0.5, onPass }],
+      });
+
+      animation.restoreState({
+        driver: 'time',
+        progress: 0.75,
+        iteration: 0,
+        loopCount: 0,
+        playState: 'paused',
+        manualControl: false,
+        driverState: { timeMs: 750, playbackRate: 1, wrappedLoops: 0 },
+        overrides: {},
+      });
+      clock.advance(500);
+
+      expect(animation.getState().progress).toBeCloseTo(0.75, 5);
+      expect(onPass).not.toHaveBeenCalled();
+
+      animation.destroy();
+    });
+
+    it('should restore manual control and its progress', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const first = createBallAnimation(timeConfig(clock));
+      first.play();
+      clock.advance(500);
+      first.setProgress(0.8);
+      const state = first.getState();
+      first.destroy();
+
+      expect(state.manualControl).toBe(true);
+      expect(state.playState).toBe('paused');
+
+      const second = createBallAnimation(timeConfig(clock));
+      second.restoreState(state);
+      clock.advance(500);
+
+      expect(second.getState().progress).toBe(0.8);
+
+      // Playing hands control back to the timeline where it was paused
+      second.play();
+      expect(second.getState().progress).toBeCloseTo(0.5, 5);
+
+      second.destroy();
+    });
+
+    it('should ignore invalid states and states from another driver', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const animation = createBallAnimation(timeConfig(new ManualClock()));
+      const state = animation.getState();
+
+      animation.restoreState({ ...state, driver: 'scroll', driverState: null });
+      animation.restoreState({ ...state, progress: NaN });
 
-      animation.setProgress(-0.5);
       expect(warnSpy).toHaveBeenCalledWith(
-        expect.stringContaining('out of range')
+        expect.stringContaining('captured from a "scroll" animation')
+      );
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid state field "progress"')
       );
+      expect(animation.getState().playState).toBe('idle');
 
-      warnSpy.mockRestore();
       animation.destroy();
+      warnSpy.mockRestore();
     });
   });
 
-  describe('updateConfig Method', () => {
-    it('should update debug mode', () => {
+  describe('setPlaybackRate Method', () => {
+    it('should forward the rate to the time driver', () => {
+      const setPlaybackRateSpy = vi.spyOn(TimeDriver.prototype, 'setPlaybackRate');
       const config: AnimationConfig = {
         mount: container,
         driver: 'time',
         durationMs: 1000,
+        direction: 'alternate',
         light: { x: 0.5, y: 0.5, z: 2.0 },
-        debug: false,
       };
 
       const animation = createBallAnimation(config);
+      animation.play();
+      animation.setPlaybackRate(-1.5);
 
-      // Update debug mode
-      expect(() => animation.updateConfig({ debug: true })).not.toThrow();
-      
-      // Verify it can be toggled back
-      expect(() => animation.updateConfig({ debug: false })).not.toThrow();
+      expect(setPlaybackRateSpy).toHaveBeenCalledWith(-1.5);
 
       animation.destroy();
     });
 
-    it('should update light position', () => {
+    it('should warn for drivers without a playback rate', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
       const config: AnimationConfig = {
         mount: container,
-        driver: 'time',
-        durationMs: 1000,
+        driver: 'manual',
         light: { x: 0.5, y: 0.5, z: 2.0 },
       };
 
       const animation = createBallAnimation(config);
+      animation.setPlaybackRate(2);
+      animation.setPlaybackRate(NaN);
 
-      expect(() => animation.updateConfig({
-        light: { x: 0.7, y: 0.3, z: 3.0 }
-      })).not.toThrow();
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('has no effect on the "manual" driver'));
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('must be a finite number'));
 
+      warnSpy.mockRestore();
       animation.destroy();
     });
+  });
 
-    it('should update shadow options', () => {
+  describe('seek Methods', () => {
+    it('should forward seeks to the time driver', () => {
+      const seekSpy = vi.spyOn(TimeDriver.prototype, 'seek');
+      const seekProgressSpy = vi.spyOn(TimeDriver.prototype, 'seekProgress');
       const config: AnimationConfig = {
         mount: container,
         driver: 'time',
         durationMs: 1000,
+        delayMs: 200,
+        endDelayMs: 300,
+        loop: 3,
         light: { x: 0.5, y: 0.5, z: 2.0 },
       };
 
       const animation = createBallAnimation(config);
+      animation.seek(1500);
+      animation.seekProgress(0.5);
 
-      expect(() => animation.updateConfig({
-        shadow: { softness: 0.9, opacityAtGround: 0.6 }
-      })).not.toThrow();
+      expect(seekSpy).toHaveBeenCalledWith(1500);
+      expect(seekProgressSpy).toHaveBeenCalledWith(0.5);
 
       animation.destroy();
     });
 
-    it('should update ball style', () => {
+    it('should hand control back from setProgress when seeking', () => {
+      const setDriverSpy = vi.spyOn(Renderer.prototype, 'setDriver');
       const config: AnimationConfig = {
         mount: container,
         driver: 'time',
@@ -525,21 +1115,222 @@ describe('createBallAnimation', () => {
       };
 
       const animation = createBallAnimation(config);
+      animation.setProgress(0.2);
+      animation.seek(500);
 
-      expect(() => animation.updateConfig({
-        ballStyle: { fill: '#00ff00', radiusAtGround: 25 }
-      })).not.toThrow();
+      expect(setDriverSpy.mock.calls[1]![0]).toBeInstanceOf(TimeDriver);
 
       animation.destroy();
     });
 
-    it('should update zones', () => {
+    it('should warn when seeking drivers without a timeline', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
       const config: AnimationConfig = {
         mount: container,
-        driver: 'time',
-        durationMs: 1000,
+        driver: 'manual',
         light: { x: 0.5, y: 0.5, z: 2.0 },
-        zones: [
+      };
+
+      const animation = createBallAnimation(config);
+      animation.seek(100);
+      animation.seekProgress(0.5);
+
+      expect(warnSpy).toHaveBeenCalledTimes(2);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Seeking has no effect'));
+
+      warnSpy.mockRestore();
+      animation.destroy();
+    });
+  });
+
+  describe('setProgress Method', () => {
+    it('should set progress to a specific value', () => {
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      };
+
+      const animation = createBallAnimation(config);
+
+      expect(() => animation.setProgress(0.5)).not.toThrow();
+
+      animation.destroy();
+    });
+
+    it('should clamp progress values to [0,1]', () => {
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      };
+
+      const animation = createBallAnimation(config);
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      animation.setProgress(1.5);
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('out of range')
+      );
+
+      animation.setProgress(-0.5);
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('out of range')
+      );
+
+      warnSpy.mockRestore();
+      animation.destroy();
+    });
+
+    it('should pause the configured driver and resume it on play', () => {
+      const setDriverSpy = vi.spyOn(Renderer.prototype, 'setDriver');
+      const pauseSpy = vi.spyOn(TimeDriver.prototype, 'pause');
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      };
+
+      const animation = createBallAnimation(config);
+      animation.play();
+
+      animation.setProgress(0.25);
+      expect(pauseSpy).toHaveBeenCalledTimes(1);
+      const manualDriver = setDriverSpy.mock.calls[0]![0];
+      expect(manualDriver).toBeInstanceOf(ManualDriver);
+      expect(manualDriver.getProgress()).toBe(0.25);
+
+      animation.play();
+      expect(setDriverSpy.mock.calls[1]![0]).toBeInstanceOf(TimeDriver);
+
+      animation.destroy();
+    });
+
+    it('should switch control explicitly with setManualControl', () => {
+      const setDriverSpy = vi.spyOn(Renderer.prototype, 'setDriver');
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      };
+
+      const animation = createBallAnimation(config);
+      animation.play();
+
+      animation.setManualControl(true);
+      animation.setManualControl(true);
+      expect(setDriverSpy).toHaveBeenCalledTimes(1);
+
+      animation.setManualControl(false);
+      expect(setDriverSpy).toHaveBeenCalledTimes(2);
+      expect(setDriverSpy.mock.calls[1]![0]).toBeInstanceOf(TimeDriver);
+
+      animation.destroy();
+    });
+
+    it('should drive a manual animation only through setProgress', () => {
+      const setDriverSpy = vi.spyOn(Renderer.prototype, 'setDriver');
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'manual',
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      };
+
+      const animation = createBallAnimation(config);
+      animation.setProgress(0.6);
+      animation.play();
+      animation.setManualControl(false);
+
+      // The manual driver is the configured driver, so it is never swapped
+      expect(setDriverSpy).not.toHaveBeenCalled();
+
+      animation.destroy();
+    });
+  });
+
+  describe('updateConfig Method', () => {
+    it('should update debug mode', () => {
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+        debug: false,
+      };
+
+      const animation = createBallAnimation(config);
+
+      // Update debug mode
+      expect(() => animation.updateConfig({ debug: true })).not.toThrow();
+      
+      // Verify it can be toggled back
+      expect(() => animation.updateConfig({ debug: false })).not.toThrow();
+
+      animation.destroy();
+    });
+
+    it('should update light position', () => {
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      };
+
+      const animation = createBallAnimation(config);
+
+      expect(() => animation.updateConfig({
+        light: { x: 0.7, y: 0.3, z: 3.0 }
+      })).not.toThrow();
+
+      animation.destroy();
+    });
+
+    it('should update shadow options', () => {
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      };
+
+      const animation = createBallAnimation(config);
+
+      expect(() => animation.updateConfig({
+        shadow: { softness: 0.9, opacityAtGround: 0.6 }
+      })).not.toThrow();
+
+      animation.destroy();
+    });
+
+    it('should update ball style', () => {
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      };
+
+      const animation = createBallAnimation(config);
+
+      expect(() => animation.updateConfig({
+        ballStyle: { fill: '#00ff00', radiusAtGround: 25 }
+      })).not.toThrow();
+
+      animation.destroy();
+    });
+
+    it('should update zones', () => {
+      const config: AnimationConfig = {
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+        zones: [
           {
             id: 'zone1',
             shape: 'circle',
@@ -563,6 +1354,460 @@ describe('createBallAnimation', () => {
       animation.destroy();
     });
 
+    it('should change the duration while keeping progress and play state', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        clock,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+      animation.play();
+      clock.advance(500);
+
+      animation.updateConfig({ durationMs: 2000 });
+      expect(animation.getState()).toMatchObject({
+        progress: 0.5,
+        playState: 'running',
+        driverState: { timeMs: 1000 },
+      });
+
+      clock.advance(500);
+      expect(animation.getState().progress).toBeCloseTo(0.75, 5);
+
+      animation.destroy();
+    });
+
+    it('should keep the iteration when the loop count changes', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        loop: 2,
+        clock,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+      animation.play();
+      clock.advance(1250);
+      animation.pause();
+
+      animation.updateConfig({ loop: true });
+      expect(animation.getState()).toMatchObject({
+        progress: 0.25,
+        iteration: 1,
+        playState: 'paused',
+      });
+
+      animation.destroy();
+    });
+
+    it('should swap to another driver type and back', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        clock,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+      animation.play();
+      clock.advance(750);
+
+      animation.updateConfig({ driver: 'manual' });
+      expect(animation.getState()).toMatchObject({ driver: 'manual', progress: 0.75 });
+
+      animation.setProgress(0.5);
+      animation.updateConfig({ driver: 'time' });
+      expect(animation.getState()).toMatchObject({
+        driver: 'time',
+        progress: 0.5,
+        playState: 'running',
+      });
+
+      animation.destroy();
+    });
+
+    it('should swap to a media driver along with its element', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const media = { currentTime: 5 };
+      const video = document.createElement('video');
+      Object.defineProperty(video, 'duration', { get: () => 10 });
+      Object.defineProperty(video, 'currentTime', { get: () => media.currentTime });
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+      animation.play();
+
+      animation.updateConfig({ driver: 'media', mediaElement: video });
+      expect(animation.getState()).toMatchObject({ driver: 'media', progress: 0.5 });
+
+      // Changing only the media range rebuilds the driver
+      animation.updateConfig({ mediaStart: 4, mediaEnd: 6 });
+      media.currentTime = 5.5;
+      expect(animation.getState().progress).toBeCloseTo(0.75, 10);
+      expect(warnSpy).not.toHaveBeenCalled();
+
+      animation.destroy();
+    });
+
+    it('should swap to view and scroll drivers along with their targets', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const section = document.createElement('section');
+      const scrollContainer = document.createElement('div');
+      document.body.append(section, scrollContainer);
+      const addEventListenerSpy = vi.spyOn(scrollContainer, 'addEventListener');
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+
+      animation.updateConfig({
+        driver: 'view',
+        viewTarget: section,
+        viewStart: { element: 0, viewport: 1 },
+        viewEnd: { element: 1, viewport: 0 },
+      });
+      expect(animation.getState().driver).toBe('view');
+
+      animation.updateConfig({
+        driver: 'scroll',
+        scrollTarget: scrollContainer,
+        scrollStart: 0,
+        scrollEnd: 500,
+      });
+      animation.play();
+      expect(animation.getState().driver).toBe('scroll');
+      expect(addEventListenerSpy).toHaveBeenCalledWith('scroll', expect.any(Function), expect.anything());
+      expect(warnSpy).not.toHaveBeenCalled();
+
+      animation.destroy();
+      section.remove();
+      scrollContainer.remove();
+    });
+
+    it('should reject a driver swap without the driver\'s required fields', () => {
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+
+      expect(() => animation.updateConfig({ driver: 'media' })).toThrow(ConfigValidationError);
+      expect(animation.getState().driver).toBe('time');
+
+      animation.destroy();
+    });
+
+    it('should render new curves and paths at the current progress', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const setCurvesSpy = vi.spyOn(Renderer.prototype, 'setCurves');
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'manual',
+        clock,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+      animation.setProgress(0.25);
+
+      animation.updateConfig({ customCurve: (t) => 1 - t, pathX: () => 0.1 });
+      clock.advance(250);
+
+      const renderer = setCurvesSpy.mock.instances[0] as Renderer;
+      expect(renderer.getCurrentState()).toMatchObject({ t: 0.25, z: 0.75, x: 0.1 });
+
+      animation.destroy();
+    });
+
+    it('should bake the height curve into a lookup table with curveSampling', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const setCurvesSpy = vi.spyOn(Renderer.prototype, 'setCurves');
+      const customCurve = vi.fn((t: number) => t * t);
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'manual',
+        clock,
+        customCurve,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+      animation.setProgress(0.25);
+
+      animation.updateConfig({ curveSampling: { resolution: 2 } });
+      const calls = customCurve.mock.calls.length;
+      clock.advance(500);
+
+      // Linear lookup between the samples at 0 and 0.5
+      const renderer = setCurvesSpy.mock.instances[0] as Renderer;
+      expect(renderer.getCurrentState()?.z).toBeCloseTo(0.125, 6);
+      expect(customCurve.mock.calls.length).toBe(calls);
+
+      animation.destroy();
+    });
+
+    it('should report the sampling error in debug mode', () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'manual',
+        debug: true,
+        curvePreset: 'bezier',
+        curveSampling: { resolution: 64, interpolation: 'cubic' },
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[Ball Animation\] Height curve sampled at 64 intervals \(cubic\), max error \d\.\d{2}e-\d+$/)
+      );
+
+      animation.destroy();
+    });
+
+    it('should not sample keypoint curves for two-axis drivers', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'pointer',
+        keypoints: [
+          { y: 0.0, zMin: 0.0, zMax: 0.0 },
+          { y: 1.0, zMin: 1.0, zMax: 1.0 },
+        ],
+        curveSampling: { resolution: 64 },
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('curveSampling is ignored for keypoint curves'));
+
+      animation.destroy();
+    });
+
+    it('should layer seeded noise over the height and paths', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const setCurvesSpy = vi.spyOn(Renderer.prototype, 'setCurves');
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'manual',
+        clock,
+        customCurve: () => 0.5,
+        pathX: () => 0.5,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+      animation.setProgress(0.3);
+
+      const noise = { amplitude: 0.2, seed: 3 };
+      animation.updateConfig({ noise: { height: noise, x: noise } });
+      clock.advance(250);
+
+      const expected = withNoise(() => 0.5, noise)(0.3);
+      const renderer = setCurvesSpy.mock.instances[0] as Renderer;
+      expect(expected).not.toBeCloseTo(0.5, 3);
+      expect(renderer.getCurrentState()).toMatchObject({ z: expected, x: expected, y: 0.3 });
+
+      animation.destroy();
+    });
+
+    it('should vary the noise from one loop iteration to the next', () => {
+      const clock = new ManualClock({ frameMs: 100 });
+      const startSpy = vi.spyOn(Renderer.prototype, 'start');
+      const noise = { amplitude: 0.2, seed: 3 };
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        loop: true,
+        clock,
+        customCurve: () => 0.5,
+        curveSampling: { resolution: 8 },
+        noise: { height: noise },
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+      animation.play();
+      const renderer = startSpy.mock.instances[0] as Renderer;
+
+      clock.advance(300);
+      const first = renderer.getCurrentState().z;
+      expect(first).toBeCloseTo(withNoise(() => 0.5, noise, () => 0)(0.3), 6);
+
+      clock.advance(1000);
+      const second = renderer.getCurrentState().z;
+      expect(second).toBeCloseTo(withNoise(() => 0.5, noise, () => 1)(0.3), 6);
+      expect(second).not.toBeCloseTo(first, 3);
+
+      animation.destroy();
+    });
+
+    it('should render expression strings from a JSON config', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const setCurvesSpy = vi.spyOn(Renderer.prototype, 'setCurves');
+      const saved = JSON.stringify({
+        driver: 'manual',
+        customCurve: '1 - (2 * t - 1) ^ 2',
+        pathX: '0.5 + 0.4 * sin(2 * pi * t)',
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+      const animation = createBallAnimation({
+        ...(JSON.parse(saved) as Omit<AnimationConfig, 'mount'>),
+        mount: container,
+        clock,
+      });
+      animation.setProgress(0.25);
+
+      animation.updateConfig({ pathY: '1 - t' });
+      clock.advance(250);
+
+      const renderer = setCurvesSpy.mock.instances[0] as Renderer;
+      const state = renderer.getCurrentState();
+      expect(state?.z).toBeCloseTo(0.75, 10);
+      expect(state?.x).toBeCloseTo(0.9, 10);
+      expect(state?.y).toBeCloseTo(0.75, 10);
+
+      animation.destroy();
+    });
+
+    it('should resize the canvas when width, height or fitMode change', () => {
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'manual',
+        width: 400,
+        height: 300,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+      const onResize = vi.fn();
+      animation.on('resize', onResize);
+
+      animation.updateConfig({ width: 640, height: 480, fitMode: 'stretch' });
+
+      expect(onResize).toHaveBeenCalledWith({ width: 640, height: 480 });
+      expect(container.querySelector('canvas')?.style.width).toBe('640px');
+
+      animation.destroy();
+    });
+
+    it('should reject an invalid reconfiguration without changing anything', () => {
+      const clock = new ManualClock({ frameMs: 250 });
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'time',
+        durationMs: 1000,
+        clock,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+      animation.play();
+      clock.advance(500);
+
+      expect(() => animation.updateConfig({ durationMs: -1 })).toThrow('durationMs');
+      expect(animation.getState()).toMatchObject({ progress: 0.5, playState: 'running' });
+
+      animation.destroy();
+    });
+
+    it('should glide light, ball style and shadow changes with a transition', () => {
+      const clock = new ManualClock({ frameMs: 100 });
+      const setLightSpy = vi.spyOn(Renderer.prototype, 'setLight');
+      const setBallStyleSpy = vi.spyOn(Renderer.prototype, 'setBallStyle');
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'manual',
+        clock,
+        light: { x: 0.2, y: 0.2, z: 2.0 },
+        ballStyle: { fill: '#ffffff' },
+      });
+
+      animation.updateConfig(
+        { light: { x: 0.6, y: 0.2, z: 2.0 }, ballStyle: { fill: '#000000' } },
+        { transitionMs: 400, easing: 'linear', colorSpace: 'srgb' }
+      );
+      expect(setLightSpy).toHaveBeenLastCalledWith({ x: 0.2, y: 0.2, z: 2.0 });
+
+      clock.advance(200);
+      expect(setLightSpy.mock.lastCall?.[0].x).toBeCloseTo(0.4, 10);
+      expect(setBallStyleSpy.mock.lastCall?.[0].fill).toBe('rgb(128, 128, 128)');
+
+      clock.advance(200);
+      expect(setLightSpy).toHaveBeenLastCalledWith({ x: 0.6, y: 0.2, z: 2.0 });
+      expect(setBallStyleSpy.mock.lastCall?.[0].fill).toBe('#000000');
+
+      // The state records the target, not the frame on screen
+      expect(animation.getState().overrides.light).toEqual({ x: 0.6, y: 0.2, z: 2.0 });
+
+      animation.destroy();
+    });
+
+    it('should glide between named colors', () => {
+      const clock = new ManualClock({ frameMs: 100 });
+      const setBallStyleSpy = vi.spyOn(Renderer.prototype, 'setBallStyle');
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'manual',
+        clock,
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+        ballStyle: { fill: 'white' },
+      });
+
+      animation.updateConfig(
+        { ballStyle: { fill: 'black' } },
+        { transitionMs: 400, easing: 'linear', colorSpace: 'srgb' }
+      );
+      clock.advance(100);
+      expect(setBallStyleSpy.mock.lastCall?.[0].fill).toBe('rgb(191, 191, 191)');
+      clock.advance(100);
+      expect(setBallStyleSpy.mock.lastCall?.[0].fill).toBe('rgb(128, 128, 128)');
+      clock.advance(200);
+      expect(setBallStyleSpy.mock.lastCall?.[0].fill).toBe('black');
+
+      animation.destroy();
+    });
+
+    it('should retarget from the light on screen when interrupted', () => {
+      const clock = new ManualClock({ frameMs: 100 });
+      const setLightSpy = vi.spyOn(Renderer.prototype, 'setLight');
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'manual',
+        clock,
+        light: { x: 0, y: 0.5, z: 2.0 },
+      });
+
+      animation.updateConfig({ light: { x: 1, y: 0.5, z: 2.0 } }, { transitionMs: 400, easing: 'linear' });
+      clock.advance(200);
+      animation.updateConfig({ light: { x: 0, y: 0.5, z: 2.0 } }, { transitionMs: 400, easing: 'linear' });
+      expect(setLightSpy.mock.lastCall?.[0].x).toBeCloseTo(0.5, 10);
+
+      clock.advance(200);
+      expect(setLightSpy.mock.lastCall?.[0].x).toBeCloseTo(0.25, 10);
+
+      // An immediate change ends the transition at the new target
+      animation.updateConfig({ light: { x: 0.9, y: 0.5, z: 2.0 } });
+      clock.advance(400);
+      expect(setLightSpy).toHaveBeenLastCalledWith({ x: 0.9, y: 0.5, z: 2.0 });
+
+      animation.destroy();
+    });
+
+    it('should apply immediately and warn for an invalid transition', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const setLightSpy = vi.spyOn(Renderer.prototype, 'setLight');
+      const animation = createBallAnimation({
+        mount: container,
+        driver: 'manual',
+        clock: new ManualClock(),
+        light: { x: 0.5, y: 0.5, z: 2.0 },
+      });
+
+      animation.updateConfig({ light: { x: 0.1, y: 0.1, z: 1 } }, { transitionMs: -5 });
+
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('transitionMs must be'));
+      expect(setLightSpy).toHaveBeenLastCalledWith({ x: 0.1, y: 0.1, z: 1 });
+
+      animation.destroy();
+    });
+
     it('should warn when trying to update non-updatable properties', () => {
       const config: AnimationConfig = {
         mount: container,
@@ -574,7 +1819,7 @@ describe('createBallAnimation', () => {
       const animation = createBallAnimation(config);
       const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
 
-      animation.updateConfig({ durationMs: 2000 } as any);
+      animation.updateConfig({ delayMs: 500 });
 
       expect(warnSpy).toHaveBeenCalledWith(
         expect.stringContaining('cannot be updated at runtime')
@@ -24,6 +24,7 @@ function createMockCanvasManager(): CanvasManager {
     height: 600,
     dpr: 1,
     resize: vi.fn(),
+    setLayout: vi.fn(),
     toWorldCoords: (cssX: number, cssY: number): Vec2 => ({
       x: cssX / 800,
       y: cssY / 600,
@@ -68,6 +69,25 @@ describe('InteractionManager', () => {
       expect(onEnter).toHaveBeenCalledWith(zone);
     });
 
+    it('should pass the active segment label to zone callbacks', () => {
+      const onEnter = vi.fn();
+      const onExit = vi.fn();
+      const zone: InteractiveZone = {
+        id: 'segment-zone',
+        shape: 'circle',
+        bounds: { x: 0.5, y: 0.5, radius: 0.2 },
+        onEnter,
+        onExit,
+      };
+
+      manager.addZone(zone);
+      manager.update({ x: 0.5, y: 0.5 }, 0.5, 'bounce');
+      manager.update({ x: 0.9, y: 0.9 }, 0.5, 'roll');
+
+      expect(onEnter).toHaveBeenCalledWith(zone, 'bounce');
+      expect(onExit).toHaveBeenCalledWith(zone, 'roll');
+    });
+
     it('should detect ball outside circular zone', () => {
       const onEnter = vi.fn();
       const zone: InteractiveZone = {
@@ -0,0 +1,192 @@
+/**
+ * Unit tests for progress markers
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MarkerTracker } from '../src/core/markers';
+import type { MarkerDirection, ProgressMarker } from '../src/types';
+
+describe('MarkerTracker', () => {
+  let passes: string[];
+
+  const createMarkers = (...positions: number[]): ProgressMarker[] => {
+    passes = [];
+    return positions.map((at) => ({
+      id: `m${at}`,
+      at,
+      onPass: (marker: ProgressMarker, direction: MarkerDirection) => {
+        passes.push(`${marker.id}:${direction}`);
+      },
+    }));
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Crossing', () => {
+    it('should not fire on the first update', () => {
+      const tracker = new MarkerTracker(createMarkers(0, 0.5));
+      tracker.update(0.5);
+
+      expect(passes).toEqual([]);
+    });
+
+    it('should fire markers passed while moving forward', () => {
+      const tracker = new MarkerTracker(createMarkers(0.25, 0.5, 0.75));
+      tracker.update(0);
+      tracker.update(0.3);
+      tracker.update(0.6);
+
+      expect(passes).toEqual(['m0.25:forward', 'm0.5:forward']);
+    });
+
+    it('should fire every marker in order on a large jump', () => {
+      const tracker = new MarkerTracker(createMarkers(0.75, 0.25, 0.5));
+      tracker.update(0.1);
+      tracker.update(0.9);
+      tracker.update(0.1);
+
+      expect(passes).toEqual([
+        'm0.25:forward',
+        'm0.5:forward',
+        'm0.75:forward',
+        'm0.75:backward',
+        'm0.5:backward',
+        'm0.25:backward',
+      ]);
+    });
+
+    it('should fire once when progress lands exactly on a marker', () => {
+      const tracker = new MarkerTracker(createMarkers(0.5));
+      tracker.update(0.4);
+      tracker.update(0.5);
+      tracker.update(0.5);
+      tracker.update(0.6);
+
+      expect(passes).toEqual(['m0.5:forward']);
+    });
+
+    it('should fire markers at the ends of the range', () => {
+      const tracker = new MarkerTracker(createMarkers(0, 1));
+      tracker.update(0.5);
+      tracker.update(1);
+      tracker.update(0);
+
+      expect(passes).toEqual(['m1:forward', 'm0:backward']);
+    });
+  });
+
+  describe('Loop wraps', () => {
+    it('should follow a forward loop through the end and the start', () => {
+      const tracker = new MarkerTracker(createMarkers(0, 0.2, 0.9, 1));
+      tracker.update(0.8, 0);
+      tracker.update(0.1, 1);
+
+      expect(passes).toEqual(['m0.9:forward', 'm1:forward', 'm0:forward']);
+    });
+
+    it('should fire markers once per skipped iteration', () => {
+      const tracker = new MarkerTracker(createMarkers(0.5));
+      tracker.update(0.6, 0);
+      tracker.update(0.4, 3);
+
+      // Iterations 1 and 2 are skipped entirely; iteration 3 has not reached 0.5 yet
+      expect(passes).toEqual(['m0.5:forward', 'm0.5:forward']);
+    });
+
+    it('should follow reversed iterations from 1 to 0', () => {
+      const tracker = new MarkerTracker(createMarkers(0.1, 0.9));
+      tracker.update(0.2, 0);
+      tracker.update(0.8, 1, () => true);
+
+      expect(passes).toEqual(['m0.1:backward', 'm0.9:backward']);
+    });
+
+    it('should not fire twice at the turning point of an alternating loop', () => {
+      const tracker = new MarkerTracker(createMarkers(0.95, 1));
+      const alternate = (iteration: number) => Math.abs(iteration % 2) === 1;
+      tracker.update(0.9, 0, alternate);
+      tracker.update(0.9, 1, alternate);
+
+      expect(passes).toEqual(['m0.95:forward', 'm1:forward', 'm0.95:backward']);
+    });
+
+    it('should walk iterations backwards when playing in reverse', () => {
+      const tracker = new MarkerTracker(createMarkers(0.1, 0.9));
+      tracker.update(0.2, 1);
+      tracker.update(0.8, 0);
+
+      expect(passes).toEqual(['m0.1:backward', 'm0.9:backward']);
+    });
+  });
+
+  describe('Baseline control', () => {
+    it('should set a new baseline without firing after reset', () => {
+      const tracker = new MarkerTracker(createMarkers(0.5));
+      tracker.update(1);
+      tracker.reset();
+      tracker.update(0);
+      tracker.update(0.4);
+
+      expect(passes).toEqual([]);
+    });
+
+    it('should track from an explicit position after reset', () => {
+      const tracker = new MarkerTracker(createMarkers(0.1, 0.5));
+      expect(tracker.isTracking()).toBe(false);
+
+      tracker.reset(0);
+      expect(tracker.isTracking()).toBe(true);
+      tracker.update(0.2);
+
+      expect(passes).toEqual(['m0.1:forward']);
+    });
+
+    it('should treat an iteration change after rebase as a plain move', () => {
+      const tracker = new MarkerTracker(createMarkers(0.5));
+      tracker.update(0.4, 3);
+      tracker.rebase();
+      tracker.update(0.6, 0);
+
+      expect(passes).toEqual(['m0.5:forward']);
+    });
+
+    it('should keep the tracked position when markers are replaced', () => {
+      const tracker = new MarkerTracker(createMarkers(0.5));
+      tracker.update(0.4);
+      tracker.setMarkers(createMarkers(0.2, 0.7));
+      tracker.update(0.8);
+
+      expect(passes).toEqual(['m0.7:forward']);
+    });
+  });
+
+  describe('Error handling', () => {
+    it('should log callback errors and keep firing later markers', () => {
+      const consoleSpy = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+      const later = vi.fn();
+      const tracker = new MarkerTracker([
+        {
+          id: 'broken',
+          at: 0.25,
+          onPass: () => {
+            throw new Error('boom');
+          },
+        },
+        { id: 'later', at: 0.5, onPass: later },
+      ]);
+
+      tracker.update(0);
+      tracker.update(1);
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Error in onPass callback for marker broken:',
+        expect.any(Error)
+      );
+      expect(later).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MediaDriver } from '../src/core/timeline';
+
+describe('MediaDriver', () => {
+  let video: HTMLVideoElement;
+  let state: { currentTime: number; duration: number; paused: boolean };
+
+  // jsdom does not implement playback, so drive the media state by hand
+  const emit = (type: string) => video.dispatchEvent(new Event(type));
+
+  beforeEach(() => {
+    state = { currentTime: 0, duration: 10, paused: true };
+    video = document.createElement('video');
+    Object.defineProperty(video, 'currentTime', {
+      get: () => state.currentTime,
+      configurable: true,
+    });
+    Object.defineProperty(video, 'duration', {
+      get: () => state.duration,
+      configurable: true,
+    });
+    Object.defineProperty(video, 'paused', {
+      get: () => state.paused,
+      configurable: true,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Basic functionality', () => {
+    it('should return 0 when not started', () => {
+      state.currentTime = 5;
+      const driver = new MediaDriver({ media: video });
+      expect(driver.getProgress()).toBe(0);
+    });
+
+    it('should initialize progress from the current media position', () => {
+      state.currentTime = 2.5;
+      const driver = new MediaDriver({ media: video });
+      driver.start();
+      expect(driver.getProgress()).toBeCloseTo(0.25, 5);
+      driver.destroy();
+    });
+
+    it('should return 0 until the duration is known', () => {
+      state.duration = NaN;
+      state.currentTime = 3;
+      const driver = new MediaDriver({ media: video });
+      driver.start();
+      expect(driver.getProgress()).toBe(0);
+
+      state.duration = 6;
+      emit('loadedmetadata');
+      expect(driver.getProgress()).toBeCloseTo(0.5, 5);
+
+      driver.destroy();
+    });
+  });
+
+  describe('Segments', () => {
+    it('should map a configured segment to [0,1]', () => {
+      const driver = new MediaDriver({
+        media: video,
+        startTime: 2,
+        endTime: 6,
+      });
+      driver.start();
+
+      state.currentTime = 4;
+      emit('seeked');
+      expect(driver.getProgress()).toBeCloseTo(0.5, 5);
+
+      driver.destroy();
+    });
+
+    it('should clamp outside the segment', () => {
+      const driver = new MediaDriver({
+        media: video,
+        startTime: 2,
+        endTime: 6,
+      });
+      driver.start();
+
+      state.currentTime = 1;
+      emit('seeked');
+      expect(driver.getProgress()).toBe(0);
+
+      state.currentTime = 9;
+      emit('seeked');
+      expect(driver.getProgress()).toBe(1);
+
+      driver.destroy();
+    });
+
+    it('should run to the media duration when no end is given', () => {
+      const driver = new MediaDriver({ media: video, startTime: 5 });
+      driver.start();
+
+      state.currentTime = 7.5;
+      emit('seeked');
+      expect(driver.getProgress()).toBeCloseTo(0.5, 5);
+
+      driver.destroy();
+    });
+  });
+
+  describe('Playback sync', () => {
+    it('should read currentTime on every call while the media plays', () => {
+      const driver = new MediaDriver({ media: video });
+      driver.start();
+
+      state.paused = false;
+      emit('play');
+
+      state.currentTime = 1;
+      expect(driver.getProgress()).toBeCloseTo(0.1, 5);
+
+      state.currentTime = 2;
+      expect(driver.getProgress()).toBeCloseTo(0.2, 5);
+
+      driver.destroy();
+    });
+
+    it('should not schedule frames of its own', () => {
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame');
+      const driver = new MediaDriver({ media: video });
+      driver.start();
+
+      state.paused = false;
+      emit('play');
+      state.paused = true;
+      emit('pause');
+
+      expect(rafSpy).not.toHaveBeenCalled();
+      driver.destroy();
+    });
+
+    it('should report whether the media is playing', () => {
+      const driver = new MediaDriver({ media: video });
+      state.paused = false;
+      expect(driver.isPlaying()).toBe(false); // Not following yet
+
+      driver.start();
+      expect(driver.isPlaying()).toBe(true);
+
+      state.paused = true;
+      expect(driver.isPlaying()).toBe(false);
+
+      state.paused = false;
+      driver.pause();
+      expect(driver.isPlaying()).toBe(false);
+
+      driver.destroy();
+    });
+
+    it('should report play, pause and seeks through onChange', () => {
+      const onChange = vi.fn();
+      const driver = new MediaDriver({ media: video, onChange });
+      driver.start();
+      expect(onChange).not.toHaveBeenCalled();
+
+      state.paused = false;
+      emit('play');
+      state.paused = true;
+      emit('pause');
+      expect(onChange).toHaveBeenCalledTimes(2);
+
+      // The new position is already readable when onChange runs
+      onChange.mockImplementation(() => {
+        expect(driver.getProgress()).toBeCloseTo(0.8, 5);
+      });
+      state.currentTime = 8;
+      emit('seeked');
+      expect(onChange).toHaveBeenCalledTimes(3);
+
+      driver.pause();
+      emit('seeked');
+      expect(onChange).toHaveBeenCalledTimes(3);
+
+      driver.destroy();
+    });
+
+    it('should jump to the new position on seek while paused', () => {
+      const driver = new MediaDriver({ media: video });
+      driver.start();
+
+      state.currentTime = 8;
+      emit('seeked');
+      expect(driver.getProgress()).toBeCloseTo(0.8, 5);
+
+      driver.destroy();
+    });
+  });
+
+  describe('Playback controls', () => {
+    it('should ignore the media while paused and catch up on resume', () => {
+      const driver = new MediaDriver({ media: video });
+      driver.start();
+      driver.pause();
+
+      state.currentTime = 5;
+      emit('seeked');
+      expect(driver.getProgress()).toBe(0);
+
+      driver.resume();
+      expect(driver.getProgress()).toBeCloseTo(0.5, 5);
+
+      driver.destroy();
+    });
+
+    it('should stop and reset progress to 0', () => {
+      state.currentTime = 5;
+      const driver = new MediaDriver({ media: video });
+      driver.start();
+      expect(driver.getProgress()).toBeGreaterThan(0);
+
+      driver.stop();
+      expect(driver.getProgress()).toBe(0);
+    });
+  });
+
+  describe('Resource cleanup', () => {
+    it('should remove media listeners on destroy', () => {
+      const removeEventListenerSpy = vi.spyOn(video, 'removeEventListener');
+      const driver = new MediaDriver({ media: video });
+      driver.start();
+
+      driver.destroy();
+
+      for (const type of ['play', 'pause', 'seeked', 'ratechange']) {
+        expect(removeEventListenerSpy).toHaveBeenCalledWith(
+          type,
+          expect.any(Function)
+        );
+      }
+    });
+
+    it('should stop reporting changes on destroy', () => {
+      const onChange = vi.fn();
+      const driver = new MediaDriver({ media: video, onChange });
+      driver.start();
+
+      driver.destroy();
+      emit('play');
+
+      expect(onChange).not.toHaveBeenCalled();
+    });
+  });
+});
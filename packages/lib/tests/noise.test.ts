@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createGradientNoise,
+  createFractalNoise,
+  withNoise,
+} from '../src/core/noise';
+import { createKeypointCurve, sine } from '../src/core/curves';
+
+describe('Procedural Noise', () => {
+  const range = (noise: (x: number) => number, to: number) => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i <= 2000; i++) {
+      const value = noise((i / 2000) * to);
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+    return { min, max };
+  };
+
+  describe('createGradientNoise', () => {
+    it('should be deterministic for a seed', () => {
+      const a = createGradientNoise(42);
+      const b = createGradientNoise(42);
+      for (const x of [0.1, 1.7, 3.25, -2.5]) {
+        expect(a(x)).toBe(b(x));
+      }
+    });
+
+    it('should differ between seeds', () => {
+      const a = createGradientNoise(1);
+      const b = createGradientNoise(2);
+      expect(a(0.5)).not.toBe(b(0.5));
+    });
+
+    it('should be 0 at integer inputs', () => {
+      const noise = createGradientNoise(7);
+      for (const x of [-3, 0, 1, 2, 10]) {
+        expect(noise(x)).toBeCloseTo(0, 12);
+      }
+    });
+
+    it('should stay in [-1,1] and use most of the range', () => {
+      const { min, max } = range(createGradientNoise(3), 50);
+      expect(min).toBeGreaterThanOrEqual(-1);
+      expect(max).toBeLessThanOrEqual(1);
+      expect(max - min).toBeGreaterThan(1);
+    });
+
+    it('should be continuous', () => {
+      const noise = createGradientNoise(5);
+      for (const x of [0.999999, 1.5, 2.000001]) {
+        expect(Math.abs(noise(x + 1e-6) - noise(x))).toBeLessThan(1e-4);
+      }
+    });
+  });
+
+  describe('createFractalNoise', () => {
+    it('should equal gradient noise with one octave', () => {
+      const fractal = createFractalNoise(9, 1);
+      const noise = createGradientNoise(9);
+      expect(fractal(0.37)).toBe(noise(0.37));
+    });
+
+    it('should stay in [-1,1] with several octaves', () => {
+      const { min, max } = range(createFractalNoise(4, 5), 20);
+      expect(min).toBeGreaterThanOrEqual(-1);
+      expect(max).toBeLessThanOrEqual(1);
+    });
+
+    it('should add finer detail with more octaves', () => {
+      const roughness = (noise: (x: number) => number) => {
+        let total = 0;
+        for (let i = 0; i < 1000; i++) {
+          total += Math.abs(noise((i + 1) / 100) - noise(i / 100));
+        }
+        return total;
+      };
+      expect(roughness(createFractalNoise(4, 4))).toBeGreaterThan(
+        roughness(createFractalNoise(4, 1))
+      );
+    });
+
+    it('should not share octaves between nearby seeds', () => {
+      // Recover the second octave of seed 1 and compare it with seed 2's first
+      const x = 0.37;
+      const secondOctave =
+        (createFractalNoise(1, 2)(x) * 1.5 - createGradientNoise(1)(x)) / 0.5;
+      expect(secondOctave).not.toBeCloseTo(createGradientNoise(2)(x * 2), 6);
+    });
+
+    it('should reject octave counts that are not positive integers', () => {
+      expect(() => createFractalNoise(0, 0)).toThrow(
+        'Noise octaves must be a positive integer, but got 0'
+      );
+    });
+  });
+
+  describe('withNoise', () => {
+    it('should offset the curve by up to the amplitude', () => {
+      const curve = withNoise(() => 0.5, {
+        amplitude: 0.1,
+        octaves: 3,
+        seed: 11,
+      });
+      const { min, max } = range(curve, 1);
+      expect(min).toBeGreaterThanOrEqual(0.4);
+      expect(max).toBeLessThanOrEqual(0.6);
+      expect(max - min).toBeGreaterThan(0.02);
+    });
+
+    it('should be deterministic for a seed', () => {
+      const a = withNoise(sine, { amplitude: 0.2, seed: 3 });
+      const b = withNoise(sine, { amplitude: 0.2, seed: 3 });
+      const c = withNoise(sine, { amplitude: 0.2, seed: 4 });
+      expect(a(0.3)).toBe(b(0.3));
+      expect(a(0.3)).not.toBe(c(0.3));
+    });
+
+    it('should leave the ends untouched with an integer frequency', () => {
+      const curve = withNoise(() => 0.5, {
+        amplitude: 0.3,
+        frequency: 5,
+        octaves: 4,
+      });
+      expect(curve(0)).toBeCloseTo(0.5, 12);
+      expect(curve(1)).toBeCloseTo(0.5, 12);
+    });
+
+    it('should scale the noise with the frequency', () => {
+      const slow = withNoise(() => 0.5, {
+        amplitude: 0.2,
+        frequency: 2,
+        seed: 1,
+      });
+      const fast = withNoise(() => 0.5, {
+        amplitude: 0.2,
+        frequency: 4,
+        seed: 1,
+      });
+      expect(fast(0.1)).toBeCloseTo(slow(0.2), 12);
+    });
+
+    it('should continue the noise into each new iteration', () => {
+      let iteration = 0;
+      const curve = withNoise(
+        () => 0.5,
+        { amplitude: 0.2, frequency: 2.5, seed: 5 },
+        () => iteration
+      );
+      const first = curve(0.3);
+      const end = curve(1);
+
+      iteration = 1;
+      expect(curve(0.3)).not.toBeCloseTo(first, 3);
+      expect(curve(0)).toBeCloseTo(end, 12);
+
+      iteration = 0;
+      expect(curve(0.3)).toBe(first);
+    });
+
+    it('should clamp results to [0,1]', () => {
+      const high = withNoise(() => 1, { amplitude: 1, seed: 2 });
+      const low = withNoise(() => 0, { amplitude: 1, seed: 2 });
+      for (let t = 0; t <= 1; t += 0.01) {
+        expect(high(t)).toBeLessThanOrEqual(1);
+        expect(low(t)).toBeGreaterThanOrEqual(0);
+      }
+    });
+
+    it('should forward the position to keypoint curves', () => {
+      const keypoints = [
+        { y: 0, zMin: 0.2, zMax: 0.2 },
+        { y: 1, zMin: 0.8, zMax: 0.8 },
+      ];
+      const curve = withNoise(createKeypointCurve(keypoints), { amplitude: 0 });
+      expect(curve(0.1, { x: 0.5, y: 1 })).toBeCloseTo(0.8, 12);
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => withNoise(sine, { amplitude: -1 })).toThrow(
+        'Noise amplitude must be a non-negative number, but got -1'
+      );
+      expect(() => withNoise(sine, { amplitude: 0.1, frequency: 0 })).toThrow(
+        'Noise frequency must be a positive number, but got 0'
+      );
+      expect(() => withNoise(sine, { amplitude: 0.1, seed: 1.5 })).toThrow(
+        'Noise seed must be an integer, but got 1.5'
+      );
+      expect(() => withNoise(sine, { amplitude: 0.1, octaves: 2.5 })).toThrow(
+        'Noise octaves must be a positive integer, but got 2.5'
+      );
+    });
+  });
+});
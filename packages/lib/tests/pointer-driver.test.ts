@@ -0,0 +1,269 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PointerDriver } from '../src/core/timeline';
+import { ManualClock } from '../src/core/clock';
+
+describe('PointerDriver', () => {
+  let surface: HTMLElement;
+  let clock: ManualClock;
+
+  // jsdom has no PointerEvent constructor; a MouseEvent carries the same coordinates
+  const pointerMove = (
+    target: EventTarget,
+    clientX: number,
+    clientY: number,
+    type = 'pointermove'
+  ) => {
+    target.dispatchEvent(new MouseEvent(type, { clientX, clientY }));
+  };
+
+  const frames = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      clock.frame();
+    }
+  };
+
+  beforeEach(() => {
+    clock = new ManualClock();
+    surface = document.createElement('div');
+    vi.spyOn(surface, 'getBoundingClientRect').mockReturnValue({
+      top: 100,
+      left: 50,
+      bottom: 500,
+      right: 850,
+      width: 800,
+      height: 400,
+      x: 50,
+      y: 100,
+      toJSON: () => ({}),
+    } as DOMRect);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Basic functionality', () => {
+    it('should rest at the anchor before the pointer moves', () => {
+      const driver = new PointerDriver({
+        clock,
+        element: surface,
+        anchor: { x: 0.25, y: 0.75 },
+      });
+      driver.start();
+
+      expect(driver.getProgressVector()).toEqual({ x: 0.25, y: 0.75 });
+      expect(driver.getProgress()).toBe(0);
+      driver.destroy();
+    });
+
+    it('should follow the pointer over the element with spring lag', () => {
+      const driver = new PointerDriver({
+        clock,
+        element: surface,
+        stiffness: 400,
+      });
+      driver.start();
+
+      // (650 - 50) / 800 = 0.75, (400 - 100) / 400 = 0.75
+      pointerMove(surface, 650, 400);
+      frames(1);
+
+      const lagging = driver.getProgressVector();
+      expect(lagging.x).toBeGreaterThan(0.5);
+      expect(lagging.x).toBeLessThan(0.75);
+
+      frames(60);
+      const settled = driver.getProgressVector();
+      expect(settled.x).toBeCloseTo(0.75, 2);
+      expect(settled.y).toBeCloseTo(0.75, 2);
+
+      driver.destroy();
+    });
+
+    it('should clamp pointer positions outside the element', () => {
+      const driver = new PointerDriver({
+        clock,
+        element: surface,
+        stiffness: 2000,
+      });
+      driver.start();
+
+      pointerMove(surface, -500, 2000);
+      frames(30);
+
+      const position = driver.getProgressVector();
+      expect(position.x).toBeCloseTo(0, 2);
+      expect(position.y).toBeCloseTo(1, 2);
+
+      driver.destroy();
+    });
+
+    it('should track the whole window when no element is given', () => {
+      Object.defineProperty(window, 'innerWidth', {
+        value: 1000,
+        writable: true,
+        configurable: true,
+      });
+      Object.defineProperty(window, 'innerHeight', {
+        value: 500,
+        writable: true,
+        configurable: true,
+      });
+      const driver = new PointerDriver({
+        clock,
+        element: null,
+        stiffness: 2000,
+      });
+      driver.start();
+
+      pointerMove(window, 200, 400, 'pointerdown');
+      frames(30);
+
+      const position = driver.getProgressVector();
+      expect(position.x).toBeCloseTo(0.2, 2);
+      expect(position.y).toBeCloseTo(0.8, 2);
+
+      driver.destroy();
+    });
+  });
+
+  describe('Height input', () => {
+    it('should lift with speed while moving and settle back to 0', () => {
+      const driver = new PointerDriver({
+        clock,
+        element: surface,
+        maxSpeed: 0.5,
+      });
+      driver.start();
+
+      pointerMove(surface, 850, 100);
+      frames(3);
+      expect(driver.getProgress()).toBeGreaterThan(0);
+
+      frames(90);
+      expect(driver.getProgress()).toBe(0);
+
+      driver.destroy();
+    });
+
+    it('should use distance from the anchor when configured', () => {
+      const driver = new PointerDriver({
+        clock,
+        element: surface,
+        height: 'distance',
+        anchor: { x: 0.5, y: 0.5 },
+        stiffness: 2000,
+      });
+      driver.start();
+
+      // Move to the corner, the farthest point from the centre
+      pointerMove(surface, 850, 500);
+      frames(30);
+
+      expect(driver.getProgress()).toBeCloseTo(1, 2);
+      driver.destroy();
+    });
+  });
+
+  describe('Playback controls', () => {
+    it('should ignore the pointer while paused', () => {
+      const driver = new PointerDriver({
+        clock,
+        element: surface,
+        stiffness: 2000,
+      });
+      driver.start();
+      driver.pause();
+
+      pointerMove(surface, 850, 500);
+      frames(5);
+      expect(driver.getProgressVector()).toEqual({ x: 0.5, y: 0.5 });
+
+      driver.resume();
+      pointerMove(surface, 850, 500);
+      frames(30);
+      expect(driver.getProgressVector().x).toBeCloseTo(1, 2);
+
+      driver.destroy();
+    });
+
+    it('should return to the anchor on stop', () => {
+      const driver = new PointerDriver({
+        clock,
+        element: surface,
+        stiffness: 2000,
+      });
+      driver.start();
+
+      pointerMove(surface, 850, 500);
+      frames(10);
+      driver.stop();
+
+      expect(driver.getProgressVector()).toEqual({ x: 0.5, y: 0.5 });
+      expect(driver.getProgress()).toBe(0);
+    });
+  });
+
+  describe('Touch input', () => {
+    it('should turn off touch panning on the element while tracking', () => {
+      surface.style.touchAction = 'pan-y';
+      const driver = new PointerDriver({ clock, element: surface });
+
+      driver.start();
+      expect(surface.style.touchAction).toBe('none');
+
+      driver.pause();
+      expect(surface.style.touchAction).toBe('pan-y');
+
+      driver.resume();
+      expect(surface.style.touchAction).toBe('none');
+
+      driver.stop();
+      expect(surface.style.touchAction).toBe('pan-y');
+
+      driver.start();
+      driver.destroy();
+      expect(surface.style.touchAction).toBe('pan-y');
+    });
+
+    it('should leave touch panning alone when tracking the window', () => {
+      const driver = new PointerDriver({ clock, element: null });
+      driver.start();
+
+      expect(document.documentElement.style.touchAction).not.toBe('none');
+      expect(document.body.style.touchAction).not.toBe('none');
+
+      driver.destroy();
+    });
+  });
+
+  describe('Resource cleanup', () => {
+    it('should remove pointer listeners on destroy', () => {
+      const removeEventListenerSpy = vi.spyOn(surface, 'removeEventListener');
+      const driver = new PointerDriver({ clock, element: surface });
+      driver.start();
+
+      driver.destroy();
+
+      expect(removeEventListenerSpy).toHaveBeenCalledWith(
+        'pointermove',
+        expect.any(Function)
+      );
+      expect(removeEventListenerSpy).toHaveBeenCalledWith(
+        'pointerdown',
+        expect.any(Function)
+      );
+    });
+
+    it('should cancel the spring loop on destroy', () => {
+      const driver = new PointerDriver({ clock, element: surface });
+      driver.start();
+
+      pointerMove(surface, 850, 500);
+      expect(clock.pendingFrames).toBe(1);
+      driver.destroy();
+
+      expect(clock.pendingFrames).toBe(0);
+    });
+  });
+});
@@ -4,6 +4,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Renderer } from '../src/core/render';
+import { ManualClock } from '../src/core/clock';
 import type { RendererConfig, BallState } from '../src/core/render';
 import type { CanvasManager, ProgressDriver, ShadowCalculator, Vec3, LightSource } from '../src/types';
 
@@ -22,6 +23,7 @@ function createMockCanvasManager(): CanvasManager {
     height: 600,
     dpr: 1,
     resize: vi.fn(),
+    setLayout: vi.fn(),
     toWorldCoords: vi.fn((x, y) => ({ x: x / 800, y: y / 600 })),
     toCSSCoords: vi.fn((x, y) => ({ x: x * 800, y: y * 600 })),
     destroy: vi.fn(),
@@ -137,6 +139,53 @@ describe('Renderer', () => {
     });
   });
   
+  describe('Holding', () => {
+    it('should draw once when held, then only after changes', () => {
+      const clock = new ManualClock({ frameMs: 20 });
+      const driver = createMockDriver(0.25);
+      const onUpdate = vi.fn();
+      const renderer = new Renderer(createTestConfig({ clock, driver, onUpdate }));
+      
+      renderer.start();
+      clock.advance(40);
+      expect(onUpdate).toHaveBeenCalledTimes(2);
+      
+      renderer.hold();
+      clock.advance(100);
+      expect(onUpdate).toHaveBeenCalledTimes(3);
+      expect(clock.pendingFrames).toBe(0);
+      
+      // A seek or a setter draws one more frame
+      (driver as any).setProgress(0.75);
+      renderer.invalidate();
+      renderer.setLight({ x: 0, y: 0, z: 1 });
+      clock.advance(100);
+      expect(onUpdate).toHaveBeenCalledTimes(4);
+      expect(renderer.getCurrentState()?.t).toBe(0.75);
+      
+      renderer.start();
+      clock.advance(40);
+      expect(onUpdate).toHaveBeenCalledTimes(6);
+      
+      renderer.stop();
+    });
+    
+    it('should not draw changes once stopped', () => {
+      const clock = new ManualClock({ frameMs: 20 });
+      const onUpdate = vi.fn();
+      const renderer = new Renderer(createTestConfig({ clock, onUpdate }));
+      
+      renderer.hold();
+      renderer.stop();
+      renderer.invalidate();
+      renderer.setLight({ x: 0, y: 0, z: 1 });
+      clock.advance(100);
+      
+      expect(onUpdate).not.toHaveBeenCalled();
+      expect(clock.pendingFrames).toBe(0);
+    });
+  });
+  
   describe('Update Logic', () => {
     it('should compute ball state from progress', () => {
       const driver = createMockDriver(0.5);
@@ -154,6 +203,17 @@ describe('Renderer', () => {
       expect(state!.z).toBe(0.5); // curveFn returns t
     });
     
+    it('should pass the ball position to the curve function', () => {
+      const driver = createMockDriver(0.5);
+      const curveFn = vi.fn((t: number) => t);
+      const config = createTestConfig({ driver, curveFn, pathY: (t) => 1 - t * t });
+      const renderer = new Renderer(config);
+      
+      renderer['update']();
+      
+      expect(curveFn).toHaveBeenCalledWith(0.5, { x: 0.5, y: 0.75 });
+    });
+    
     it('should calculate radius based on Z height', () => {
       const driver = createMockDriver(0);
       const config = createTestConfig({ driver });
@@ -193,6 +253,116 @@ describe('Renderer', () => {
       expect(state!.y).toBe(0.5); // 1 - 0.5
     });
     
+    it('should evaluate replaced curves from the next update', () => {
+      const driver = createMockDriver(0.25);
+      const renderer = new Renderer(createTestConfig({ driver }));
+      
+      renderer.setCurves({
+        curveFn: (t) => 1 - t,
+        pathX: () => 0.1,
+        pathY: () => 0.9,
+        segmentLabelAt: () => 'swapped',
+      });
+      renderer['update']();
+      
+      const state = renderer.getCurrentState();
+      expect(state!.z).toBe(0.75);
+      expect(state!.x).toBe(0.1);
+      expect(state!.y).toBe(0.9);
+      expect(state!.segment).toBe('swapped');
+    });
+    
+    it('should feed per-axis progress into path functions for two-axis drivers', () => {
+      const driver: ProgressDriver = {
+        ...createMockDriver(0.5),
+        getProgressVector: () => ({ x: 0.2, y: 0.8 }),
+      };
+      const config = createTestConfig({
+        driver,
+        pathX: (t) => t,
+        pathY: (t) => t,
+      });
+      const renderer = new Renderer(config);
+      
+      renderer['update']();
+      
+      const state = renderer.getCurrentState();
+      expect(state!.t).toBe(0.5);
+      expect(state!.x).toBe(0.2);
+      expect(state!.y).toBe(0.8);
+      expect(state!.z).toBe(0.5); // Height still follows scalar progress
+    });
+    
+    it('should render the smoothed progress when the driver provides one', () => {
+      const driver: ProgressDriver = {
+        ...createMockDriver(1),
+        getRenderProgress: () => 0.25,
+      };
+      const config = createTestConfig({ driver });
+      const renderer = new Renderer(config);
+      
+      renderer['update']();
+      
+      const state = renderer.getCurrentState();
+      expect(state!.t).toBe(0.25);
+      expect(state!.y).toBe(0.25);
+      expect(driver.getProgress()).toBe(1);
+    });
+    
+    it('should use scalar progress when the driver returns no vector', () => {
+      const driver: ProgressDriver = {
+        ...createMockDriver(0.3),
+        getProgressVector: () => null,
+      };
+      const config = createTestConfig({ driver, pathX: (t) => t });
+      const renderer = new Renderer(config);
+      
+      renderer['update']();
+      
+      const state = renderer.getCurrentState();
+      expect(state!.x).toBe(0.3);
+      expect(state!.y).toBe(0.3);
+    });
+    
+    it('should read progress from a driver swapped in with setDriver', () => {
+      const config = createTestConfig({ driver: createMockDriver(0.2) });
+      const renderer = new Renderer(config);
+      
+      renderer.setDriver(createMockDriver(0.9));
+      renderer['update']();
+      
+      expect(renderer.getCurrentState()!.t).toBe(0.9);
+    });
+    
+    it('should take height from the height source instead of the curve', () => {
+      const curveFn = vi.fn((t: number) => t);
+      const config = createTestConfig({
+        driver: createMockDriver(0.5),
+        curveFn,
+        heightSource: { getHeight: () => 0.8, destroy: () => {} },
+      });
+      const renderer = new Renderer(config);
+      
+      renderer['update']();
+      
+      const state = renderer.getCurrentState();
+      expect(state!.z).toBe(0.8);
+      expect(state!.t).toBe(0.5);
+      expect(curveFn).not.toHaveBeenCalled();
+    });
+    
+    it('should report the active segment label in the ball state', () => {
+      const config = createTestConfig({
+        driver: createMockDriver(0.75),
+        segmentLabelAt: (t: number) => (t < 0.5 ? 'drop' : 'roll'),
+      });
+      const renderer = new Renderer(config);
+      
+      renderer['update']();
+      
+      expect(renderer.getCurrentState()!.segment).toBe('roll');
+    });
+    
     it('should call shadow calculator with correct positions', () => {
       const driver = createMockDriver(0.5);
       const shadowCalculator = createMockShadowCalculator();
@@ -210,6 +380,22 @@ describe('Renderer', () => {
   });
   
   describe('Frame Timing', () => {
+    it('should schedule frames on an injected clock', () => {
+      const clock = new ManualClock({ startTime: 1000, frameMs: 20 });
+      const config = createTestConfig({ clock });
+      const renderer = new Renderer(config);
+      
+      renderer.start();
+      clock.advance(100);
+      
+      const stats = renderer.getPerformanceStats();
+      expect(stats.lastFrameTime).toBe(20);
+      expect(stats.fps).toBe(50);
+      
+      renderer.stop();
+      expect(clock.pendingFrames).toBe(0);
+    });
+    
     it('should track frame times', () => {
       const config = createTestConfig();
       const renderer = new Renderer(config);
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createCurveLookupTable } from '../src/core/sampling';
+import { bezier, linear } from '../src/core/curves';
+import { parseCssEasing } from '../src/core/easing';
+import type { CurveFn } from '../src/types';
+
+describe('Curve Sampling', () => {
+  const measureError = (curve: CurveFn, lookup: CurveFn): number => {
+    let error = 0;
+    for (let i = 0; i <= 1000; i++) {
+      error = Math.max(error, Math.abs(lookup(i / 1000) - curve(i / 1000)));
+    }
+    return error;
+  };
+
+  it('should store resolution + 1 samples from t = 0 to t = 1', () => {
+    const table = createCurveLookupTable((t) => t * t, { resolution: 4 });
+
+    expect(table.samples).toBeInstanceOf(Float32Array);
+    expect(Array.from(table.samples)).toEqual([0, 0.0625, 0.25, 0.5625, 1]);
+  });
+
+  it('should reproduce the samples exactly', () => {
+    for (const interpolation of ['linear', 'cubic'] as const) {
+      const table = createCurveLookupTable(bezier, {
+        resolution: 8,
+        interpolation,
+      });
+      for (let i = 0; i <= 8; i++) {
+        expect(table.curveFn(i / 8)).toBe(table.samples[i]);
+      }
+    }
+  });
+
+  it('should interpolate linearly between samples by default', () => {
+    const table = createCurveLookupTable((t) => t * t, { resolution: 2 });
+
+    expect(table.curveFn(0.25)).toBeCloseTo(0.125, 6);
+    expect(table.maxError).toBeCloseTo(0.0625, 6);
+  });
+
+  it('should report no error for a curve the lookup reproduces', () => {
+    expect(
+      createCurveLookupTable(linear, { resolution: 4 }).maxError
+    ).toBeLessThan(1e-7);
+    expect(
+      createCurveLookupTable((t) => 0.2 + 0.5 * t, {
+        resolution: 4,
+        interpolation: 'cubic',
+      }).maxError
+    ).toBeLessThan(1e-7);
+  });
+
+  it('should report an error bound that holds between the checked points', () => {
+    for (const interpolation of ['linear', 'cubic'] as const) {
+      const table = createCurveLookupTable(bezier, {
+        resolution: 16,
+        interpolation,
+      });
+      expect(measureError(bezier, table.curveFn)).toBeLessThanOrEqual(
+        table.maxError * 1.1 + 1e-7
+      );
+    }
+  });
+
+  it('should shrink the error as the resolution grows, faster with cubic lookup', () => {
+    const coarse = createCurveLookupTable(bezier, { resolution: 16 });
+    const fine = createCurveLookupTable(bezier, { resolution: 64 });
+    const cubic = createCurveLookupTable(bezier, {
+      resolution: 16,
+      interpolation: 'cubic',
+    });
+
+    expect(fine.maxError).toBeLessThan(coarse.maxError / 8);
+    expect(cubic.maxError).toBeLessThan(coarse.maxError / 4);
+  });
+
+  it('should read the end samples outside [0,1]', () => {
+    const table = createCurveLookupTable(linear, {
+      resolution: 4,
+      interpolation: 'cubic',
+    });
+
+    expect(table.curveFn(-0.5)).toBe(0);
+    expect(table.curveFn(1.5)).toBe(1);
+  });
+
+  it('should keep cubic lookup within the sampled range around sharp steps', () => {
+    const table = createCurveLookupTable(parseCssEasing('steps(2)'), {
+      resolution: 4,
+      interpolation: 'cubic',
+    });
+
+    for (let i = 0; i <= 100; i++) {
+      const z = table.curveFn(i / 100);
+      expect(z).toBeGreaterThanOrEqual(0);
+      expect(z).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should pass the position to the curve while sampling and not read it afterwards', () => {
+    const curve = vi.fn(
+      (_t: number, position?: { x: number; y: number }) => position?.y ?? 0
+    );
+    const table = createCurveLookupTable(curve, { resolution: 2 }, (t) => ({
+      x: 0.5,
+      y: 1 - t,
+    }));
+    const calls = curve.mock.calls.length;
+
+    expect(table.curveFn(0.25, { x: 0, y: 0 })).toBeCloseTo(0.75, 6);
+    expect(curve.mock.calls.length).toBe(calls);
+  });
+
+  it('should report an unbounded error when the curve returns NaN', () => {
+    const table = createCurveLookupTable((t) => (t > 0.5 ? NaN : t), {
+      resolution: 4,
+    });
+    expect(table.maxError).toBe(Infinity);
+  });
+
+  it('should reject resolutions that are not positive integers', () => {
+    expect(() => createCurveLookupTable(linear, { resolution: 0 })).toThrow(
+      'Curve sampling resolution must be a positive integer, but got 0'
+    );
+    expect(() => createCurveLookupTable(linear, { resolution: 2.5 })).toThrow(
+      'Curve sampling resolution must be a positive integer, but got 2.5'
+    );
+  });
+});
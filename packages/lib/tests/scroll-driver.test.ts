@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { ScrollDriver } from '../src/core/timeline';
+import { ScrollDriver, ProgressSmoother } from '../src/core/timeline';
 
 describe('ScrollDriver', () => {
   let mockScrollTarget: HTMLElement;
@@ -139,6 +139,279 @@ describe('ScrollDriver', () => {
     });
   });
 
+  describe('Scroll range offsets', () => {
+    const scrollTo = (scrollTop: number) => {
+      Object.defineProperty(mockScrollTarget, 'scrollTop', { value: scrollTop, writable: true, configurable: true });
+      mockScrollTarget.dispatchEvent(new Event('scroll'));
+      return new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+    };
+
+    it('should map progress across a pixel sub-range and clamp outside it', async () => {
+      const driver = new ScrollDriver({ scrollTarget: mockScrollTarget, scrollStart: 200, scrollEnd: 600 });
+      driver.start();
+
+      await scrollTo(100);
+      expect(driver.getProgress()).toBe(0);
+
+      await scrollTo(400);
+      expect(driver.getProgress()).toBeCloseTo(0.5, 3);
+
+      await scrollTo(900);
+      expect(driver.getProgress()).toBe(1);
+
+      driver.destroy();
+    });
+
+    it('should resolve percentages against the scrollable distance', async () => {
+      // scrollableDistance = 1400, so 25% = 350 and 75% = 1050
+      const driver = new ScrollDriver({ scrollTarget: mockScrollTarget, scrollStart: '25%', scrollEnd: '75%' });
+      driver.start();
+
+      await scrollTo(700);
+      expect(driver.getProgress()).toBeCloseTo(0.5, 3);
+
+      await scrollTo(1050);
+      expect(driver.getProgress()).toBeCloseTo(1, 3);
+
+      driver.destroy();
+    });
+
+    it('should resolve elements to the scroll position of their top edge', async () => {
+      const section = document.createElement('section');
+      const nextSection = document.createElement('section');
+      vi.spyOn(mockScrollTarget, 'getBoundingClientRect').mockReturnValue({ top: 50 } as DOMRect);
+      // Element rects move up as the container scrolls
+      vi.spyOn(section, 'getBoundingClientRect').mockImplementation(
+        () => ({ top: 50 + 500 - mockScrollTarget.scrollTop }) as DOMRect
+      );
+      vi.spyOn(nextSection, 'getBoundingClientRect').mockImplementation(
+        () => ({ top: 50 + 900 - mockScrollTarget.scrollTop }) as DOMRect
+      );
+
+      const driver = new ScrollDriver({
+        scrollTarget: mockScrollTarget,
+        scrollStart: section,
+        scrollEnd: nextSection,
+      });
+      driver.start();
+
+      await scrollTo(400);
+      expect(driver.getProgress()).toBe(0);
+
+      await scrollTo(600);
+      expect(driver.getProgress()).toBeCloseTo(0.25, 3);
+
+      await scrollTo(1200);
+      expect(driver.getProgress()).toBe(1);
+
+      driver.destroy();
+    });
+
+    it('should step from 0 to 1 when the range is empty', async () => {
+      const driver = new ScrollDriver({ scrollTarget: mockScrollTarget, scrollStart: 500, scrollEnd: 500 });
+      driver.start();
+
+      await scrollTo(499);
+      expect(driver.getProgress()).toBe(0);
+
+      await scrollTo(500);
+      expect(driver.getProgress()).toBe(1);
+
+      driver.destroy();
+    });
+  });
+
+  describe('Scroll axis', () => {
+    beforeEach(() => {
+      Object.defineProperty(mockScrollTarget, 'scrollLeft', { value: 0, writable: true, configurable: true });
+      Object.defineProperty(mockScrollTarget, 'scrollWidth', { value: 3000, writable: true, configurable: true });
+      Object.defineProperty(mockScrollTarget, 'clientWidth', { value: 1000, writable: true, configurable: true });
+    });
+
+    const scrollTo = (scrollLeft: number, scrollTop: number) => {
+      Object.defineProperty(mockScrollTarget, 'scrollLeft', { value: scrollLeft, writable: true, configurable: true });
+      Object.defineProperty(mockScrollTarget, 'scrollTop', { value: scrollTop, writable: true, configurable: true });
+      mockScrollTarget.dispatchEvent(new Event('scroll'));
+      return new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+    };
+
+    it('should track scrollTop by default and expose no progress vector', async () => {
+      const driver = new ScrollDriver({ scrollTarget: mockScrollTarget });
+      driver.start();
+
+      await scrollTo(1000, 700);
+      expect(driver.getProgress()).toBeCloseTo(0.5, 3);
+      expect(driver.getProgressVector()).toBeNull();
+
+      driver.destroy();
+    });
+
+    it('should track scrollLeft when axis is x', async () => {
+      // scrollWidth = 3000, clientWidth = 1000, scrollableDistance = 2000
+      const driver = new ScrollDriver({ scrollTarget: mockScrollTarget, axis: 'x' });
+      driver.start();
+
+      await scrollTo(500, 1400);
+      expect(driver.getProgress()).toBeCloseTo(0.25, 3);
+      expect(driver.getProgressVector()).toBeNull();
+
+      driver.destroy();
+    });
+
+    it('should track both axes independently when axis is both', async () => {
+      const driver = new ScrollDriver({ scrollTarget: mockScrollTarget, axis: 'both' });
+      driver.start();
+
+      await scrollTo(1500, 350);
+      const vector = driver.getProgressVector();
+      expect(vector!.x).toBeCloseTo(0.75, 3);
+      expect(vector!.y).toBeCloseTo(0.25, 3);
+      expect(driver.getProgress()).toBeCloseTo(0.5, 3);
+
+      driver.stop();
+      expect(driver.getProgressVector()).toEqual({ x: 0, y: 0 });
+    });
+
+    it('should resolve element offsets against the left edge on the x axis', async () => {
+      const card = document.createElement('div');
+      vi.spyOn(mockScrollTarget, 'getBoundingClientRect').mockReturnValue({ top: 0, left: 20 } as DOMRect);
+      vi.spyOn(card, 'getBoundingClientRect').mockImplementation(
+        () => ({ top: 0, left: 20 + 1000 - mockScrollTarget.scrollLeft }) as DOMRect
+      );
+
+      const driver = new ScrollDriver({ scrollTarget: mockScrollTarget, axis: 'x', scrollStart: card });
+      driver.start();
+
+      // Range runs from 1000 to 2000
+      await scrollTo(1500, 0);
+      expect(driver.getProgress()).toBeCloseTo(0.5, 3);
+
+      driver.destroy();
+    });
+  });
+
+  describe('Smoothing', () => {
+    const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+
+    it('should return raw progress for rendering when smoothing is disabled', async () => {
+      const driver = new ScrollDriver({ scrollTarget: mockScrollTarget });
+      driver.start();
+
+      Object.defineProperty(mockScrollTarget, 'scrollTop', { value: 700, writable: true, configurable: true });
+      mockScrollTarget.dispatchEvent(new Event('scroll'));
+      await nextFrame();
+
+      expect(driver.getRenderProgress()).toBe(driver.getProgress());
+      driver.destroy();
+    });
+
+    it('should ease render progress toward the raw target', async () => {
+      const driver = new ScrollDriver({
+        scrollTarget: mockScrollTarget,
+        smoothing: { type: 'lerp', factor: 0.2 },
+      });
+      driver.start();
+
+      Object.defineProperty(mockScrollTarget, 'scrollTop', { value: 1400, writable: true, configurable: true });
+      mockScrollTarget.dispatchEvent(new Event('scroll'));
+      await nextFrame();
+
+      // Raw target snaps immediately, rendered value lags behind
+      expect(driver.getProgress()).toBeCloseTo(1, 3);
+      await nextFrame();
+      const early = driver.getRenderProgress();
+      expect(early).toBeGreaterThan(0);
+      expect(early).toBeLessThan(1);
+
+      await nextFrame();
+      expect(driver.getRenderProgress()).toBeGreaterThan(early);
+
+      driver.destroy();
+    });
+
+    it('should start from the current scroll position without easing in', () => {
+      Object.defineProperty(mockScrollTarget, 'scrollTop', { value: 700, writable: true, configurable: true });
+      const driver = new ScrollDriver({
+        scrollTarget: mockScrollTarget,
+        smoothing: { type: 'spring' },
+      });
+      driver.start();
+
+      expect(driver.getRenderProgress()).toBeCloseTo(0.5, 3);
+      driver.destroy();
+    });
+
+    it('should stop its animation frame loop when paused', async () => {
+      const driver = new ScrollDriver({
+        scrollTarget: mockScrollTarget,
+        smoothing: { type: 'lerp', factor: 0.1 },
+      });
+      driver.start();
+
+      Object.defineProperty(mockScrollTarget, 'scrollTop', { value: 1400, writable: true, configurable: true });
+      mockScrollTarget.dispatchEvent(new Event('scroll'));
+      await nextFrame();
+      await nextFrame();
+
+      driver.pause();
+      const frozen = driver.getRenderProgress();
+      await nextFrame();
+      await nextFrame();
+      expect(driver.getRenderProgress()).toBe(frozen);
+
+      driver.stop();
+      expect(driver.getRenderProgress()).toBe(0);
+    });
+  });
+
+  describe('ProgressSmoother', () => {
+    it('should converge to the target with lerp and report when settled', () => {
+      const smoother = new ProgressSmoother({ type: 'lerp', factor: 0.5 });
+      smoother.reset(0);
+
+      // One 60fps frame covers half the remaining distance
+      expect(smoother.step(1, 1000 / 60)).toBe(false);
+      expect(smoother.value).toBeCloseTo(0.5, 5);
+
+      let settled = false;
+      for (let i = 0; i < 50 && !settled; i++) {
+        settled = smoother.step(1, 1000 / 60);
+      }
+      expect(settled).toBe(true);
+      expect(smoother.value).toBe(1);
+    });
+
+    it('should be frame-rate independent with lerp', () => {
+      const a = new ProgressSmoother({ type: 'lerp', factor: 0.3 });
+      const b = new ProgressSmoother({ type: 'lerp', factor: 0.3 });
+      a.reset(0);
+      b.reset(0);
+
+      a.step(1, 1000 / 30);
+      b.step(1, 1000 / 60);
+      b.step(1, 1000 / 60);
+
+      expect(a.value).toBeCloseTo(b.value, 6);
+    });
+
+    it('should approach the target without overshoot using a critically damped spring', () => {
+      const smoother = new ProgressSmoother({ type: 'spring', stiffness: 170 });
+      smoother.reset(0);
+
+      let previous = 0;
+      let settled = false;
+      for (let i = 0; i < 600 && !settled; i++) {
+        settled = smoother.step(1, 1000 / 60);
+        expect(smoother.value).toBeLessThanOrEqual(1);
+        expect(smoother.value).toBeGreaterThanOrEqual(previous);
+        previous = smoother.value;
+      }
+
+      expect(settled).toBe(true);
+      expect(smoother.value).toBe(1);
+    });
+  });
+
   describe('Performance optimizations', () => {
     it('should use requestAnimationFrame batching for scroll updates', () => {
       const rafSpy = vi.spyOn(window, 'requestAnimationFrame');
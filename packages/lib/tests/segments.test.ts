@@ -0,0 +1,225 @@
+/**
+ * Unit tests for multi-segment timelines
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createSegmentTimeline } from '../src/core/segments';
+import type { SegmentFallback } from '../src/core/segments';
+
+const fallback: SegmentFallback = {
+  curveFn: (t) => t,
+  pathX: () => 0.5,
+  pathY: (t) => t,
+};
+
+describe('createSegmentTimeline', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Progress mapping', () => {
+    it('should split progress by normalized shares', () => {
+      const timeline = createSegmentTimeline(
+        [
+          { label: 'drop', share: 1, customCurve: (t) => 1 - t },
+          { label: 'bounce', share: 2, customCurve: () => 0 },
+          { label: 'roll', share: 1, customCurve: () => 0 },
+        ],
+        fallback
+      );
+
+      expect(timeline.labelAt(0)).toBe('drop');
+      expect(timeline.labelAt(0.2)).toBe('drop');
+      expect(timeline.labelAt(0.25)).toBe('bounce');
+      expect(timeline.labelAt(0.74)).toBe('bounce');
+      expect(timeline.labelAt(0.75)).toBe('roll');
+      expect(timeline.labelAt(1)).toBe('roll');
+
+      // 0.125 is halfway through the first quarter
+      expect(timeline.curveFn(0.125)).toBeCloseTo(0.5, 6);
+    });
+
+    it('should default every share to 1', () => {
+      const timeline = createSegmentTimeline(
+        [
+          { label: 'a', customCurve: (t) => t },
+          { label: 'b', customCurve: (t) => 1 - t },
+        ],
+        fallback
+      );
+
+      expect(timeline.curveFn(0.25)).toBeCloseTo(0.5, 6);
+      expect(timeline.curveFn(0.5)).toBeCloseTo(1, 6);
+      expect(timeline.curveFn(1)).toBeCloseTo(0, 6);
+    });
+
+    it('should clamp progress outside [0,1] to the first and last segments', () => {
+      const timeline = createSegmentTimeline(
+        [
+          { label: 'a', customCurve: (t) => t },
+          { label: 'b', customCurve: (t) => 1 - t },
+        ],
+        fallback
+      );
+
+      expect(timeline.labelAt(-0.5)).toBe('a');
+      expect(timeline.curveFn(-0.5)).toBe(0);
+      expect(timeline.labelAt(1.5)).toBe('b');
+      expect(timeline.curveFn(1.5)).toBe(0);
+    });
+
+    it('should apply each segment easing to local progress', () => {
+      const timeline = createSegmentTimeline(
+        [
+          {
+            label: 'only',
+            easing: (t) => t * t,
+            customCurve: (t) => t,
+            pathX: (t) => t,
+          },
+        ],
+        fallback
+      );
+
+      expect(timeline.curveFn(0.5)).toBeCloseTo(0.25, 6);
+      expect(timeline.pathX(0.5)).toBeCloseTo(0.25, 6);
+    });
+  });
+
+  describe('Fallbacks', () => {
+    it('should evaluate fallback functions at overall progress', () => {
+      const timeline = createSegmentTimeline(
+        [
+          { label: 'a', pathX: () => 0.5 },
+          { label: 'b', pathX: () => 0.5 },
+        ],
+        fallback
+      );
+
+      expect(timeline.curveFn(0.75)).toBeCloseTo(0.75, 6);
+      expect(timeline.pathY(0.75)).toBeCloseTo(0.75, 6);
+    });
+
+    it('should build segment curves from presets and keypoints', () => {
+      const timeline = createSegmentTimeline(
+        [
+          { label: 'preset', curvePreset: 'linear' },
+          {
+            label: 'keypoints',
+            keypoints: [
+              { y: 0, zMin: 1, zMax: 1 },
+              { y: 1, zMin: 1, zMax: 1 },
+            ],
+          },
+        ],
+        fallback
+      );
+
+      expect(timeline.curveFn(0.25)).toBeCloseTo(0.5, 6);
+      expect(timeline.curveFn(0.75)).toBeCloseTo(1, 6);
+    });
+
+    it('should compile expression strings for curves and paths', () => {
+      const timeline = createSegmentTimeline(
+        [
+          { label: 'rise', customCurve: 't ^ 2', pathX: '0.5 - t / 4' },
+          { label: 'fall', customCurve: '1 - t', pathY: '1 - t' },
+        ],
+        fallback
+      );
+
+      expect(timeline.curveFn(0.25)).toBeCloseTo(0.25, 6);
+      expect(timeline.pathX(0.25)).toBeCloseTo(0.375, 6);
+      expect(timeline.curveFn(0.75)).toBeCloseTo(0.5, 6);
+      expect(timeline.pathY(0.75)).toBeCloseTo(0.5, 6);
+    });
+
+    it('should evaluate segment keypoints at the position passed in', () => {
+      const timeline = createSegmentTimeline(
+        [
+          {
+            label: 'keypoints',
+            keypoints: [
+              { y: 0, zMin: 0, zMax: 0 },
+              { y: 0.5, zMin: 1, zMax: 1 },
+              { y: 1, zMin: 0, zMax: 0 },
+            ],
+          },
+        ],
+        fallback
+      );
+
+      expect(timeline.curveFn(0.2, { x: 0.5, y: 0.5 })).toBeCloseTo(1, 6);
+      expect(timeline.curveFn(0.5, { x: 0.5, y: 0 })).toBeCloseTo(0, 6);
+    });
+
+    it('should pass the keypoint oscillation local progress', () => {
+      const keypointOscillation = vi.fn(() => 1);
+      const timeline = createSegmentTimeline(
+        [
+          { label: 'a' },
+          {
+            label: 'b',
+            keypoints: [{ y: 0.5, zMin: 0, zMax: 0.4 }],
+          },
+        ],
+        { ...fallback, keypointOscillation }
+      );
+
+      expect(timeline.curveFn(0.75, { x: 0.5, y: 0.5 })).toBeCloseTo(0.4, 6);
+      expect(keypointOscillation).toHaveBeenCalledWith(0.5);
+    });
+  });
+
+  describe('Continuity checks', () => {
+    it('should not warn when neighbouring segments meet', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      createSegmentTimeline(
+        [
+          { label: 'drop', customCurve: (t) => 1 - t },
+          { label: 'roll', customCurve: () => 0 },
+        ],
+        fallback
+      );
+
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+
+    it('should warn about each channel that jumps at a boundary', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      createSegmentTimeline(
+        [
+          { label: 'drop', customCurve: (t) => 1 - t, pathX: () => 0.2 },
+          { label: 'bounce', customCurve: () => 0.4, pathX: () => 0.8 },
+        ],
+        fallback
+      );
+
+      expect(warnSpy).toHaveBeenCalledTimes(2);
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '"drop" and "bounce" do not meet at progress 0.500: z jumps from 0.000 to 0.400'
+        )
+      );
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('x jumps from 0.200 to 0.800')
+      );
+    });
+
+    it('should ignore jumps within the tolerance', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      createSegmentTimeline(
+        [
+          { label: 'a', customCurve: () => 0.5 },
+          { label: 'b', customCurve: () => 0.505 },
+        ],
+        fallback
+      );
+
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,5 +1,5 @@
-import { describe, it, expect, vi } from 'vitest';
-import { TimeDriver } from '../src/core/timeline';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TimeDriver, ManualDriver } from '../src/core/timeline';
 
 describe('TimeDriver', () => {
   describe('Basic functionality', () => {
@@ -137,6 +137,421 @@ describe('TimeDriver', () => {
     });
   });
 
+  describe('Playback rate and direction', () => {
+    let now: number;
+
+    beforeEach(() => {
+      now = 0;
+      vi.spyOn(performance, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should scale elapsed time by the playback rate', () => {
+      const driver = new TimeDriver({ durationMs: 1000, playbackRate: 2 });
+      driver.start();
+
+      now = 250;
+      expect(driver.getProgress()).toBeCloseTo(0.5, 5);
+      driver.destroy();
+    });
+
+    it('should play backwards from the end with a negative rate', () => {
+      const driver = new TimeDriver({ durationMs: 1000, playbackRate: -1 });
+      driver.start();
+      expect(driver.getProgress()).toBe(1);
+
+      now = 250;
+      expect(driver.getProgress()).toBeCloseTo(0.75, 5);
+
+      now = 2000;
+      expect(driver.getProgress()).toBe(0);
+      driver.destroy();
+    });
+
+    it('should change rate mid-animation without a jump', () => {
+      const driver = new TimeDriver({ durationMs: 1000 });
+      driver.start();
+
+      now = 400;
+      driver.setPlaybackRate(-0.5);
+      expect(driver.getProgress()).toBeCloseTo(0.4, 5);
+      expect(driver.getPlaybackRate()).toBe(-0.5);
+
+      now = 600;
+      expect(driver.getProgress()).toBeCloseTo(0.3, 5);
+      driver.destroy();
+    });
+
+    it('should play each iteration backwards with direction reverse', () => {
+      const driver = new TimeDriver({ durationMs: 1000, direction: 'reverse' });
+      driver.start();
+
+      now = 250;
+      expect(driver.getProgress()).toBeCloseTo(0.75, 5);
+
+      now = 1500;
+      expect(driver.getProgress()).toBe(0);
+      driver.destroy();
+    });
+
+    it('should bounce back with direction alternate', () => {
+      const driver = new TimeDriver({
+        durationMs: 1000,
+        loop: true,
+        direction: 'alternate',
+      });
+      driver.start();
+
+      now = 750;
+      expect(driver.getProgress()).toBeCloseTo(0.75, 5);
+
+      // Second iteration comes back down instead of restarting at 0
+      now = 1250;
+      expect(driver.getProgress()).toBeCloseTo(0.75, 5);
+
+      now = 2250;
+      expect(driver.getProgress()).toBeCloseTo(0.25, 5);
+      driver.destroy();
+    });
+
+    it('should end an even number of alternate loops back at 0', () => {
+      const driver = new TimeDriver({
+        durationMs: 1000,
+        loop: 2,
+        direction: 'alternate',
+      });
+      driver.start();
+
+      now = 5000;
+      expect(driver.getProgress()).toBe(0);
+      driver.destroy();
+    });
+
+    it('should hold the final progress after completing', () => {
+      const driver = new TimeDriver({ durationMs: 1000 });
+      driver.start();
+
+      now = 1500;
+      expect(driver.getProgress()).toBe(1);
+
+      now = 3000;
+      expect(driver.getProgress()).toBe(1);
+      driver.destroy();
+    });
+
+    it('should not advance while paused at any rate', () => {
+      const driver = new TimeDriver({ durationMs: 1000, playbackRate: 3 });
+      driver.start();
+
+      now = 100;
+      driver.pause();
+      driver.setPlaybackRate(1);
+
+      now = 500;
+      expect(driver.getProgress()).toBeCloseTo(0.3, 5);
+
+      driver.resume();
+      now = 600;
+      expect(driver.getProgress()).toBeCloseTo(0.4, 5);
+      driver.destroy();
+    });
+  });
+
+  describe('Delay, end delay and seeking', () => {
+    let now: number;
+
+    beforeEach(() => {
+      now = 0;
+      vi.spyOn(performance, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should hold at the start during the delay', () => {
+      const driver = new TimeDriver({ durationMs: 1000, delayMs: 500 });
+      driver.start();
+
+      now = 400;
+      expect(driver.getProgress()).toBe(0);
+
+      now = 750;
+      expect(driver.getProgress()).toBeCloseTo(0.25, 5);
+      driver.destroy();
+    });
+
+    it('should hold at the end of each iteration during the end delay', () => {
+      const driver = new TimeDriver({
+        durationMs: 1000,
+        endDelayMs: 500,
+        loop: 2,
+      });
+      driver.start();
+
+      now = 1250;
+      expect(driver.getProgress()).toBe(1);
+      expect(driver.getCompletedLoops()).toBe(0);
+
+      now = 1750;
+      expect(driver.getProgress()).toBeCloseTo(0.25, 5);
+      expect(driver.getCompletedLoops()).toBe(1);
+
+      // Completes after the last iteration's end delay
+      now = 2900;
+      expect(driver.getProgress()).toBe(1);
+      now = 3000;
+      expect(driver.getProgress()).toBe(1);
+      expect(driver.getCompletedLoops()).toBe(2);
+      driver.destroy();
+    });
+
+    it('should seek across iterations and keep playing', () => {
+      const driver = new TimeDriver({
+        durationMs: 1000,
+        delayMs: 200,
+        loop: 3,
+        direction: 'alternate',
+      });
+      driver.start();
+
+      // 200ms delay + one iteration + 300ms into the reversed second iteration
+      driver.seek(1500);
+      expect(driver.getProgress()).toBeCloseTo(0.7, 5);
+      expect(driver.getCompletedLoops()).toBe(1);
+
+      now = 100;
+      expect(driver.getProgress()).toBeCloseTo(0.6, 5);
+      driver.destroy();
+    });
+
+    it('should report the iteration, its direction and completion', () => {
+      const driver = new TimeDriver({
+        durationMs: 1000,
+        loop: 2,
+        direction: 'alternate',
+      });
+      driver.start();
+      expect(driver.getIteration()).toBe(0);
+      expect(driver.isIterationReversed(0)).toBe(false);
+      expect(driver.isFinished()).toBe(false);
+
+      now = 1500;
+      driver.getProgress();
+      expect(driver.getIteration()).toBe(1);
+      expect(driver.isIterationReversed(1)).toBe(true);
+
+      now = 2500;
+      driver.getProgress();
+      expect(driver.getIteration()).toBe(1);
+      expect(driver.isFinished()).toBe(true);
+      driver.destroy();
+    });
+
+    it('should report each loop and the completion', () => {
+      const onLoop = vi.fn();
+      const onComplete = vi.fn();
+      const driver = new TimeDriver({
+        durationMs: 1000,
+        loop: 3,
+        onLoop,
+        onComplete,
+      });
+      driver.start();
+
+      now = 1100;
+      driver.getProgress();
+      expect(onLoop).toHaveBeenCalledWith(1);
+
+      // A long frame crosses the last boundary and the end at once
+      now = 5000;
+      driver.getProgress();
+      expect(onLoop.mock.calls).toEqual([[1], [2]]);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+
+      driver.getProgress();
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      driver.destroy();
+    });
+
+    it('should report completion reached by seeking but not loops', () => {
+      const onLoop = vi.fn();
+      const onComplete = vi.fn();
+      const driver = new TimeDriver({
+        durationMs: 1000,
+        loop: 2,
+        onLoop,
+        onComplete,
+      });
+      driver.start();
+
+      driver.seek(1500);
+      expect(onLoop).not.toHaveBeenCalled();
+
+      driver.seek(2000);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      driver.destroy();
+    });
+
+    it('should seek while paused and resume from the new position', () => {
+      const driver = new TimeDriver({ durationMs: 1000 });
+      driver.start();
+
+      now = 100;
+      driver.pause();
+      driver.seek(600);
+      now = 500;
+      expect(driver.getProgress()).toBeCloseTo(0.6, 5);
+
+      driver.resume();
+      now = 600;
+      expect(driver.getProgress()).toBeCloseTo(0.7, 5);
+      driver.destroy();
+    });
+
+    it('should start from a seeked position when idle', () => {
+      const driver = new TimeDriver({ durationMs: 1000 });
+      driver.seek(250);
+      expect(driver.getProgress()).toBeCloseTo(0.25, 5);
+
+      driver.start();
+      now = 250;
+      expect(driver.getProgress()).toBeCloseTo(0.5, 5);
+      driver.destroy();
+    });
+
+    it('should restore a captured position into a new driver', () => {
+      const config = {
+        durationMs: 1000,
+        loop: true,
+        direction: 'alternate' as const,
+      };
+      const driver = new TimeDriver(config);
+      driver.start();
+      now = 1300;
+      driver.setPlaybackRate(2);
+      now = 1400;
+
+      const state = driver.getState();
+      expect(state).toEqual({ timeMs: 1500, playbackRate: 2, wrappedLoops: 0 });
+      driver.destroy();
+
+      const restored = new TimeDriver(config);
+      restored.restoreState(state);
+      expect(restored.getIteration()).toBe(1);
+      expect(restored.getProgress()).toBeCloseTo(0.5, 5);
+
+      // Held paused until started, then continues at the captured rate
+      now = 2000;
+      expect(restored.getProgress()).toBeCloseTo(0.5, 5);
+      restored.start();
+      now = 2100;
+      expect(restored.getProgress()).toBeCloseTo(0.3, 5);
+      restored.destroy();
+    });
+
+    it('should complete when seeking past the end', () => {
+      const driver = new TimeDriver({ durationMs: 1000, loop: 2 });
+      driver.start();
+
+      driver.seek(10000);
+      expect(driver.getProgress()).toBe(1);
+      expect(driver.getCompletedLoops()).toBe(2);
+
+      // A completed animation restarts from the beginning
+      driver.start();
+      expect(driver.getProgress()).toBe(0);
+      driver.destroy();
+    });
+
+    it('should seek to progress within the current iteration', () => {
+      const driver = new TimeDriver({
+        durationMs: 1000,
+        delayMs: 500,
+        loop: true,
+        direction: 'alternate',
+      });
+      driver.start();
+
+      // Skips the remaining delay
+      driver.seekProgress(0.4);
+      expect(driver.getProgress()).toBeCloseTo(0.4, 5);
+
+      // Mirrored in the reversed second iteration
+      now = 1000;
+      expect(driver.getProgress()).toBeCloseTo(0.6, 5);
+      expect(driver.getCompletedLoops()).toBe(1);
+      driver.seekProgress(0.9);
+      expect(driver.getProgress()).toBeCloseTo(0.9, 5);
+
+      now = 1100;
+      expect(driver.getProgress()).toBeCloseTo(0.8, 5);
+      driver.destroy();
+    });
+
+    it('should seek to progress within a given iteration', () => {
+      const driver = new TimeDriver({
+        durationMs: 1000,
+        loop: 3,
+        direction: 'alternate',
+      });
+
+      driver.seekProgress(0.25, 1);
+      expect(driver.getIteration()).toBe(1);
+      expect(driver.getProgress()).toBeCloseTo(0.25, 5);
+
+      // Clamped to the last iteration
+      driver.seekProgress(0.25, 7);
+      expect(driver.getIteration()).toBe(2);
+      expect(driver.getProgress()).toBeCloseTo(0.25, 5);
+      driver.destroy();
+    });
+
+    it('should start a reversed infinite loop at the end of the first iteration', () => {
+      const onLoop = vi.fn();
+      const driver = new TimeDriver({
+        durationMs: 1000,
+        loop: true,
+        playbackRate: -1,
+        onLoop,
+      });
+      driver.start();
+      expect(driver.getProgress()).toBe(1);
+      expect(driver.getIteration()).toBe(0);
+
+      const completed: number[] = [];
+      for (const time of [250, 1000, 1250, 3500]) {
+        now = time;
+        driver.getProgress();
+        completed.push(driver.getCompletedLoops());
+      }
+      expect(driver.getProgress()).toBeCloseTo(0.5, 5);
+      expect(completed.every((loops) => loops >= 0)).toBe(true);
+
+      // Only the wraps back through each start are reported
+      expect(onLoop.mock.calls).toEqual([[-1], [-2], [-3]]);
+      driver.destroy();
+    });
+
+    it('should keep cycling backwards through an infinite loop', () => {
+      const driver = new TimeDriver({
+        durationMs: 1000,
+        loop: true,
+        playbackRate: -1,
+        direction: 'alternate',
+      });
+      driver.start();
+      expect(driver.getProgress()).toBe(1);
+
+      now = 1250;
+      expect(driver.getProgress()).toBeCloseTo(0.25, 5);
+      driver.destroy();
+    });
+  });
+
   describe('Resource cleanup', () => {
     it('should clean up on destroy', async () => {
       const driver = new TimeDriver({ durationMs: 1000 });
@@ -160,3 +575,34 @@ describe('TimeDriver', () => {
     });
   });
 });
+
+describe('ManualDriver', () => {
+  it('should only change progress through setProgress', () => {
+    const driver = new ManualDriver();
+    driver.start();
+    expect(driver.getProgress()).toBe(0);
+
+    driver.setProgress(0.4);
+    driver.pause();
+    driver.resume();
+    expect(driver.getProgress()).toBe(0.4);
+  });
+
+  it('should clamp progress to [0,1]', () => {
+    const driver = new ManualDriver();
+
+    driver.setProgress(1.5);
+    expect(driver.getProgress()).toBe(1);
+
+    driver.setProgress(-0.5);
+    expect(driver.getProgress()).toBe(0);
+  });
+
+  it('should reset progress to 0 on stop', () => {
+    const driver = new ManualDriver(0.7);
+    expect(driver.getProgress()).toBe(0.7);
+
+    driver.stop();
+    expect(driver.getProgress()).toBe(0);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  StyleTransition,
+  interpolateStyle,
+  type TransitionStyle,
+} from '../src/core/transitions';
+import { ManualClock } from '../src/core/clock';
+import { linear } from '../src/core/curves';
+
+describe('Style Transitions', () => {
+  const day: TransitionStyle = {
+    light: { x: 0.2, y: 0.2, z: 2 },
+    ballStyle: {
+      fill: '#ffffff',
+      stroke: 'none',
+      strokeWidth: 0,
+      radiusAtGround: 20,
+      radiusAtMax: 40,
+    },
+    shadow: { softness: 0.4, opacityAtGround: 0.2, minScale: 0.1 },
+  };
+
+  const night: TransitionStyle = {
+    light: { x: 0.8, y: 0.4, z: 3 },
+    ballStyle: {
+      fill: '#000000',
+      stroke: '#ff0000',
+      strokeWidth: 4,
+      radiusAtGround: 30,
+      radiusAtMax: 40,
+    },
+    shadow: { softness: 0.8, opacityAtGround: 0.6, minScale: 0.1 },
+  };
+
+  describe('interpolateStyle', () => {
+    it('should interpolate numbers and colors', () => {
+      const style = interpolateStyle(day, night, 0.5, 'srgb');
+
+      expect(style.light.x).toBeCloseTo(0.5, 10);
+      expect(style.light.y).toBeCloseTo(0.3, 10);
+      expect(style.light.z).toBe(2.5);
+      expect(style.ballStyle).toEqual({
+        fill: 'rgb(128, 128, 128)',
+        stroke: 'rgba(255, 0, 0, 0.5)',
+        strokeWidth: 2,
+        radiusAtGround: 25,
+        radiusAtMax: 40,
+      });
+      expect(style.shadow.softness).toBeCloseTo(0.6, 10);
+      expect(style.shadow.opacityAtGround).toBeCloseTo(0.4, 10);
+    });
+  });
+
+  describe('StyleTransition', () => {
+    it('should apply the start immediately and the exact target at the end', () => {
+      const clock = new ManualClock({ frameMs: 100 });
+      const onUpdate = vi.fn();
+      const transition = new StyleTransition({
+        from: day,
+        to: night,
+        durationMs: 400,
+        easing: linear,
+        colorSpace: 'oklab',
+        clock,
+        onUpdate,
+      });
+
+      transition.start();
+      expect(onUpdate).toHaveBeenLastCalledWith(day);
+
+      clock.advance(100);
+      expect(onUpdate.mock.lastCall?.[0].light.z).toBeCloseTo(2.25, 10);
+
+      clock.advance(300);
+      expect(onUpdate).toHaveBeenLastCalledWith(night);
+      expect(transition.isRunning()).toBe(false);
+      expect(clock.pendingFrames).toBe(0);
+    });
+
+    it('should ease elapsed time', () => {
+      const clock = new ManualClock({ frameMs: 100 });
+      const onUpdate = vi.fn();
+      new StyleTransition({
+        from: day,
+        to: night,
+        durationMs: 400,
+        easing: (t) => t * t,
+        colorSpace: 'oklab',
+        clock,
+        onUpdate,
+      }).start();
+
+      clock.advance(200);
+      expect(onUpdate.mock.lastCall?.[0].ballStyle.radiusAtGround).toBe(22.5);
+    });
+
+    it('should report where it stopped when cancelled', () => {
+      const clock = new ManualClock({ frameMs: 100 });
+      const onUpdate = vi.fn();
+      const transition = new StyleTransition({
+        from: day,
+        to: night,
+        durationMs: 400,
+        easing: linear,
+        colorSpace: 'srgb',
+        clock,
+        onUpdate,
+      });
+      transition.start();
+      clock.advance(200);
+
+      const stopped = transition.cancel();
+      expect(stopped.light.z).toBe(2.5);
+
+      clock.advance(400);
+      expect(onUpdate).toHaveBeenCalledTimes(3);
+      expect(transition.isRunning()).toBe(false);
+    });
+
+    it('should jump to the target when the duration is zero', () => {
+      const onUpdate = vi.fn();
+      new StyleTransition({
+        from: day,
+        to: night,
+        durationMs: 0,
+        easing: linear,
+        colorSpace: 'srgb',
+        clock: new ManualClock(),
+        onUpdate,
+      }).start();
+
+      expect(onUpdate).toHaveBeenLastCalledWith(night);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ViewDriver } from '../src/core/timeline';
+
+describe('ViewDriver', () => {
+  let trigger: HTMLElement;
+  let elementTop: number;
+
+  // Viewport is 1000px tall, trigger element is 400px tall
+  const setElementTop = (top: number) => {
+    elementTop = top;
+  };
+
+  const scrollAndFlush = (top: number) => {
+    setElementTop(top);
+    window.dispatchEvent(new Event('scroll'));
+    return new Promise<void>((resolve) =>
+      requestAnimationFrame(() => resolve())
+    );
+  };
+
+  beforeEach(() => {
+    Object.defineProperty(window, 'innerHeight', {
+      value: 1000,
+      writable: true,
+      configurable: true,
+    });
+    elementTop = 1200;
+    trigger = document.createElement('div');
+    vi.spyOn(trigger, 'getBoundingClientRect').mockImplementation(
+      () =>
+        ({
+          top: elementTop,
+          bottom: elementTop + 400,
+          left: 0,
+          right: 100,
+          width: 100,
+          height: 400,
+          x: 0,
+          y: elementTop,
+          toJSON: () => ({}),
+        }) as DOMRect
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Basic functionality', () => {
+    it('should return 0 when not started', () => {
+      const driver = new ViewDriver({ viewTarget: trigger });
+      expect(driver.getProgress()).toBe(0);
+    });
+
+    it('should return 0 while the element is below the viewport', () => {
+      const driver = new ViewDriver({ viewTarget: trigger });
+      driver.start();
+      expect(driver.getProgress()).toBe(0);
+      driver.destroy();
+    });
+
+    it('should initialize progress from the current element position', () => {
+      // Default range: top enters at viewport bottom (top=1000) → bottom leaves at viewport top (top=-400)
+      setElementTop(300);
+      const driver = new ViewDriver({ viewTarget: trigger });
+      driver.start();
+      expect(driver.getProgress()).toBeCloseTo(0.5, 3);
+      driver.destroy();
+    });
+  });
+
+  describe('Progress calculation', () => {
+    it('should map travel through the viewport with default offsets', async () => {
+      const driver = new ViewDriver({ viewTarget: trigger });
+      driver.start();
+
+      await scrollAndFlush(1000);
+      expect(driver.getProgress()).toBe(0);
+
+      await scrollAndFlush(650);
+      expect(driver.getProgress()).toBeCloseTo(0.25, 3);
+
+      await scrollAndFlush(-400);
+      expect(driver.getProgress()).toBe(1);
+
+      driver.destroy();
+    });
+
+    it('should respect custom start and end offsets', async () => {
+      // Start: top of element at 80% of viewport (top=800)
+      // End: bottom of element at 20% of viewport (top=200-400=-200)
+      const driver = new ViewDriver({
+        viewTarget: trigger,
+        start: { element: 0, viewport: 0.8 },
+        end: { element: 1, viewport: 0.2 },
+      });
+      driver.start();
+
+      await scrollAndFlush(900);
+      expect(driver.getProgress()).toBe(0);
+
+      await scrollAndFlush(800);
+      expect(driver.getProgress()).toBe(0);
+
+      await scrollAndFlush(300);
+      expect(driver.getProgress()).toBeCloseTo(0.5, 3);
+
+      await scrollAndFlush(-200);
+      expect(driver.getProgress()).toBe(1);
+
+      await scrollAndFlush(-1000);
+      expect(driver.getProgress()).toBe(1);
+
+      driver.destroy();
+    });
+
+    it('should use the root element as the viewport when provided', async () => {
+      const root = document.createElement('div');
+      vi.spyOn(root, 'getBoundingClientRect').mockReturnValue({
+        top: 100,
+        bottom: 600,
+        left: 0,
+        right: 100,
+        width: 100,
+        height: 500,
+        x: 0,
+        y: 100,
+        toJSON: () => ({}),
+      } as DOMRect);
+
+      // Start: top at root bottom (top=600), end: bottom at root top (top=100-400=-300)
+      const driver = new ViewDriver({ viewTarget: trigger, root });
+      driver.start();
+
+      await scrollAndFlush(150);
+      expect(driver.getProgress()).toBeCloseTo(0.5, 3);
+
+      driver.destroy();
+    });
+
+    it('should treat an empty range as a step at the start offset', async () => {
+      const driver = new ViewDriver({
+        viewTarget: trigger,
+        start: { element: 0, viewport: 0.5 },
+        end: { element: 0, viewport: 0.5 },
+      });
+      driver.start();
+
+      await scrollAndFlush(501);
+      expect(driver.getProgress()).toBe(0);
+
+      await scrollAndFlush(500);
+      expect(driver.getProgress()).toBe(1);
+
+      driver.destroy();
+    });
+
+    it('should update on viewport resize', async () => {
+      setElementTop(300);
+      const driver = new ViewDriver({ viewTarget: trigger });
+      driver.start();
+
+      Object.defineProperty(window, 'innerHeight', {
+        value: 700,
+        writable: true,
+        configurable: true,
+      });
+      window.dispatchEvent(new Event('resize'));
+      await new Promise<void>((resolve) =>
+        requestAnimationFrame(() => resolve())
+      );
+
+      // Start at top=700, end at top=-400 → (700-300)/1100
+      expect(driver.getProgress()).toBeCloseTo(400 / 1100, 3);
+
+      driver.destroy();
+    });
+  });
+
+  describe('Performance optimizations', () => {
+    it('should use requestAnimationFrame batching for scroll updates', () => {
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame');
+      const driver = new ViewDriver({ viewTarget: trigger });
+      driver.start();
+
+      window.dispatchEvent(new Event('scroll'));
+      window.dispatchEvent(new Event('scroll'));
+      window.dispatchEvent(new Event('scroll'));
+
+      expect(rafSpy).toHaveBeenCalledTimes(1);
+
+      driver.destroy();
+    });
+
+    it('should use passive capturing scroll listeners', () => {
+      const addEventListenerSpy = vi.spyOn(window, 'addEventListener');
+      const driver = new ViewDriver({ viewTarget: trigger });
+      driver.start();
+
+      expect(addEventListenerSpy).toHaveBeenCalledWith(
+        'scroll',
+        expect.any(Function),
+        {
+          passive: true,
+          capture: true,
+        }
+      );
+
+      driver.destroy();
+    });
+  });
+
+  describe('Playback controls', () => {
+    it('should pause and maintain current progress', async () => {
+      const driver = new ViewDriver({ viewTarget: trigger });
+      driver.start();
+
+      await scrollAndFlush(300);
+      const progressBeforePause = driver.getProgress();
+      driver.pause();
+
+      await scrollAndFlush(0);
+      expect(driver.getProgress()).toBe(progressBeforePause);
+
+      driver.resume();
+      expect(driver.getProgress()).toBeGreaterThan(progressBeforePause);
+
+      driver.destroy();
+    });
+
+    it('should stop and reset progress to 0', async () => {
+      const driver = new ViewDriver({ viewTarget: trigger });
+      driver.start();
+
+      await scrollAndFlush(300);
+      expect(driver.getProgress()).toBeGreaterThan(0);
+
+      driver.stop();
+      expect(driver.getProgress()).toBe(0);
+    });
+  });
+
+  describe('Resource cleanup', () => {
+    it('should remove event listeners on destroy', () => {
+      const removeEventListenerSpy = vi.spyOn(window, 'removeEventListener');
+      const driver = new ViewDriver({ viewTarget: trigger });
+      driver.start();
+
+      driver.destroy();
+
+      expect(removeEventListenerSpy).toHaveBeenCalledWith(
+        'scroll',
+        expect.any(Function),
+        {
+          capture: true,
+        }
+      );
+      expect(removeEventListenerSpy).toHaveBeenCalledWith(
+        'resize',
+        expect.any(Function)
+      );
+    });
+
+    it('should be safe to call destroy multiple times', () => {
+      const driver = new ViewDriver({ viewTarget: trigger });
+      driver.start();
+
+      expect(() => {
+        driver.destroy();
+        driver.destroy();
+      }).not.toThrow();
+    });
+  });
+});